@@ -0,0 +1,2 @@
+export { createApiServer, ApiError, type ApiServerOptions, type ApiErrorBody } from './server.js';
+export { ValidationError, parseInvoice, parseInvoiceBatch, parseFeedback, parsePurchaseOrders, parseMemoryPatch, type VendorMemoryPatch, type CorrectionMemoryPatch } from './validation.js';
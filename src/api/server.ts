@@ -0,0 +1,249 @@
+//HTTP API: wraps InvoiceProcessor and MemoryRepository for ERP integration
+//plain node:http, JSON in and out, one error format for every failure
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import { AUDIT_STEPS, type AuditStep } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import type { IInvoiceProcessor } from '../services/processor.js';
+import { FeedbackSessionError, FeedbackRevertError } from '../services/learn.js';
+import { MemoryAdminService, MemoryAdminError } from '../services/admin.js';
+import { MemoryBundleService, BundleError, IMPORT_STRATEGIES, type ImportStrategy } from '../services/bundle.js';
+import { VendorRegistryService, VendorError } from '../services/vendors.js';
+import { ValidationError, parseInvoice, parseInvoiceBatch, parseFeedback, parsePurchaseOrders, parseMemoryPatch } from './validation.js';
+
+//request bodies above this size are refused
+const MAX_BODY_BYTES = 1024 * 1024;
+
+//error with an HTTP status and a stable machine-readable code
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly code: string, message: string, public readonly details?: string[]) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+//every error response: { "error": { "code", "message", "details"? } }
+export interface ApiErrorBody {
+  error: { code: string; message: string; details?: string[] };
+}
+
+export interface ApiServerOptions {
+  processor: IInvoiceProcessor;
+  repository: IMemoryRepository;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: () => Promise<unknown>;
+  //who is making the change, from the X-Actor header
+  actor: string;
+}
+
+type Route = { method: string; path: RegExp; handle: (ctx: RouteContext) => unknown };
+
+export function createApiServer(options: ApiServerOptions): Server {
+  const routes = buildRoutes(options);
+  return createServer((req, res) => { void handleRequest(routes, req, res); });
+}
+
+function buildRoutes({ processor, repository }: ApiServerOptions): Route[] {
+  //purchase orders imported earlier are matched against from the start
+  processor.setPurchaseOrders(repository.findPurchaseOrders());
+
+  const admin = new MemoryAdminService(repository), bundles = new MemoryBundleService(repository), vendors = new VendorRegistryService(repository);
+  const findMemory = (type: string, id: string) => {
+    const memory = type === 'vendor' || type === 'correction' || type === 'line_item' || type === 'expectation' ? repository.findMemoryById(id, type) : undefined;
+    if (!memory) throw new ApiError(404, 'not_found', `No ${type} memory ${id}`);
+    return memory;
+  };
+
+  return [
+    {
+      method: 'POST', path: /^\/invoices$/,
+      handle: async ({ body }) => processor.processInvoice(parseInvoice(await body())),
+    },
+    {
+      method: 'POST', path: /^\/invoices\/batch$/,
+      handle: async ({ body }) => {
+        const { invoices, stopOnError } = parseInvoiceBatch(await body());
+        return processor.processBatch(invoices, { stopOnError });
+      },
+    },
+    {
+      method: 'POST', path: /^\/feedback$/,
+      handle: async ({ body, actor }) => {
+        const feedback = parseFeedback(await body());
+        return processor.learnFromFeedback({ ...feedback, reviewer: feedback.reviewer ?? actor });
+      },
+    },
+    {
+      method: 'POST', path: /^\/feedback\/([^/]+)\/revert$/,
+      handle: ({ params: [id], actor }) => processor.revertFeedback(id!, actor),
+    },
+    {
+      method: 'GET', path: /^\/invoices\/([^/]+)\/audit$/,
+      handle: ({ params: [invoiceId] }) => ({ invoiceId, auditTrail: repository.getAuditTrail(invoiceId!) }),
+    },
+    {
+      method: 'GET', path: /^\/audit$/,
+      handle: ({ query }) => {
+        const issues: string[] = [], step = query.get('step'), vendor = query.get('vendorId'), memoryId = query.get('memoryId'), limit = query.get('limit');
+        const date = (key: string) => {
+          const v = query.get(key), d = v === null ? undefined : new Date(v);
+          if (d && Number.isNaN(d.getTime())) issues.push(`${key} must be an ISO date`);
+          return d;
+        };
+        const from = date('from'), to = date('to');
+        if (step !== null && !(AUDIT_STEPS as readonly string[]).includes(step)) issues.push(`step must be one of ${AUDIT_STEPS.join(', ')}`);
+        if (limit !== null && !/^\d+$/.test(limit)) issues.push('limit must be a non-negative integer');
+        if (issues.length) throw new ValidationError(issues);
+        return {
+          entries: repository.findAuditEntries({
+            ...(memoryId !== null && { memoryId }), ...(step !== null && { step: step as AuditStep }), ...(vendor !== null && { vendorId: vendors.lookup(vendor) }),
+            ...(from && { from }), ...(to && { to }), ...(limit !== null && { limit: Number(limit) }),
+          }),
+        };
+      },
+    },
+    {
+      method: 'GET', path: /^\/memories$/,
+      handle: ({ query }) => {
+        const vendor = query.get('vendorId'), fieldName = query.get('fieldName'), vendorId = vendor && vendors.lookup(vendor);
+        const vendorMemories = vendorId ? repository.findVendorMemories(vendorId) : repository.findActiveVendorMemories();
+        const correctionMemories = repository.findActiveCorrectionMemories()
+          .filter(m => !vendorId || m.vendorId === vendorId);
+        const lineItemMemories = vendorId ? repository.findLineItemMemories(vendorId) : repository.findActiveLineItemMemories();
+        const expectationMemories = vendorId ? repository.findExpectationMemories(vendorId) : repository.findActiveExpectationMemories();
+        return {
+          vendorMemories: fieldName ? vendorMemories.filter(m => m.normalizedFieldName === fieldName || m.originalFieldName === fieldName) : vendorMemories,
+          correctionMemories: fieldName ? correctionMemories.filter(m => m.fieldName === fieldName) : correctionMemories,
+          lineItemMemories: fieldName && fieldName !== 'lineItems' ? [] : lineItemMemories,
+          expectationMemories: fieldName && fieldName !== 'paymentTerms' ? [] : expectationMemories,
+        };
+      },
+    },
+    {
+      method: 'GET', path: /^\/memories\/export$/,
+      handle: ({ query }) => bundles.exportBundle(query.get('vendorId') ?? undefined),
+    },
+    {
+      method: 'POST', path: /^\/memories\/import$/,
+      handle: async ({ query, body, actor }) => {
+        const strategy = query.get('strategy') ?? 'skip';
+        if (!IMPORT_STRATEGIES.includes(strategy as ImportStrategy)) throw new ApiError(400, 'validation_error', `strategy must be one of ${IMPORT_STRATEGIES.join(', ')}`);
+        return bundles.importBundle(await body(), { strategy: strategy as ImportStrategy, dryRun: query.get('dryRun') === 'true', actor });
+      },
+    },
+    {
+      method: 'GET', path: /^\/memories\/([^/]+)\/lineage$/,
+      handle: ({ params: [id] }) => admin.getLineage(id!),
+    },
+    {
+      method: 'GET', path: /^\/memories\/(vendor|correction|line_item|expectation)\/([^/]+)$/,
+      handle: ({ params: [type, id] }) => findMemory(type!, id!),
+    },
+    {
+      method: 'PATCH', path: /^\/memories\/(vendor|correction|line_item|expectation)\/([^/]+)$/,
+      handle: async ({ params: [type, id], body, actor }) => {
+        findMemory(type!, id!);
+        return admin.editMemory(id!, parseMemoryPatch(await body(), type as 'vendor' | 'correction' | 'line_item' | 'expectation'), actor);
+      },
+    },
+    {
+      method: 'DELETE', path: /^\/memories\/(vendor|correction|line_item|expectation)\/([^/]+)$/,
+      handle: ({ params: [type, id], actor }) => {
+        findMemory(type!, id!);
+        return admin.deleteMemory(id!, actor);
+      },
+    },
+    {
+      method: 'GET', path: /^\/vendors$/,
+      handle: () => ({ vendors: vendors.listVendors() }),
+    },
+    {
+      method: 'GET', path: /^\/vendors\/([^/]+)$/,
+      handle: ({ params: [id] }) => vendors.getVendor(id!),
+    },
+    {
+      method: 'POST', path: /^\/vendors\/([^/]+)\/merge$/,
+      handle: async ({ params: [id], body, actor }) => {
+        const { sourceId } = (await body() ?? {}) as { sourceId?: unknown };
+        if (typeof sourceId !== 'string' || !sourceId) throw new ValidationError(['sourceId must be a non-empty string']);
+        return vendors.mergeVendors(id!, sourceId, actor);
+      },
+    },
+    {
+      method: 'POST', path: /^\/purchase-orders$/,
+      handle: async ({ body }) => {
+        const uploaded = parsePurchaseOrders(await body());
+        uploaded.forEach(po => repository.savePurchaseOrder(po));
+        const stored = repository.findPurchaseOrders();
+        processor.setPurchaseOrders(stored);
+        return { uploaded: uploaded.length, total: stored.length };
+      },
+    },
+  ];
+}
+
+async function handleRequest(routes: Route[], req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const matching = routes.filter(r => r.path.test(url.pathname));
+    if (!matching.length) throw new ApiError(404, 'not_found', `No route for ${url.pathname}`);
+    const route = matching.find(r => r.method === req.method);
+    if (!route) throw new ApiError(405, 'method_not_allowed', `${req.method} not allowed on ${url.pathname}; use ${matching.map(r => r.method).join(', ')}`);
+
+    const params = route.path.exec(url.pathname)!.slice(1).map(decodeURIComponent);
+    const actor = req.headers['x-actor'];
+    const result = await route.handle({ params, query: url.searchParams, body: () => readJsonBody(req), actor: typeof actor === 'string' && actor.trim() ? actor.trim() : 'api' });
+    sendJson(res, 200, result);
+  } catch (err) {
+    const apiError = toApiError(err);
+    const body: ApiErrorBody = { error: { code: apiError.code, message: apiError.message, ...(apiError.details && { details: apiError.details }) } };
+    sendJson(res, apiError.status, body);
+  }
+}
+
+function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (err instanceof ValidationError) return new ApiError(400, 'validation_error', 'Request body failed validation', err.issues);
+  if (err instanceof BundleError) return new ApiError(400, err.reason, err.message);
+  if (err instanceof VendorError) return new ApiError(err.reason === 'not_found' ? 404 : 400, err.reason, err.message);
+  if (err instanceof MemoryAdminError) return new ApiError(err.reason === 'not_found' ? 404 : 400, err.reason, err.message);
+  if (err instanceof FeedbackRevertError) return new ApiError(err.reason === 'not_found' ? 404 : 409, err.reason, err.message);
+  if (err instanceof FeedbackSessionError) {
+    return err.reason === 'already_learned' ? new ApiError(409, err.reason, err.message)
+      : err.reason === 'unknown_session' ? new ApiError(404, err.reason, err.message)
+      : new ApiError(400, err.reason, err.message);
+  }
+  return new ApiError(500, 'internal_error', err instanceof Error ? err.message : 'Unexpected error');
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        //drain the rest so the error response can still be sent
+        req.removeAllListeners('data'); req.resume();
+        reject(new ApiError(413, 'payload_too_large', `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      if (!text.trim()) return reject(new ApiError(400, 'invalid_json', 'Request body is empty'));
+      try { resolve(JSON.parse(text)); } catch { reject(new ApiError(400, 'invalid_json', 'Request body is not valid JSON')); }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(payload) });
+  res.end(payload);
+}
@@ -0,0 +1,185 @@
+//request body validation for the HTTP API
+//it turns untrusted JSON into the models the services expect, or explains what is wrong
+import type { Invoice, InvoiceField, HumanFeedback, FeedbackVerdict, FieldCorrection, VendorMemory, CorrectionMemory, LineItemMemory, ExpectationMemory, PurchaseOrder } from '../models/index.js';
+
+//invalid request body, with one message per problem
+export class ValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid request: ${issues.join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+//collects issues while reading fields, throws once at the end
+class Reader {
+  readonly issues: string[] = [];
+
+  constructor(private body: Json, private path = '') {}
+
+  private at(key: string): string { return this.path ? `${this.path}.${key}` : key; }
+
+  string(key: string, optional?: false): string;
+  string(key: string, optional: true): string | undefined;
+  string(key: string, optional = false): string | undefined {
+    const v = this.body[key];
+    if (v === undefined && optional) return undefined;
+    if (typeof v !== 'string' || !v.trim()) { this.issues.push(`${this.at(key)} must be a non-empty string`); return ''; }
+    return v;
+  }
+
+  number(key: string, min = -Infinity, max = Infinity): number {
+    const v = this.body[key];
+    if (typeof v !== 'number' || !Number.isFinite(v) || v < min || v > max) {
+      this.issues.push(`${this.at(key)} must be a number${min > -Infinity ? ` between ${min} and ${max}` : ''}`);
+      return 0;
+    }
+    return v;
+  }
+
+  boolean(key: string): boolean {
+    const v = this.body[key];
+    if (typeof v !== 'boolean') { this.issues.push(`${this.at(key)} must be true or false`); return false; }
+    return v;
+  }
+
+  date(key: string, optional = false): Date | undefined {
+    const v = this.body[key];
+    if (v === undefined && optional) return undefined;
+    const d = typeof v === 'string' || typeof v === 'number' ? new Date(v) : null;
+    if (!d || Number.isNaN(d.getTime())) { this.issues.push(`${this.at(key)} must be an ISO date`); return new Date(0); }
+    return d;
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T {
+    const v = this.body[key];
+    if (!values.includes(v as T)) { this.issues.push(`${this.at(key)} must be one of ${values.join(', ')}`); return values[0]!; }
+    return v as T;
+  }
+
+  array(key: string, optional = false): unknown[] | undefined {
+    const v = this.body[key];
+    if (v === undefined && optional) return undefined;
+    if (!Array.isArray(v)) { this.issues.push(`${this.at(key)} must be an array`); return []; }
+    return v;
+  }
+
+  object(key: string): Json {
+    const v = this.body[key];
+    if (!isObject(v)) { this.issues.push(`${this.at(key)} must be an object`); return {}; }
+    return v;
+  }
+
+  //read a nested object with its own reader, merging its issues into ours
+  nested<T>(value: unknown, path: string, read: (r: Reader) => T): T | undefined {
+    if (!isObject(value)) { this.issues.push(`${path} must be an object`); return undefined; }
+    const r = new Reader(value, path), out = read(r);
+    this.issues.push(...r.issues);
+    return out;
+  }
+
+  done<T>(value: T): T {
+    if (this.issues.length) throw new ValidationError(this.issues);
+    return value;
+  }
+}
+
+const root = (body: unknown): Reader => {
+  if (!isObject(body)) throw new ValidationError(['request body must be a JSON object']);
+  return new Reader(body);
+};
+
+export function parseInvoice(body: unknown): Invoice {
+  const r = root(body);
+  const id = r.string('id'), vendorId = r.string('vendorId');
+  const fields: Record<string, InvoiceField> = {};
+  for (const [name, raw] of Object.entries(r.object('fields'))) {
+    const field = r.nested(raw, `fields.${name}`, f => {
+      const originalLabel = f.string('originalLabel', true);
+      return { name, value: (raw as Json)['value'] ?? null, extractionConfidence: f.number('extractionConfidence', 0, 1), ...(originalLabel && { originalLabel }) };
+    });
+    if (field) fields[name] = field;
+  }
+  const rawText = r.string('rawText', true);
+  return r.done({
+    id, vendorId, vendorName: r.string('vendorName', true) ?? vendorId, invoiceNumber: r.string('invoiceNumber'),
+    invoiceDate: r.date('invoiceDate')!, fields, ...(rawText !== undefined && { rawText }),
+  });
+}
+
+//a batch is validated as a whole: one bad invoice rejects the request before anything is processed
+export function parseInvoiceBatch(body: unknown): { invoices: Invoice[]; stopOnError: boolean } {
+  const list = Array.isArray(body) ? body : isObject(body) && Array.isArray(body['invoices']) ? body['invoices'] : null;
+  if (!list) throw new ValidationError(['request body must be an array of invoices or { "invoices": [...], "stopOnError"?: boolean }']);
+  const issues: string[] = [], invoices: Invoice[] = [];
+  list.forEach((item, i) => {
+    try { invoices.push(parseInvoice(item)); } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      issues.push(...err.issues.map(issue => `invoices[${i}].${issue}`));
+    }
+  });
+  if (issues.length) throw new ValidationError(issues);
+  return { invoices, stopOnError: isObject(body) && body['stopOnError'] === true };
+}
+
+export function parseFeedback(body: unknown): HumanFeedback {
+  const r = root(body);
+  const invoiceId = r.string('invoiceId'), sessionId = r.string('sessionId', true), reviewer = r.string('reviewer', true);
+  const action = r.oneOf('action', ['approve', 'reject', 'correct'] as const);
+  const corrections = r.array('corrections', true)?.map((c, i) => r.nested(c, `corrections[${i}]`, (f): FieldCorrection => ({
+    fieldName: f.string('fieldName'), originalValue: (c as Json)['originalValue'] ?? null, correctedValue: (c as Json)['correctedValue'] ?? null,
+  }))).filter((c): c is FieldCorrection => c !== undefined);
+  if (action === 'correct' && !corrections?.length) r.issues.push('corrections must not be empty for action "correct"');
+  const verdicts = r.array('verdicts', true)?.map((v, i) => r.nested(v, `verdicts[${i}]`, (f): FeedbackVerdict => ({
+    target: f.oneOf('target', ['suggestion', 'memory', 'field'] as const), id: f.string('id'), accepted: f.boolean('accepted'),
+  }))).filter((v): v is FeedbackVerdict => v !== undefined);
+  return r.done({
+    invoiceId, action, ...(sessionId && { sessionId }), ...(corrections && { corrections }), ...(verdicts?.length && { verdicts }), ...(reviewer && { reviewer }),
+    timestamp: r.date('timestamp', true) ?? new Date(),
+  });
+}
+
+export function parsePurchaseOrders(body: unknown): PurchaseOrder[] {
+  const list = Array.isArray(body) ? body : isObject(body) && Array.isArray(body['purchaseOrders']) ? body['purchaseOrders'] : null;
+  if (!list) throw new ValidationError(['request body must be an array of purchase orders or { "purchaseOrders": [...] }']);
+  const r = new Reader({});
+  const orders = list.map((po, i) => r.nested(po, `purchaseOrders[${i}]`, p => ({
+    poNumber: p.string('poNumber'), vendor: p.string('vendor'), date: p.date('date')!,
+    lineItems: (p.array('lineItems') ?? []).map((li, j) => p.nested(li, `purchaseOrders[${i}].lineItems[${j}]`, l => ({
+      sku: l.string('sku'), qty: l.number('qty', 0), unitPrice: l.number('unitPrice', 0),
+    }))).filter(li => li !== undefined),
+  })));
+  return r.done(orders.filter((po): po is PurchaseOrder => po !== undefined));
+}
+
+//editable memory fields; everything else is learned, not set by hand
+export type VendorMemoryPatch = Partial<Pick<VendorMemory, 'confidence' | 'isActive'>>;
+export type CorrectionMemoryPatch = Partial<Pick<CorrectionMemory, 'confidence' | 'isActive' | 'originalValuePattern' | 'correctedValue'>>;
+export type LineItemMemoryPatch = Partial<Pick<LineItemMemory, 'confidence' | 'isActive' | 'sku' | 'unit'>>;
+export type ExpectationMemoryPatch = Partial<Pick<ExpectationMemory, 'confidence' | 'isActive'>>;
+
+const PATCHABLE = {
+  vendor: ['confidence', 'isActive'], correction: ['confidence', 'isActive', 'originalValuePattern', 'correctedValue'], line_item: ['confidence', 'isActive', 'sku', 'unit'],
+  expectation: ['confidence', 'isActive'],
+};
+
+export function parseMemoryPatch(body: unknown, memoryType: 'vendor' | 'correction' | 'line_item' | 'expectation'): VendorMemoryPatch | CorrectionMemoryPatch | LineItemMemoryPatch | ExpectationMemoryPatch {
+  const r = root(body), patch: CorrectionMemoryPatch & LineItemMemoryPatch = {};
+  const allowed = PATCHABLE[memoryType];
+  const input = body as Json;
+  for (const key of Object.keys(input)) if (!allowed.includes(key)) r.issues.push(`${key} cannot be changed on a ${memoryType} memory`);
+  if (input['confidence'] !== undefined) patch.confidence = r.number('confidence', 0, 1);
+  if (input['isActive'] !== undefined) {
+    if (typeof input['isActive'] !== 'boolean') r.issues.push('isActive must be a boolean');
+    else patch.isActive = input['isActive'];
+  }
+  if (memoryType === 'correction' && input['originalValuePattern'] !== undefined) patch.originalValuePattern = r.string('originalValuePattern');
+  if (memoryType === 'correction' && input['correctedValue'] !== undefined) patch.correctedValue = r.string('correctedValue');
+  if (memoryType === 'line_item' && input['sku'] !== undefined) patch.sku = r.string('sku');
+  if (memoryType === 'line_item' && input['unit'] !== undefined) patch.unit = r.string('unit');
+  if (!Object.keys(input).length) r.issues.push(`body must set one of ${allowed.join(', ')}`);
+  return r.done(patch);
+}
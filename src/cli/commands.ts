@@ -0,0 +1,415 @@
+//CLI commands: process, feedback, memories, audit, po import, policy, vendors
+//every command takes --db <path> and --json so nightly jobs can script it
+import { parseArgs } from 'util';
+import { readFileSync, writeFileSync } from 'fs';
+import { userInfo } from 'os';
+import type Database from 'better-sqlite3';
+import { initializeDatabase, closeDatabase } from '../repository/database.js';
+import { getAppliedMigrations, LATEST_SCHEMA_VERSION } from '../repository/migrations.js';
+import { MemoryRepository } from '../repository/memory-repository.js';
+import { InvoiceProcessor } from '../services/processor.js';
+import { MemoryAdminService, MemoryAdminError, describeMemory as labelMemory } from '../services/admin.js';
+import { MemoryBundleService, BundleError, IMPORT_STRATEGIES, type ImportStrategy } from '../services/bundle.js';
+import { ConfidencePolicyService, PolicyError, describeScope, describeOverrides, type PolicyOverrides } from '../services/policy.js';
+import { VendorRegistryService, VendorError } from '../services/vendors.js';
+import { ValidationError } from '../api/validation.js';
+import { FeedbackSessionError, FeedbackRevertError, type LearningResult } from '../services/learn.js';
+import { AUDIT_STEPS, type AuditStep, type Invoice, type MemoryEvent, type MemoryType, type StoredMemory, type Vendor } from '../models/index.js';
+import { readJsonInputs, toInvoice, toFeedback, toPurchaseOrders } from './input.js';
+
+export const USAGE = `Usage: learned-memory <command> [options]
+
+Commands:
+  process <invoice.json|dir>          Process one invoice file or every .json file in a directory as one batch, oldest first
+  feedback <feedback.json>            Learn from human feedback
+  feedback revert <feedbackId>        Undo a feedback submission, unless later feedback built on its memories
+  memories list [--vendor v] [--field f] [--type t] [--search s] [--all] [--limit n] [--offset n]
+  memories show <id>
+  memories lineage <id>               Where a memory came from, its confidence history and the values it auto-applied
+  memories deactivate|reactivate|delete <id>
+  memories merge <targetId> <sourceId...>
+  memories export [--vendor v] [--out file]        Write a memory bundle (stdout by default)
+  memories import <file> [--strategy s] [--dry-run] Strategies: ${IMPORT_STRATEGIES.join(', ')} (default: skip)
+  audit <invoiceId>                   Show the audit trail of an invoice
+  audit query [--memory id] [--step s] [--vendor v] [--from date] [--to date] [--limit n]
+                                      Audit entries across invoices, e.g. every apply step that touched a memory
+  po import <file>                    Import purchase orders for PO matching
+  policy list                         Confidence policies (per vendor / field overrides)
+  policy set [--vendor v] [--field f] [--auto-apply n] [--suggest n] [--reinforcement n] [--penalty n]
+                                      Use "inherit" as a value to drop that override
+  policy remove <id>
+  vendors list                        Canonical vendors with their aliases and identifiers
+  vendors show <id|name>
+  vendors alias <id> <alias>          Resolve another spelling to this vendor
+  vendors merge <targetId> <sourceId> Fold a duplicate vendor, its memories and policies into the target
+  schema                              Show the database schema version and applied migrations
+
+Options:
+  --db <path>   SQLite database (default: ./learned_memory.db)
+  --json        Machine-readable JSON output
+  --actor <who> Name recorded in the audit trail for memory changes (default: OS user)
+  --help        Show this help`;
+
+//wrong arguments: print usage, exit 2
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CliIO {
+  out: (line: string) => void;
+  err: (line: string) => void;
+}
+
+interface CliContext {
+  args: string[];
+  json: boolean;
+  options: { vendor?: string; field?: string; type?: string; search?: string; all?: boolean; limit?: string; offset?: string; out?: string; strategy?: string; 'dry-run'?: boolean;
+    'auto-apply'?: string; suggest?: string; reinforcement?: string; penalty?: string; memory?: string; step?: string; from?: string; to?: string };
+  actor: string;
+  db: Database.Database;
+  repository: MemoryRepository;
+  processor: InvoiceProcessor;
+  admin: MemoryAdminService;
+  io: CliIO;
+}
+
+type Command = (ctx: CliContext) => number;
+
+//run the CLI and return the process exit code (0 ok, 1 failed, 2 usage)
+export function runCli(argv: string[], io: CliIO = { out: console.log, err: console.error }): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv, allowPositionals: true,
+      options: {
+        db: { type: 'string' }, json: { type: 'boolean' }, actor: { type: 'string' }, help: { type: 'boolean', short: 'h' },
+        vendor: { type: 'string' }, field: { type: 'string' }, type: { type: 'string' }, search: { type: 'string' }, all: { type: 'boolean' }, limit: { type: 'string' }, offset: { type: 'string' },
+        out: { type: 'string' }, strategy: { type: 'string' }, 'dry-run': { type: 'boolean' },
+        'auto-apply': { type: 'string' }, suggest: { type: 'string' }, reinforcement: { type: 'string' }, penalty: { type: 'string' },
+        memory: { type: 'string' }, step: { type: 'string' }, from: { type: 'string' }, to: { type: 'string' },
+      },
+    });
+  } catch (err) {
+    io.err(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  const [name, ...args] = positionals;
+  if (values.help || !name) { io.out(USAGE); return name || values.help ? 0 : 2; }
+
+  const command = COMMANDS[name];
+  if (!command) { io.err(`Unknown command "${name}"\n\n${USAGE}`); return 2; }
+
+  let db: Database.Database | undefined;
+  try {
+    db = initializeDatabase(values.db ?? './learned_memory.db');
+    const repository = new MemoryRepository(db), processor = new InvoiceProcessor(repository);
+    processor.setPurchaseOrders(repository.findPurchaseOrders());
+    const { db: _db, json, actor, help: _help, ...options } = values;
+    return command({ args, json: json ?? false, options, actor: actor ?? `cli:${userInfo().username}`, db, repository, processor, admin: new MemoryAdminService(repository), io });
+  } catch (err) {
+    if (err instanceof UsageError) { io.err(`${err.message}\n\n${USAGE}`); return 2; }
+    reportError(err, values.json ?? false, io);
+    return 1;
+  } finally {
+    if (db) closeDatabase(db);
+  }
+}
+
+//source: the input file and invoice an error belongs to, when a command keeps going past it
+function reportError(err: unknown, json: boolean, io: CliIO, source?: { file: string; invoiceId?: string }): void {
+  const code = err instanceof ValidationError ? 'validation_error' : err instanceof FeedbackSessionError || err instanceof FeedbackRevertError || err instanceof MemoryAdminError || err instanceof BundleError || err instanceof PolicyError || err instanceof VendorError ? err.reason : 'error';
+  const message = err instanceof Error ? err.message : String(err);
+  if (json) io.err(JSON.stringify({ error: { code, message, ...(err instanceof ValidationError && { details: err.issues }), ...source } }));
+  else io.err(source ? `${source.file}${source.invoiceId ? ` (${source.invoiceId})` : ''}: ${message}` : `Error: ${message}`);
+}
+
+const requireArg = (args: string[], index: number, what: string): string => {
+  const v = args[index];
+  if (!v) throw new UsageError(`Missing ${what}`);
+  return v;
+};
+
+const print = (ctx: CliContext, data: unknown, text: () => string[]) => {
+  if (ctx.json) ctx.io.out(JSON.stringify(data, null, 2));
+  else text().forEach(line => ctx.io.out(line));
+};
+
+//process: one batch in invoice-date order, keeps going when one invoice fails, exit code 1 if any did
+const processCommand: Command = ctx => {
+  const invoices: Invoice[] = [], fileOf = new Map<string, string>(), failures: { file: string; invoiceId?: string; error: string }[] = [];
+  for (const file of readJsonInputs(requireArg(ctx.args, 0, 'invoice file or directory'))) {
+    for (const item of file.items) {
+      try {
+        const invoice = toInvoice(item);
+        invoices.push(invoice); fileOf.set(invoice.id, file.path);
+      } catch (err) {
+        const error = (err as Error).message;
+        failures.push({ file: file.path, error });
+        if (!ctx.json) ctx.io.err(`${file.path}: ${error}`);
+      }
+    }
+  }
+
+  const results: unknown[] = [];
+  const { summary } = ctx.processor.processBatch(invoices, {
+    onResult: item => {
+      if (item.status === 'processed') {
+        const { result } = item;
+        results.push({ invoiceId: item.invoiceId, ...result, ...(item.duplicateOf.length && { duplicateOf: item.duplicateOf }) });
+        if (ctx.json) return;
+        ctx.io.out(`${item.invoiceId}  ${result.requiresHumanReview ? 'REVIEW' : 'AUTO'}  conf=${result.confidenceScore.toFixed(3)}  session=${result.sessionId}`);
+        ctx.io.out(`  ${result.reasoning}`);
+        //suggestions come first in the string view; their ids are what reviewers act on
+        result.proposedCorrections.forEach((c, i) => ctx.io.out(`  ${i + 1}. ${result.suggestions[i] ? `[${result.suggestions[i].id}] ` : ''}${c}`));
+      } else {
+        const error = item.status === 'failed' ? item.error : `skipped: ${item.reason}`;
+        failures.push({ file: fileOf.get(item.invoiceId) ?? '', invoiceId: item.invoiceId, error });
+        if (!ctx.json) ctx.io.err(`${fileOf.get(item.invoiceId)} (${item.invoiceId}): ${error}`);
+      }
+    },
+  });
+
+  if (ctx.json) ctx.io.out(JSON.stringify({ results, failures, summary }, null, 2));
+  else if (invoices.length > 1) {
+    const patterns = Object.entries(summary.patterns).map(([type, n]) => `${type} ${n}`).join(', ');
+    ctx.io.out(`${summary.total} invoice(s): ${summary.autoAccepted} auto-accepted, ${summary.needsReview} for review, ${summary.failed} failed, ${summary.skipped} skipped${summary.duplicatesInBatch.length ? `, ${summary.duplicatesInBatch.length} duplicate(s) within the batch` : ''}${patterns ? `; patterns: ${patterns}` : ''}`);
+  }
+  return failures.length ? 1 : 0;
+};
+
+const feedbackCommand: Command = ctx => {
+  if (ctx.args[0] === 'revert') {
+    const reverted = ctx.processor.revertFeedback(requireArg(ctx.args, 1, 'feedback id'), ctx.actor);
+    print(ctx, reverted, () => [
+      `${reverted.invoiceId} feedback ${reverted.feedbackId} reverted: ${reverted.restoredMemories.length} restored, ${reverted.deletedMemories.length} deleted${reverted.reopenedSessionId ? ', invoice takes feedback again' : ''}`,
+      ...reverted.restoredMemories.map(m => `  restored ${m}`), ...reverted.deletedMemories.map(m => `  deleted ${m}`),
+    ]);
+    return 0;
+  }
+  //each submission learns on its own: a bad one is reported and the rest still go through
+  const results: ({ invoiceId: string; action: string } & LearningResult)[] = [];
+  let failed = 0;
+  for (const file of readJsonInputs(requireArg(ctx.args, 0, 'feedback file'))) {
+    for (const item of file.items) {
+      let invoiceId: string | undefined;
+      try {
+        const parsed = toFeedback(item), feedback = { ...parsed, reviewer: parsed.reviewer ?? ctx.actor };
+        invoiceId = feedback.invoiceId;
+        results.push({ invoiceId, action: feedback.action, ...ctx.processor.learnFromFeedback(feedback) });
+      } catch (err) {
+        failed++;
+        reportError(err, ctx.json, ctx.io, { file: file.path, ...(invoiceId && { invoiceId }) });
+      }
+    }
+  }
+  print(ctx, results, () => results.flatMap(r => [
+    `${r.invoiceId} ${r.action}: +${r.createdMemories.length} ~${r.updatedMemories.length} -${r.deactivatedMemories.length} (feedback ${r.feedbackId})`,
+    ...[...r.createdMemories, ...r.updatedMemories, ...r.deactivatedMemories].map(m => `  ${m}`),
+    ...r.reviewed.map(v => `  ${v.accepted ? 'accepted' : 'rejected'} ${v.target} ${v.id}: ${v.reinforced.length} reinforced, ${v.penalized.length} penalized`),
+  ]));
+  return failed ? 1 : 0;
+};
+
+const describeMemory = (m: StoredMemory): string =>
+  `${m.type.padEnd(10)}  ${m.id}  ${labelMemory(m)}${'confidence' in m ? `  conf=${m.confidence.toFixed(2)}` : ''}  ${m.isActive ? 'active' : 'inactive'}`;
+
+const MEMORY_TYPES: readonly string[] = ['vendor', 'correction', 'line_item', 'expectation', 'resolution'];
+
+const toInt = (v: string | undefined, name: string): number | undefined => {
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`--${name} must be a non-negative integer`);
+  return n;
+};
+
+const memoriesCommand: Command = ctx => {
+  const sub = ctx.args[0], o = ctx.options;
+  switch (sub) {
+    case 'list': {
+      if (o.type !== undefined && !MEMORY_TYPES.includes(o.type)) throw new UsageError(`--type must be one of ${MEMORY_TYPES.join(', ')}`);
+      const limit = toInt(o.limit, 'limit'), offset = toInt(o.offset, 'offset');
+      const page = ctx.admin.listMemories({
+        ...(o.type !== undefined && { type: o.type as MemoryType }), ...(o.vendor !== undefined && { vendorId: o.vendor }),
+        ...(o.field !== undefined && { fieldName: o.field }), ...(o.search !== undefined && { search: o.search }),
+        ...(!o.all && { isActive: true }), ...(limit !== undefined && { limit }), ...(offset !== undefined && { offset }),
+      });
+      print(ctx, page, () => page.items.length
+        ? [...page.items.map(describeMemory), `${page.offset + 1}-${page.offset + page.items.length} of ${page.total}`]
+        : ['No memories found']);
+      return 0;
+    }
+    case 'lineage': {
+      const lineage = ctx.admin.getLineage(requireArg(ctx.args, 1, 'memory id'));
+      const confidence = (e: MemoryEvent) => e.newConfidence === undefined ? ''
+        : ` ${e.oldConfidence === undefined ? '' : `${e.oldConfidence.toFixed(2)} -> `}${e.newConfidence.toFixed(2)}`;
+      print(ctx, lineage, () => [
+        lineage.memory ? describeMemory(lineage.memory) : `${lineage.memoryId} (no longer stored)`,
+        ...lineage.events.map(e => `  ${e.timestamp.toISOString()} ${e.kind}${confidence(e)}${e.invoiceId ? ` [${e.invoiceId}]` : ''}${e.reviewer ? ` by ${e.reviewer}` : ''}: ${e.details}`),
+        `  applied to ${lineage.applications.length} field(s)`,
+        ...lineage.applications.map(a => `    ${a.timestamp} ${a.invoiceId} ${a.fieldName}: ${JSON.stringify(a.before)} -> ${JSON.stringify(a.after)}`),
+      ]);
+      return 0;
+    }
+    case 'show': {
+      const memory = ctx.admin.getMemory(requireArg(ctx.args, 1, 'memory id'));
+      print(ctx, memory, () => [describeMemory(memory), memory.type === 'resolution'
+        ? `  created ${memory.createdAt.toISOString()}, last used ${memory.lastUsedAt.toISOString()}`
+        : `  created ${memory.createdAt.toISOString()}, last used ${memory.lastUsedAt.toISOString()}, applied ${memory.applicationCount}x, ${memory.consecutiveRejections} consecutive rejection(s)`]);
+      return 0;
+    }
+    case 'deactivate':
+    case 'reactivate':
+    case 'delete': {
+      const id = requireArg(ctx.args, 1, 'memory id');
+      const memory = sub === 'delete' ? ctx.admin.deleteMemory(id, ctx.actor) : sub === 'deactivate' ? ctx.admin.deactivateMemory(id, ctx.actor) : ctx.admin.reactivateMemory(id, ctx.actor);
+      print(ctx, memory, () => [`${sub}d: ${describeMemory(memory)}`]);
+      return 0;
+    }
+    case 'merge': {
+      const targetId = requireArg(ctx.args, 1, 'target memory id');
+      requireArg(ctx.args, 2, 'source memory id');
+      const memory = ctx.admin.mergeMemories(targetId, ctx.args.slice(2), ctx.actor);
+      print(ctx, memory, () => [`merged ${ctx.args.length - 2} memory(s) into: ${describeMemory(memory)}`]);
+      return 0;
+    }
+    case 'export': {
+      const bundle = new MemoryBundleService(ctx.repository).exportBundle(o.vendor);
+      const counts = `${bundle.memories.vendor.length} vendor, ${bundle.memories.correction.length} correction, ${bundle.memories.line_item.length} line item, ${bundle.memories.expectation.length} expectation, ${bundle.memories.resolution.length} resolution`;
+      if (!o.out) { ctx.io.out(JSON.stringify(bundle, null, 2)); return 0; }
+      writeFileSync(o.out, JSON.stringify(bundle, null, 2));
+      print(ctx, { file: o.out, checksum: bundle.checksum }, () => [`Exported ${counts} memories to ${o.out}`]);
+      return 0;
+    }
+    case 'import': {
+      const file = requireArg(ctx.args, 1, 'bundle file');
+      if (o.strategy !== undefined && !IMPORT_STRATEGIES.includes(o.strategy as ImportStrategy)) throw new UsageError(`--strategy must be one of ${IMPORT_STRATEGIES.join(', ')}`);
+      const report = new MemoryBundleService(ctx.repository).importBundle(JSON.parse(readFileSync(file, 'utf-8')), {
+        ...(o.strategy !== undefined && { strategy: o.strategy as ImportStrategy }), dryRun: o['dry-run'] ?? false, actor: ctx.actor,
+      });
+      print(ctx, report, () => [
+        `${report.dryRun ? 'Dry run' : 'Imported'} (${report.strategy}): ${report.created} create, ${report.overwritten} overwrite, ${report.skipped} skip`,
+        ...report.changes.map(c => `  ${c.action.padEnd(9)} ${c.type.padEnd(10)} ${c.id}  ${c.memory}${c.reason ? `  (${c.reason})` : ''}`),
+      ]);
+      return 0;
+    }
+    default:
+      throw new UsageError(sub ? `Unknown memories subcommand "${sub}"` : 'Missing memories subcommand');
+  }
+};
+
+const toDate = (v: string | undefined, name: string): Date | undefined => {
+  if (v === undefined) return undefined;
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) throw new UsageError(`--${name} must be an ISO date`);
+  return d;
+};
+
+const auditCommand: Command = ctx => {
+  if (ctx.args[0] === 'query') {
+    const o = ctx.options, limit = toInt(o.limit, 'limit'), from = toDate(o.from, 'from'), to = toDate(o.to, 'to');
+    if (o.step !== undefined && !(AUDIT_STEPS as readonly string[]).includes(o.step)) throw new UsageError(`--step must be one of ${AUDIT_STEPS.join(', ')}`);
+    const entries = ctx.repository.findAuditEntries({
+      ...(o.memory !== undefined && { memoryId: o.memory }), ...(o.step !== undefined && { step: o.step as AuditStep }),
+      ...(o.vendor !== undefined && { vendorId: new VendorRegistryService(ctx.repository).lookup(o.vendor) }),
+      ...(from && { from }), ...(to && { to }), ...(limit !== undefined && { limit }),
+    });
+    print(ctx, entries, () => entries.length ? entries.map(a => `${a.timestamp}  ${a.invoiceId}  ${a.step.padEnd(8)}  ${a.details}`) : ['No matching audit entries']);
+    return 0;
+  }
+  const invoiceId = requireArg(ctx.args, 0, 'invoice id'), trail = ctx.repository.getAuditTrail(invoiceId);
+  print(ctx, { invoiceId, auditTrail: trail }, () => trail.length ? trail.map(a => `${a.timestamp}  ${a.step.padEnd(8)}  ${a.details}`) : [`No audit entries for ${invoiceId}`]);
+  return 0;
+};
+
+const poCommand: Command = ctx => {
+  if (ctx.args[0] !== 'import') throw new UsageError(`Unknown po subcommand "${ctx.args[0] ?? ''}"`);
+  const orders = toPurchaseOrders(readJsonInputs(requireArg(ctx.args, 1, 'purchase order file')).flatMap(f => f.items));
+  orders.forEach(po => ctx.repository.savePurchaseOrder(po));
+  const total = ctx.repository.findPurchaseOrders().length;
+  print(ctx, { imported: orders.length, total }, () => [`Imported ${orders.length} purchase order(s), ${total} stored`]);
+  return 0;
+};
+
+const POLICY_FLAGS = { 'auto-apply': 'autoApplyThreshold', suggest: 'suggestionThreshold', reinforcement: 'reinforcementFactor', penalty: 'rejectionPenaltyFactor' } as const;
+
+const policyCommand: Command = ctx => {
+  const service = new ConfidencePolicyService(ctx.repository), o = ctx.options;
+  switch (ctx.args[0]) {
+    case 'list': {
+      const policies = service.listPolicies();
+      print(ctx, policies, () => policies.length ? policies.map(p => `${p.id}  ${describeScope(p)}: ${describeOverrides(p.overrides)}`) : ['No confidence policies; CONFIDENCE_CONFIG applies everywhere']);
+      return 0;
+    }
+    case 'set': {
+      const overrides: PolicyOverrides = {};
+      for (const [flag, key] of Object.entries(POLICY_FLAGS)) {
+        const v = o[flag as keyof typeof POLICY_FLAGS];
+        if (v === undefined) continue;
+        if (v !== 'inherit' && Number.isNaN(Number(v))) throw new UsageError(`--${flag} must be a number or "inherit"`);
+        overrides[key] = v === 'inherit' ? null : Number(v);
+      }
+      if (!Object.keys(overrides).length) throw new UsageError(`policy set needs at least one of ${Object.keys(POLICY_FLAGS).map(f => `--${f}`).join(', ')}`);
+      const policy = service.setPolicy({ ...(o.vendor !== undefined && { vendorId: o.vendor }), ...(o.field !== undefined && { fieldName: o.field }) }, overrides, ctx.actor);
+      print(ctx, policy, () => [`${policy.id}  ${describeScope(policy)}: ${describeOverrides(policy.overrides)}`]);
+      return 0;
+    }
+    case 'remove': {
+      const policy = service.removePolicy(requireArg(ctx.args, 1, 'policy id'), ctx.actor);
+      print(ctx, policy, () => [`removed ${policy.id}  ${describeScope(policy)}`]);
+      return 0;
+    }
+    default:
+      throw new UsageError(ctx.args[0] ? `Unknown policy subcommand "${ctx.args[0]}"` : 'Missing policy subcommand');
+  }
+};
+
+const describeVendor = (v: Vendor) => `${v.id}  ${v.name}  aliases: ${v.aliases.join(', ') || '-'}${v.identifiers.length ? `  ${v.identifiers.map(i => `${i.kind} ${i.value}`).join(', ')}` : ''}`;
+
+const vendorsCommand: Command = ctx => {
+  const service = new VendorRegistryService(ctx.repository);
+  switch (ctx.args[0]) {
+    case 'list': {
+      const vendors = service.listVendors();
+      print(ctx, vendors, () => vendors.length ? vendors.map(describeVendor) : ['No vendors']);
+      return 0;
+    }
+    case 'show': {
+      const vendor = service.getVendor(requireArg(ctx.args, 1, 'vendor id'));
+      print(ctx, vendor, () => [describeVendor(vendor)]);
+      return 0;
+    }
+    case 'alias': {
+      const vendor = service.addAlias(requireArg(ctx.args, 1, 'vendor id'), requireArg(ctx.args, 2, 'alias'), ctx.actor);
+      print(ctx, vendor, () => [describeVendor(vendor)]);
+      return 0;
+    }
+    case 'merge': {
+      const report = service.mergeVendors(requireArg(ctx.args, 1, 'target vendor id'), requireArg(ctx.args, 2, 'source vendor id'), ctx.actor);
+      print(ctx, report, () => [
+        `merged into ${describeVendor(report.vendor)}`,
+        `${report.movedMemories} memories moved, ${report.mergedMemories} merged, ${report.movedPolicies} policies moved`,
+      ]);
+      return 0;
+    }
+    default:
+      throw new UsageError(ctx.args[0] ? `Unknown vendors subcommand "${ctx.args[0]}"` : 'Missing vendors subcommand');
+  }
+};
+
+//opening the database already migrated it, so this shows what was applied and when
+const schemaCommand: Command = ctx => {
+  const applied = getAppliedMigrations(ctx.db), version = applied[applied.length - 1]?.version ?? 0;
+  print(ctx, { version, latest: LATEST_SCHEMA_VERSION, applied }, () => [
+    `Schema version ${version} (this build supports ${LATEST_SCHEMA_VERSION})`,
+    ...applied.map(m => `  ${String(m.version).padStart(3)}  ${m.appliedAt}  ${m.description}`),
+  ]);
+  return 0;
+};
+
+const COMMANDS: Record<string, Command> = {
+  process: processCommand, feedback: feedbackCommand, memories: memoriesCommand, audit: auditCommand, po: poCommand, policy: policyCommand, vendors: vendorsCommand, schema: schemaCommand,
+};
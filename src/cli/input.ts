@@ -0,0 +1,73 @@
+//file input for the CLI: reads invoices, feedback and purchase orders from JSON files
+//accepts both the API models and the extraction/review export formats used in test/fixtures
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import type { Invoice, HumanFeedback, PurchaseOrder } from '../models/index.js';
+import { parseInvoice, parseFeedback, parsePurchaseOrders } from '../api/validation.js';
+
+//one JSON document (a single item or an array of them)
+export interface InputFile {
+  path: string;
+  items: unknown[];
+}
+
+//a single file, or every .json file in a directory (sorted by name)
+export function readJsonInputs(path: string): InputFile[] {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter(f => f.endsWith('.json')).sort().map(f => join(path, f))
+    : [path];
+  return files.map(file => {
+    const data: unknown = JSON.parse(readFileSync(file, 'utf-8'));
+    return { path: file, items: Array.isArray(data) ? data : [data] };
+  });
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+//extraction output: { invoiceId, vendor, fields: { invoiceNumber, ... }, confidence, rawText, labels? }
+//labels: the label each field was printed under, e.g. { "serviceDate": "Leistungsdatum" }
+const isExtraction = (v: unknown): v is Json => isObject(v) && 'invoiceId' in v && 'vendor' in v && 'confidence' in v;
+
+//review export: { invoiceId, corrections: [{ field, from, to }], finalDecision }
+const isReviewExport = (v: unknown): v is Json => isObject(v) && 'finalDecision' in v;
+
+//"12.01.2024" / "05-02-2024" / ISO
+function parseExtractedDate(s: string): string {
+  const m = s.match(/^(\d{2})[.-](\d{2})[.-](\d{4})$/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : s;
+}
+
+//anything malformed is passed through as is, so parseInvoice reports it
+export function toInvoice(item: unknown): Invoice {
+  if (!isExtraction(item)) return parseInvoice(item);
+  const f = isObject(item['fields']) ? item['fields'] : {}, conf = item['confidence'], labels = isObject(item['labels']) ? item['labels'] : {};
+  const fields: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(f)) {
+    const label = labels[name];
+    fields[name] = {
+      name, value, extractionConfidence: value == null && typeof conf === 'number' ? conf * 0.5 : conf,
+      ...(label !== undefined && { originalLabel: label }),
+    };
+  }
+  return parseInvoice({
+    id: item['invoiceId'], vendorId: item['vendor'], vendorName: item['vendor'], invoiceNumber: f['invoiceNumber'],
+    invoiceDate: typeof f['invoiceDate'] === 'string' ? parseExtractedDate(f['invoiceDate']) : f['invoiceDate'],
+    fields, ...(item['rawText'] !== undefined && { rawText: item['rawText'] }),
+  });
+}
+
+export function toFeedback(item: unknown): HumanFeedback {
+  if (!isReviewExport(item)) return parseFeedback(item);
+  const corrections = Array.isArray(item['corrections']) ? item['corrections'] : [];
+  return parseFeedback({
+    invoiceId: item['invoiceId'],
+    action: corrections.length ? 'correct' : item['finalDecision'] === 'approved' ? 'approve' : 'reject',
+    ...(corrections.length && { corrections: corrections.map(c => isObject(c) ? { fieldName: c['field'], originalValue: c['from'], correctedValue: c['to'] } : c) }),
+  });
+}
+
+export function toPurchaseOrders(items: unknown[]): PurchaseOrder[] {
+  return parsePurchaseOrders(items);
+}
@@ -5,7 +5,7 @@ import { fileURLToPath } from 'url';
 import { initializeDatabase, closeDatabase } from './repository/database.js';
 import { MemoryRepository } from './repository/memory-repository.js';
 import { InvoiceProcessor } from './services/processor.js';
-import type { Invoice, InvoiceField, ProcessingResult, HumanFeedback } from './models/index.js';
+import type { Invoice, InvoiceField, ProcessingResult, HumanFeedback, DeliveryNote } from './models/index.js';
 import type { PurchaseOrder } from './services/apply.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -43,6 +43,7 @@ const toInvoice = (r: any): Invoice => {
 //fixture loaders
 const loadInvoices = () => loadJson<any[]>('invoices_extracted.json').map(toInvoice);
 const loadPOs = (): PurchaseOrder[] => loadJson<any[]>('purchase_orders.json').map(p => ({ ...p, date: new Date(p.date) }));
+const loadDNs = (): DeliveryNote[] => loadJson<any[]>('delivery_notes.json').map(d => ({ ...d, date: new Date(d.date) }));
 
 //load human feedback
 const loadFeedback = (id: string): HumanFeedback | undefined => {
@@ -100,6 +101,7 @@ async function main() {
   if (useFresh && !useMemory && existsSync(dbPath)) { unlinkSync(dbPath); log(`${c.yellow}Cleared database${c.reset}`); }
   const db = initializeDatabase(dbPath), repo = new MemoryRepository(db), proc = new InvoiceProcessor(repo);
   proc.setPurchaseOrders(loadPOs());
+  proc.setDeliveryNotes(loadDNs());
   log(`${c.dim}Usage: npm run demo [--fresh|-f] [--memory|-m]${c.reset}\n`);
   try {
     await demoLearning(proc, repo);
@@ -109,7 +111,8 @@ async function main() {
     await demoSimple(proc, 'Demo 5: Skonto Detection', 'INV-C-001', r => r.proposedCorrections.some(x => x.includes('skonto')), 'Skonto detected!');
     await demoSimple(proc, 'Demo 6: SKU Mapping', 'INV-C-002', r => r.proposedCorrections.some(x => /freight|sku/i.test(x)), 'SKU mapped!');
     await demoDuplicates(proc);
-    header('Demo Complete'); log(`${c.green}All 7 scenarios demonstrated successfully.${c.reset}`);
+    await demoSimple(proc, 'Demo 8: Three-Way Matching', 'INV-A-001', r => r.proposedCorrections.some(x => x.startsWith('[quantity_mismatch]')), 'Billed vs delivered mismatch detected!');
+    header('Demo Complete'); log(`${c.green}All 8 scenarios demonstrated successfully.${c.reset}`);
   } finally { closeDatabase(db); }
 }
 main().catch(console.error);
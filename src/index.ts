@@ -8,3 +8,4 @@
 export * from './models/index.js';
 export * from './services/index.js';
 export * from './repository/index.js';
+export * from './api/index.js';
@@ -14,7 +14,21 @@ export interface VendorMemory {
   consecutiveRejections: number;
   createdAt: Date;
   lastUsedAt: Date;
+  decayedAt?: Date;
   isActive: boolean;
+  template?: ExtractionTemplate;
+}
+
+//how a vendor's value is laid out in rawText, learned from a human correction
+export type ValueFormat = 'date_dmy' | 'date_iso' | 'amount' | 'code' | 'text';
+
+export interface ExtractionTemplate {
+  label: string;
+  valueFormat: ValueFormat;
+  //regex source for the value itself, e.g. the shape of the vendor's PO codes
+  valuePattern: string;
+  //the line it was found on, value replaced by {value}
+  lineContext: string;
 }
 
 //Learned value-level corrections, not field mappings.
@@ -29,6 +43,94 @@ export interface CorrectionMemory {
   consecutiveRejections: number;
   createdAt: Date;
   lastUsedAt: Date;
+  decayedAt?: Date;
+  isActive: boolean;
+}
+
+//how a vendor's line quantities convert to the unit ordered: qty × factor, unit price ÷ factor
+export interface QuantityConversion {
+  //the unit the invoice line was in; unset when the line had none
+  fromUnit?: string;
+  factor: number;
+}
+
+//what a vendor's line item description stands for, learned from human corrections to that line
+export interface LineItemMemory {
+  id: string;
+  vendorId: string;
+  //description with case and punctuation dropped: "Seefracht / Shipping" → "seefracht shipping"
+  descriptionKey: string;
+  //as first seen
+  description: string;
+  sku?: string;
+  unit?: string;
+  qtyConversion?: QuantityConversion;
+  confidence: number;
+  applicationCount: number;
+  consecutiveRejections: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  decayedAt?: Date;
+  isActive: boolean;
+}
+
+//a line of the lineItems field as extractors deliver it
+export interface InvoiceLineItem {
+  sku: string | null;
+  description?: string;
+  qty: number;
+  unitPrice?: number;
+  unit?: string;
+  //decimal like taxRate; lines without one are taxed at the invoice's taxRate
+  taxRate?: number;
+}
+
+//one VAT rate's share of the invoice, e.g. { rate: 0.07, net: 200, tax: 14 }
+export interface TaxBreakdownEntry {
+  rate: number;
+  net: number;
+  tax: number;
+}
+
+//domestic invoices charge VAT; under reverse charge (§13b UStG) and intra-community supply the recipient accounts for it
+export type TaxTreatment = 'domestic' | 'reverse_charge' | 'intra_community_supply';
+
+//how a vendor taxes its invoices: the treatment and, for domestic invoices, the rates it charges
+export interface TaxProfile {
+  treatment: TaxTreatment;
+  rates: number[];
+}
+
+//one Skonto tier: percentage off the gross total when paid within days of the invoice date
+export interface DiscountTier {
+  percentage: number;
+  days: number;
+}
+
+//payment terms as printed, e.g. "3% 7 Tage, 2% 14 Tage, netto 30"; tiers shortest period first
+export interface PaymentTerms {
+  discounts: DiscountTier[];
+  netDays?: number;
+}
+
+//the aspects of a vendor's invoices that expectation memories learn
+export type ExpectationAspect = 'payment_terms' | 'tax_treatment';
+
+//what a vendor's invoices normally say about one aspect, learned from invoices humans approved or corrected
+//a vendor may have several; the most confident is its usual one
+export interface ExpectationMemory {
+  id: string;
+  vendorId: string;
+  aspect: ExpectationAspect;
+  //canonical text of the expected value, e.g. "2% 10 days, net 30" or "domestic 7% + 19%"; unique per vendor and aspect
+  valueKey: string;
+  expected: PaymentTerms | TaxProfile;
+  confidence: number;
+  applicationCount: number;
+  consecutiveRejections: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  decayedAt?: Date;
   isActive: boolean;
 }
 
@@ -44,6 +146,11 @@ export interface ResolutionMemory {
   isActive: boolean;
 }
 
+//any stored memory tagged with its kind, for admin listings
+export type MemoryType = 'vendor' | 'correction' | 'line_item' | 'expectation' | 'resolution';
+export type StoredMemory = (VendorMemory & { type: 'vendor' }) | (CorrectionMemory & { type: 'correction' }) | (LineItemMemory & { type: 'line_item' })
+  | (ExpectationMemory & { type: 'expectation' }) | (ResolutionMemory & { type: 'resolution' });
+
 //Invoice Model and related types
 export interface InvoiceField {
   name: string;
@@ -63,16 +170,187 @@ export interface Invoice {
   rawText?: string;
 }
 
+//Purchase Order Model, used for PO matching
+export interface PurchaseOrder {
+  poNumber: string;
+  vendor: string;
+  date: Date;
+  lineItems: { sku: string; qty: number; unitPrice: number }[];
+}
+
+//canonical vendor: every spelling of a vendor's name resolves to one id
+export type VendorIdentifierKind = 'vat_id' | 'iban';
+
+export interface VendorIdentifier {
+  kind: VendorIdentifierKind;
+  value: string;
+}
+
+export interface Vendor {
+  id: string;
+  name: string;
+  aliases: string[];
+  identifiers: VendorIdentifier[];
+  createdAt: Date;
+}
+
+//an invoice already seen, with the signals duplicate scoring compares
+export interface ProcessedInvoice {
+  id: string;
+  vendorId: string;
+  invoiceNumber: string;
+  //uppercase, separators dropped: INV-2024-001 and inv 2024/001 are the same number
+  normalizedNumber: string;
+  invoiceDate: Date;
+  grossTotal: number | null;
+  currency: string | null;
+  lineItemFingerprint: string | null;
+  processedAt: Date;
+}
+
+//Delivery Note Model, goods receipt used for three-way matching
+export interface DeliveryNote {
+  dnNumber: string;
+  vendor: string;
+  poNumber: string;
+  date: Date;
+  lineItems: { sku: string; qtyDelivered: number }[];
+}
+
 //Processing Result Models
+//one step in a memory's life, kept after the memory itself is deleted
+export type MemoryEventKind = 'created' | 'reinforced' | 'penalized' | 'contradicted' | 'decayed' | 'deactivated' | 'reactivated' | 'edited' | 'merged' | 'deleted' | 'reverted';
+
+export interface MemoryEvent {
+  id: string;
+  memoryId: string;
+  memoryType: MemoryType;
+  kind: MemoryEventKind;
+  //the feedback behind a learning event
+  invoiceId?: string;
+  sessionId?: string;
+  feedbackAction?: HumanFeedback['action'];
+  //the person: reviewer for feedback, actor for admin changes
+  reviewer?: string;
+  oldConfidence?: number;
+  newConfidence?: number;
+  details: string;
+  timestamp: Date;
+}
+
+export const AUDIT_STEPS = ['recall', 'apply', 'validate', 'decide', 'learn', 'maintenance', 'admin'] as const;
+export type AuditStep = typeof AUDIT_STEPS[number];
+
+//details is the human-readable summary; payload is what queries run on
 export interface AuditEntry {
-  step: 'recall' | 'apply' | 'decide' | 'learn';
+  step: AuditStep;
   timestamp: string;
   details: string;
+  payload?: AuditPayload;
+}
+
+//a field value a step wrote (applied) or only proposed
+export interface AuditFieldChange {
+  fieldName: string;
+  before: unknown;
+  after: unknown;
+  memoryId?: string;
+  //the value pattern of the correction memory that matched
+  pattern?: string;
+  applied: boolean;
+}
+
+export interface AuditPayload {
+  vendorId?: string;
+  //the feedback submission a learn entry recorded or reverted
+  feedbackId?: string;
+  memoryIds?: string[];
+  fields?: string[];
+  changes?: AuditFieldChange[];
+  //thresholds in force per field
+  thresholds?: Record<string, Partial<PolicySettings>>;
+  //decision and feedback outcomes: requiresHumanReview, duplicate, escalated, ...
+  flags?: Record<string, boolean>;
+  //granular feedback verdicts as "<target>:<id>"
+  accepted?: string[];
+  rejected?: string[];
+  confidence?: number;
+  patterns?: string[];
+}
+
+//tracks which memories influenced a decision
+export interface ContributingMemory {
+  memoryId: string;
+  memoryType: 'vendor' | 'correction' | 'line_item';
+  //lineItems[i] for line item memories
+  fieldName: string;
+  extractedValue?: unknown; // The value this memory suggested
+}
+
+//a discrepancy a human had to look at (pattern type or 'duplicate')
+export interface Discrepancy {
+  type: string;
+  fieldName?: string;
+}
+
+//a correction proposed to the reviewer, as stored with the session
+export interface SessionCorrection {
+  //absent in sessions saved before suggestions had ids
+  id?: string;
+  source?: CorrectionSource;
+  fieldName: string;
+  currentValue: unknown;
+  suggestedValue: unknown;
+  memoryId: string;
+  confidence: number;
+}
+
+//the decision a reviewer is giving feedback on
+export interface SessionDecision {
+  requiresHumanReview: boolean;
+  confidenceScore: number;
+  reasoning: string;
+  flaggedFields: string[];
+  escalatedDiscrepancies: string[];
+}
+
+//Processing Session Model, what processInvoice did, kept until the human's feedback arrives
+export interface ProcessingSession {
+  id: string;
+  invoiceId: string;
+  vendorId: string;
+  invoice: Invoice;
+  contributingMemories: ContributingMemory[];
+  proposedCorrections: SessionCorrection[];
+  discrepancies: Discrepancy[];
+  decision: SessionDecision;
+  status: 'open' | 'superseded' | 'learned';
+  processedAt: Date;
+  learnedAt?: Date;
+}
+
+//where a suggested field change comes from
+export type CorrectionSource = 'memory' | 'po_matching' | 'detector' | 'validation';
+
+//one suggested field change; the id is derived from invoice, field, source and value, so it is the same on every run
+export interface SuggestedCorrection {
+  id: string;
+  fieldName: string;
+  currentValue: unknown;
+  suggestedValue: unknown;
+  source: CorrectionSource;
+  //the memory id, detector or service behind the suggestion
+  sourceId: string;
+  confidence: number;
+  reasoning: string;
 }
 
 //This is the final output for every invoice.
 export interface ProcessingResult {
+  sessionId: string;
   normalizedInvoice: Record<string, unknown>;
+  suggestions: SuggestedCorrection[];
+  //display view: one line per suggestion, then pattern notices
   proposedCorrections: string[];
   requiresHumanReview: boolean;
   reasoning: string;
@@ -91,9 +369,44 @@ export interface FieldCorrection {
 //Human Feedback Modeel
 export interface HumanFeedback {
   invoiceId: string;
+  sessionId?: string; // defaults to the invoice's latest open session
   action: 'approve' | 'reject' | 'correct';
   corrections?: FieldCorrection[];
   timestamp: Date;
+  //who reviewed the invoice; recorded in memory lineage
+  reviewer?: string;
+  //granular review; when given, approve/reject no longer touches every contributing memory, only the ones named here
+  verdicts?: FeedbackVerdict[];
+}
+
+//accept or reject one suggestion (by id) or applied memory, or confirm (accepted) or dispute one field's value
+export interface FeedbackVerdict {
+  target: 'suggestion' | 'memory' | 'field';
+  //suggestion id, memory id or field name
+  id: string;
+  accepted: boolean;
+}
+
+//one memory a feedback submission created or changed; before holds its learned state for a revert
+export interface FeedbackMutation {
+  memoryId: string;
+  memoryType: MemoryType;
+  kind: 'created' | 'updated';
+  before?: Record<string, unknown>;
+}
+
+//a stored feedback submission and exactly what it did to memory
+export interface FeedbackSubmission {
+  id: string;
+  invoiceId: string;
+  sessionId: string;
+  vendorId: string;
+  action: HumanFeedback['action'];
+  reviewer?: string;
+  mutations: FeedbackMutation[];
+  submittedAt: Date;
+  revertedAt?: Date;
+  revertedBy?: string;
 }
 
 //Learning Result Model
@@ -107,6 +420,22 @@ export interface ConfidenceConfig {
   rejectionPenaltyFactor: number;
   decayHalfLifeDays: number;
   maxConsecutiveRejectionsBeforeDeactivation: number;
+  minResolutionSamples: number;
+  resolutionAutoApproveRate: number;
+  resolutionEscalateRate: number;
+}
+
+//settings a confidence policy can override per vendor, per field or per vendor+field
+export type PolicySettings = Pick<ConfidenceConfig, 'autoApplyThreshold' | 'suggestionThreshold' | 'reinforcementFactor' | 'rejectionPenaltyFactor'>;
+
+//null vendorId / fieldName means any vendor / any field
+export interface ConfidencePolicy {
+  id: string;
+  vendorId: string | null;
+  fieldName: string | null;
+  overrides: Partial<PolicySettings>;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 //11. Confidence Configuration
@@ -120,5 +449,8 @@ export const CONFIDENCE_CONFIG: ConfidenceConfig = {
   rejectionPenaltyFactor: 0.7,
   decayHalfLifeDays: 30,
   maxConsecutiveRejectionsBeforeDeactivation: 3,
+  minResolutionSamples: 3,
+  resolutionAutoApproveRate: 0.95,
+  resolutionEscalateRate: 0.05,
 } as const;
 
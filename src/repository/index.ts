@@ -1,2 +1,3 @@
 export { initializeDatabase, closeDatabase } from './database.js';
-export { MemoryRepository, type IMemoryRepository, type StoredAuditEntry } from './memory-repository.js';
+export { migrate, getSchemaVersion, getAppliedMigrations, MIGRATIONS, LATEST_SCHEMA_VERSION, SchemaVersionError, type Migration, type AppliedMigration } from './migrations.js';
+export { MemoryRepository, type IMemoryRepository, type StoredAuditEntry, type AuditQuery, type MemoryFilter, type MemoryPage } from './memory-repository.js';
@@ -3,52 +3,134 @@
 //it answers this ques: How does learned knowledge survive process restarts and remain auditable?
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
-import type { VendorMemory, CorrectionMemory, ResolutionMemory, AuditEntry } from '../models/index.js';
+import type { VendorMemory, CorrectionMemory, LineItemMemory, QuantityConversion, ExpectationMemory, ExpectationAspect, PaymentTerms, TaxProfile, ResolutionMemory, AuditEntry, AuditStep, AuditPayload, MemoryEvent, MemoryEventKind, HumanFeedback, FeedbackSubmission, FeedbackMutation, ProcessingSession, Invoice, PurchaseOrder, MemoryType, StoredMemory, ConfidencePolicy, ExtractionTemplate, ProcessedInvoice, Vendor, VendorIdentifier } from '../models/index.js';
 
 //it keeps the audit entreis linked to invoices
 export interface StoredAuditEntry extends AuditEntry { invoiceId: string; }
 
+//admin listing filter across all memory kinds; isActive undefined lists active and inactive, no limit lists everything
+export interface MemoryFilter {
+  type?: MemoryType;
+  vendorId?: string;
+  fieldName?: string;
+  search?: string;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MemoryPage { items: StoredMemory[]; total: number; }
+
+//audit query; every filter is optional and they combine, oldest entry first
+export interface AuditQuery {
+  invoiceId?: string;
+  memoryId?: string;
+  step?: AuditStep;
+  vendorId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
 export interface IMemoryRepository {
   findVendorMemories(vendorId: string): VendorMemory[];
+  findActiveVendorMemories(): VendorMemory[];
   findVendorMemoryById(id: string): VendorMemory | undefined;
   saveVendorMemory(memory: VendorMemory): void;
   updateVendorMemory(id: string, updates: Partial<VendorMemory>): void;
   findCorrectionMemories(vendorId: string | null, fieldName: string): CorrectionMemory[];
   findCorrectionMemoryById(id: string): CorrectionMemory | undefined;
+  findActiveCorrectionMemories(): CorrectionMemory[];
   saveCorrectionMemory(memory: CorrectionMemory): void;
   updateCorrectionMemory(id: string, updates: Partial<CorrectionMemory>): void;
+  findLineItemMemories(vendorId: string): LineItemMemory[];
+  findLineItemMemory(vendorId: string, descriptionKey: string): LineItemMemory | undefined;
+  findLineItemMemoryById(id: string): LineItemMemory | undefined;
+  findActiveLineItemMemories(): LineItemMemory[];
+  saveLineItemMemory(memory: LineItemMemory): void;
+  updateLineItemMemory(id: string, updates: Partial<LineItemMemory>): void;
+  findExpectationMemories(vendorId: string): ExpectationMemory[];
+  findExpectationMemory(vendorId: string, aspect: ExpectationAspect, valueKey: string): ExpectationMemory | undefined;
+  findExpectationMemoryById(id: string): ExpectationMemory | undefined;
+  findActiveExpectationMemories(): ExpectationMemory[];
+  saveExpectationMemory(memory: ExpectationMemory): void;
+  updateExpectationMemory(id: string, updates: Partial<ExpectationMemory>): void;
   findResolutionMemories(discrepancyType: string): ResolutionMemory[];
   saveResolutionMemory(memory: ResolutionMemory): void;
   updateResolutionMemory(id: string, updates: Partial<ResolutionMemory>): void;
+  findResolutionMemoryById(id: string): ResolutionMemory | undefined;
+  findMemories(filter: MemoryFilter): MemoryPage;
+  findMemoryById(id: string, type?: MemoryType): StoredMemory | undefined;
+  saveMemory(memory: StoredMemory): void;
+  updateMemory(type: MemoryType, id: string, updates: Record<string, unknown>): void;
+  deleteMemory(type: MemoryType, id: string): void;
+  transaction<T>(fn: () => T): T;
   saveAuditEntry(entry: StoredAuditEntry): void;
   getAuditTrail(invoiceId: string): AuditEntry[];
-  findPotentialDuplicates(vendorId: string, invoiceNumber: string, date: Date): string[];
-  saveProcessedInvoice(id: string, vendorId: string, invoiceNumber: string, invoiceDate: Date): void;
+  findAuditEntries(query: AuditQuery): StoredAuditEntry[];
+  saveMemoryEvent(event: Omit<MemoryEvent, 'id' | 'timestamp'> & { timestamp?: Date }): void;
+  findMemoryEvents(memoryId: string): MemoryEvent[];
+  saveFeedbackSubmission(submission: FeedbackSubmission): void;
+  findFeedbackSubmission(id: string): FeedbackSubmission | undefined;
+  findFeedbackSubmissionsTouching(memoryIds: string[]): FeedbackSubmission[];
+  updateFeedbackSubmission(id: string, updates: Pick<FeedbackSubmission, 'revertedAt' | 'revertedBy'>): void;
+  findProcessedInvoices(from: Date, to: Date): ProcessedInvoice[];
+  saveProcessedInvoice(invoice: ProcessedInvoice): void;
+  saveProcessingSession(session: ProcessingSession): void;
+  findProcessingSessionById(id: string): ProcessingSession | undefined;
+  findLatestProcessingSession(invoiceId: string): ProcessingSession | undefined;
+  updateProcessingSession(id: string, updates: Partial<ProcessingSession>): void;
+  savePurchaseOrder(order: PurchaseOrder): void;
+  findPurchaseOrders(): PurchaseOrder[];
+  findConfidencePolicies(): ConfidencePolicy[];
+  saveConfidencePolicy(policy: ConfidencePolicy): void;
+  deleteConfidencePolicy(id: string): void;
+  findVendor(id: string): Vendor | undefined;
+  findVendors(): Vendor[];
+  findVendorIdByAlias(aliasKey: string): string | undefined;
+  findVendorIdByIdentifier(identifier: VendorIdentifier): string | undefined;
+  saveVendor(vendor: Pick<Vendor, 'id' | 'name' | 'createdAt'>): void;
+  saveVendorAlias(vendorId: string, alias: string, aliasKey: string): void;
+  saveVendorIdentifier(vendorId: string, identifier: VendorIdentifier): void;
+  moveVendorRecords(fromId: string, toId: string): void;
 }
 
 //field mappings: camelCase -> snake_case
 //it prevents: repetitive code when building update queries
-const VENDOR_FIELDS: Record<string, string> = {
+const LEARNED_FIELDS: Record<string, string> = {
   confidence: 'confidence', applicationCount: 'application_count', consecutiveRejections: 'consecutive_rejections',
-  lastUsedAt: 'last_used_at', isActive: 'is_active',
+  lastUsedAt: 'last_used_at', decayedAt: 'decayed_at', isActive: 'is_active',
 };
-const CORRECTION_FIELDS: Record<string, string> = { ...VENDOR_FIELDS, correctedValue: 'corrected_value' };
+const VENDOR_FIELDS: Record<string, string> = { ...LEARNED_FIELDS, normalizedFieldName: 'normalized_field_name', template: 'template' };
+const CORRECTION_FIELDS: Record<string, string> = { ...LEARNED_FIELDS, originalValuePattern: 'original_value_pattern', correctedValue: 'corrected_value' };
+const LINE_ITEM_FIELDS: Record<string, string> = { ...LEARNED_FIELDS, description: 'description', sku: 'sku', unit: 'unit', qtyConversion: 'qty_conversion' };
+const EXPECTATION_FIELDS: Record<string, string> = { ...LEARNED_FIELDS };
 const RESOLUTION_FIELDS: Record<string, string> = {
   approvalCount: 'approval_count', rejectionCount: 'rejection_count', lastUsedAt: 'last_used_at',
   isActive: 'is_active', context: 'context',
 };
+//per memory kind: table and the columns admin filters match against
+const MEMORY_TABLES: Record<MemoryType, { table: string; vendor: string; field: string[]; search: string[] }> = {
+  vendor: { table: 'vendor_memories', vendor: 'vendor_id', field: ['normalized_field_name', 'original_field_name'], search: ['vendor_name', 'original_field_name', 'normalized_field_name'] },
+  correction: { table: 'correction_memories', vendor: 'vendor_id', field: ['field_name'], search: ['field_name', 'original_value_pattern', 'corrected_value'] },
+  line_item: { table: 'line_item_memories', vendor: 'vendor_id', field: ['description_key', 'sku'], search: ['description', 'sku', 'unit'] },
+  expectation: { table: 'expectation_memories', vendor: 'vendor_id', field: ['aspect'], search: ['aspect', 'value_key'] },
+  resolution: { table: 'resolution_memories', vendor: `json_extract(context, '$.vendorId')`, field: [`json_extract(context, '$.fieldName')`], search: ['discrepancy_type', `json_extract(context, '$.fingerprint')`] },
+};
+const SESSION_FIELDS: Record<string, string> = { status: 'status', learnedAt: 'learned_at' };
+const FEEDBACK_FIELDS: Record<string, string> = { revertedAt: 'reverted_at', revertedBy: 'reverted_by' };
 
 export class MemoryRepository implements IMemoryRepository {
   constructor(private db: Database.Database) {}
 
-  //generic update builder
+  //generic update builder; null clears a column
   private buildUpdate(table: string, id: string, updates: Record<string, unknown>, fieldMap: Record<string, string>): void {
     const clauses: string[] = [], values: unknown[] = [];
     for (const [key, col] of Object.entries(fieldMap)) {
       if (updates[key] !== undefined) {
         clauses.push(`${col} = ?`);
         const val = updates[key];
-        values.push(val instanceof Date ? val.toISOString() : key === 'isActive' ? (val ? 1 : 0) : key === 'context' ? JSON.stringify(val) : val);
+        values.push(val === null ? null : val instanceof Date ? val.toISOString() : key === 'isActive' ? (val ? 1 : 0) : key === 'context' || key === 'template' || key === 'qtyConversion' ? JSON.stringify(val) : val);
       }
     }
     if (clauses.length === 0) return;
@@ -62,14 +144,18 @@ export class MemoryRepository implements IMemoryRepository {
     return (this.db.prepare(`SELECT * FROM vendor_memories WHERE vendor_id = ? AND is_active = 1 ORDER BY confidence DESC`).all(vendorId) as VendorMemoryRow[]).map(this.toVendorMemory);
   }
 
+  findActiveVendorMemories(): VendorMemory[] {
+    return (this.db.prepare(`SELECT * FROM vendor_memories WHERE is_active = 1`).all() as VendorMemoryRow[]).map(this.toVendorMemory);
+  }
+
   findVendorMemoryById(id: string): VendorMemory | undefined {
     const row = this.db.prepare(`SELECT * FROM vendor_memories WHERE id = ?`).get(id) as VendorMemoryRow | undefined;
     return row ? this.toVendorMemory(row) : undefined;
   }
 
   saveVendorMemory(m: VendorMemory): void {
-    this.db.prepare(`INSERT INTO vendor_memories (id, vendor_id, vendor_name, original_field_name, normalized_field_name, confidence, application_count, consecutive_rejections, created_at, last_used_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
-      .run(m.id, m.vendorId, m.vendorName, m.originalFieldName, m.normalizedFieldName, m.confidence, m.applicationCount, m.consecutiveRejections, m.createdAt.toISOString(), m.lastUsedAt.toISOString(), m.isActive ? 1 : 0);
+    this.db.prepare(`INSERT INTO vendor_memories (id, vendor_id, vendor_name, original_field_name, normalized_field_name, confidence, application_count, consecutive_rejections, created_at, last_used_at, is_active, template) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(m.id, m.vendorId, m.vendorName, m.originalFieldName, m.normalizedFieldName, m.confidence, m.applicationCount, m.consecutiveRejections, m.createdAt.toISOString(), m.lastUsedAt.toISOString(), m.isActive ? 1 : 0, m.template ? JSON.stringify(m.template) : null);
   }
 
   updateVendorMemory(id: string, updates: Partial<VendorMemory>): void {
@@ -77,7 +163,7 @@ export class MemoryRepository implements IMemoryRepository {
   }
 
   private toVendorMemory(r: VendorMemoryRow): VendorMemory {
-    return { id: r.id, vendorId: r.vendor_id, vendorName: r.vendor_name, originalFieldName: r.original_field_name, normalizedFieldName: r.normalized_field_name, confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at), isActive: r.is_active === 1 };
+    return { id: r.id, vendorId: r.vendor_id, vendorName: r.vendor_name, originalFieldName: r.original_field_name, normalizedFieldName: r.normalized_field_name, confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at), ...(r.decayed_at && { decayedAt: new Date(r.decayed_at) }), isActive: r.is_active === 1, ...(r.template && { template: JSON.parse(r.template) as ExtractionTemplate }) };
   }
 
   //correction memory
@@ -94,6 +180,10 @@ export class MemoryRepository implements IMemoryRepository {
     return row ? this.toCorrectionMemory(row) : undefined;
   }
 
+  findActiveCorrectionMemories(): CorrectionMemory[] {
+    return (this.db.prepare(`SELECT * FROM correction_memories WHERE is_active = 1`).all() as CorrectionMemoryRow[]).map(this.toCorrectionMemory);
+  }
+
   saveCorrectionMemory(m: CorrectionMemory): void {
     this.db.prepare(`INSERT INTO correction_memories (id, vendor_id, field_name, original_value_pattern, corrected_value, confidence, application_count, consecutive_rejections, created_at, last_used_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
       .run(m.id, m.vendorId, m.fieldName, m.originalValuePattern, m.correctedValue, m.confidence, m.applicationCount, m.consecutiveRejections, m.createdAt.toISOString(), m.lastUsedAt.toISOString(), m.isActive ? 1 : 0);
@@ -104,7 +194,83 @@ export class MemoryRepository implements IMemoryRepository {
   }
 
   private toCorrectionMemory(r: CorrectionMemoryRow): CorrectionMemory {
-    return { id: r.id, vendorId: r.vendor_id, fieldName: r.field_name, originalValuePattern: r.original_value_pattern, correctedValue: r.corrected_value, confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at), isActive: r.is_active === 1 };
+    return { id: r.id, vendorId: r.vendor_id, fieldName: r.field_name, originalValuePattern: r.original_value_pattern, correctedValue: r.corrected_value, confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at), ...(r.decayed_at && { decayedAt: new Date(r.decayed_at) }), isActive: r.is_active === 1 };
+  }
+
+  //line item memory: one per vendor and description
+  findLineItemMemories(vendorId: string): LineItemMemory[] {
+    return (this.db.prepare(`SELECT * FROM line_item_memories WHERE vendor_id = ? AND is_active = 1 ORDER BY confidence DESC`).all(vendorId) as LineItemMemoryRow[]).map(this.toLineItemMemory);
+  }
+
+  //active or not, since the key is unique
+  findLineItemMemory(vendorId: string, descriptionKey: string): LineItemMemory | undefined {
+    const row = this.db.prepare(`SELECT * FROM line_item_memories WHERE vendor_id = ? AND description_key = ?`).get(vendorId, descriptionKey) as LineItemMemoryRow | undefined;
+    return row ? this.toLineItemMemory(row) : undefined;
+  }
+
+  findLineItemMemoryById(id: string): LineItemMemory | undefined {
+    const row = this.db.prepare(`SELECT * FROM line_item_memories WHERE id = ?`).get(id) as LineItemMemoryRow | undefined;
+    return row ? this.toLineItemMemory(row) : undefined;
+  }
+
+  findActiveLineItemMemories(): LineItemMemory[] {
+    return (this.db.prepare(`SELECT * FROM line_item_memories WHERE is_active = 1`).all() as LineItemMemoryRow[]).map(this.toLineItemMemory);
+  }
+
+  saveLineItemMemory(m: LineItemMemory): void {
+    this.db.prepare(`INSERT INTO line_item_memories (id, vendor_id, description_key, description, sku, unit, qty_conversion, confidence, application_count, consecutive_rejections, created_at, last_used_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(m.id, m.vendorId, m.descriptionKey, m.description, m.sku ?? null, m.unit ?? null, m.qtyConversion ? JSON.stringify(m.qtyConversion) : null, m.confidence, m.applicationCount, m.consecutiveRejections, m.createdAt.toISOString(), m.lastUsedAt.toISOString(), m.isActive ? 1 : 0);
+  }
+
+  updateLineItemMemory(id: string, updates: Partial<LineItemMemory>): void {
+    this.buildUpdate('line_item_memories', id, updates as Record<string, unknown>, LINE_ITEM_FIELDS);
+  }
+
+  private toLineItemMemory(r: LineItemMemoryRow): LineItemMemory {
+    return {
+      id: r.id, vendorId: r.vendor_id, descriptionKey: r.description_key, description: r.description,
+      ...(r.sku && { sku: r.sku }), ...(r.unit && { unit: r.unit }), ...(r.qty_conversion && { qtyConversion: JSON.parse(r.qty_conversion) as QuantityConversion }),
+      confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at),
+      ...(r.decayed_at && { decayedAt: new Date(r.decayed_at) }), isActive: r.is_active === 1,
+    };
+  }
+
+  //expectation memory: one per vendor, aspect and expected value
+  findExpectationMemories(vendorId: string): ExpectationMemory[] {
+    return (this.db.prepare(`SELECT * FROM expectation_memories WHERE vendor_id = ? AND is_active = 1 ORDER BY confidence DESC`).all(vendorId) as ExpectationMemoryRow[]).map(this.toExpectationMemory);
+  }
+
+  //active or not, since the key is unique
+  findExpectationMemory(vendorId: string, aspect: ExpectationAspect, valueKey: string): ExpectationMemory | undefined {
+    const row = this.db.prepare(`SELECT * FROM expectation_memories WHERE vendor_id = ? AND aspect = ? AND value_key = ?`).get(vendorId, aspect, valueKey) as ExpectationMemoryRow | undefined;
+    return row ? this.toExpectationMemory(row) : undefined;
+  }
+
+  findExpectationMemoryById(id: string): ExpectationMemory | undefined {
+    const row = this.db.prepare(`SELECT * FROM expectation_memories WHERE id = ?`).get(id) as ExpectationMemoryRow | undefined;
+    return row ? this.toExpectationMemory(row) : undefined;
+  }
+
+  findActiveExpectationMemories(): ExpectationMemory[] {
+    return (this.db.prepare(`SELECT * FROM expectation_memories WHERE is_active = 1`).all() as ExpectationMemoryRow[]).map(this.toExpectationMemory);
+  }
+
+  saveExpectationMemory(m: ExpectationMemory): void {
+    this.db.prepare(`INSERT INTO expectation_memories (id, vendor_id, aspect, value_key, expected, confidence, application_count, consecutive_rejections, created_at, last_used_at, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(m.id, m.vendorId, m.aspect, m.valueKey, JSON.stringify(m.expected), m.confidence, m.applicationCount, m.consecutiveRejections, m.createdAt.toISOString(), m.lastUsedAt.toISOString(), m.isActive ? 1 : 0);
+  }
+
+  //the expected value is the memory's key and is not updated
+  updateExpectationMemory(id: string, updates: Partial<ExpectationMemory>): void {
+    this.buildUpdate('expectation_memories', id, updates as Record<string, unknown>, EXPECTATION_FIELDS);
+  }
+
+  private toExpectationMemory(r: ExpectationMemoryRow): ExpectationMemory {
+    return {
+      id: r.id, vendorId: r.vendor_id, aspect: r.aspect as ExpectationAspect, valueKey: r.value_key, expected: JSON.parse(r.expected) as PaymentTerms | TaxProfile,
+      confidence: r.confidence, applicationCount: r.application_count, consecutiveRejections: r.consecutive_rejections, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at),
+      ...(r.decayed_at && { decayedAt: new Date(r.decayed_at) }), isActive: r.is_active === 1,
+    };
   }
 
   //resolution Memory
@@ -121,34 +287,273 @@ export class MemoryRepository implements IMemoryRepository {
     this.buildUpdate('resolution_memories', id, updates as Record<string, unknown>, RESOLUTION_FIELDS);
   }
 
+  findResolutionMemoryById(id: string): ResolutionMemory | undefined {
+    const row = this.db.prepare(`SELECT * FROM resolution_memories WHERE id = ?`).get(id) as ResolutionMemoryRow | undefined;
+    return row ? this.toResolutionMemory(row) : undefined;
+  }
+
   private toResolutionMemory(r: ResolutionMemoryRow): ResolutionMemory {
     return { id: r.id, discrepancyType: r.discrepancy_type, context: JSON.parse(r.context) as Record<string, unknown>, approvalCount: r.approval_count, rejectionCount: r.rejection_count, createdAt: new Date(r.created_at), lastUsedAt: new Date(r.last_used_at), isActive: r.is_active === 1 };
   }
 
+  //admin access across all memory kinds, newest first
+  findMemories(f: MemoryFilter): MemoryPage {
+    const selects: string[] = [], params: unknown[] = [];
+    for (const [type, t] of Object.entries(MEMORY_TABLES)) {
+      if (f.type && f.type !== type) continue;
+      const where: string[] = [];
+      if (f.vendorId !== undefined) { where.push(`${t.vendor} = ?`); params.push(f.vendorId); }
+      if (f.fieldName !== undefined) { where.push(`(${t.field.map(c => `${c} = ?`).join(' OR ')})`); params.push(...t.field.map(() => f.fieldName)); }
+      if (f.search) { where.push(`(${t.search.map(c => `${c} LIKE ?`).join(' OR ')})`); params.push(...t.search.map(() => `%${f.search}%`)); }
+      if (f.isActive !== undefined) { where.push('is_active = ?'); params.push(f.isActive ? 1 : 0); }
+      selects.push(`SELECT '${type}' AS type, id, created_at FROM ${t.table}${where.length ? ` WHERE ${where.join(' AND ')}` : ''}`);
+    }
+    const union = selects.join(' UNION ALL ');
+    const { n } = this.db.prepare(`SELECT COUNT(*) AS n FROM (${union})`).get(...params) as { n: number };
+    const rows = this.db.prepare(`SELECT type, id FROM (${union}) ORDER BY created_at DESC, id LIMIT ? OFFSET ?`).all(...params, f.limit ?? -1, f.offset ?? 0) as { type: MemoryType; id: string }[];
+    return { items: rows.map(r => this.findMemoryById(r.id, r.type)).filter((m): m is StoredMemory => m !== undefined), total: n };
+  }
+
+  findMemoryById(id: string, type?: MemoryType): StoredMemory | undefined {
+    const vm = !type || type === 'vendor' ? this.findVendorMemoryById(id) : undefined;
+    if (vm) return { ...vm, type: 'vendor' };
+    const cm = !type || type === 'correction' ? this.findCorrectionMemoryById(id) : undefined;
+    if (cm) return { ...cm, type: 'correction' };
+    const lm = !type || type === 'line_item' ? this.findLineItemMemoryById(id) : undefined;
+    if (lm) return { ...lm, type: 'line_item' };
+    const em = !type || type === 'expectation' ? this.findExpectationMemoryById(id) : undefined;
+    if (em) return { ...em, type: 'expectation' };
+    const rm = !type || type === 'resolution' ? this.findResolutionMemoryById(id) : undefined;
+    return rm && { ...rm, type: 'resolution' };
+  }
+
+  //decayedAt is not part of the insert, it is written as an update
+  saveMemory(m: StoredMemory): void {
+    if (m.type === 'vendor') this.saveVendorMemory(m);
+    else if (m.type === 'correction') this.saveCorrectionMemory(m);
+    else if (m.type === 'line_item') this.saveLineItemMemory(m);
+    else if (m.type === 'expectation') this.saveExpectationMemory(m);
+    else this.saveResolutionMemory(m);
+    if (m.type !== 'resolution' && m.decayedAt) this.updateMemory(m.type, m.id, { decayedAt: m.decayedAt });
+  }
+
+  updateMemory(type: MemoryType, id: string, updates: Record<string, unknown>): void {
+    const fields = type === 'vendor' ? VENDOR_FIELDS : type === 'correction' ? CORRECTION_FIELDS : type === 'line_item' ? LINE_ITEM_FIELDS : type === 'expectation' ? EXPECTATION_FIELDS : RESOLUTION_FIELDS;
+    this.buildUpdate(MEMORY_TABLES[type].table, id, updates, fields);
+  }
+
+  deleteMemory(type: MemoryType, id: string): void {
+    this.db.prepare(`DELETE FROM ${MEMORY_TABLES[type].table} WHERE id = ?`).run(id);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
   //audit Trail
   saveAuditEntry(entry: StoredAuditEntry): void {
-    this.db.prepare(`INSERT INTO audit_trail (id, invoice_id, step, timestamp, details) VALUES (?, ?, ?, ?, ?)`).run(uuidv4(), entry.invoiceId, entry.step, entry.timestamp, entry.details);
+    this.db.prepare(`INSERT INTO audit_trail (id, invoice_id, step, timestamp, details, payload, vendor_id) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(uuidv4(), entry.invoiceId, entry.step, entry.timestamp, entry.details, entry.payload ? JSON.stringify(entry.payload) : null, entry.payload?.vendorId ?? null);
   }
 
   getAuditTrail(invoiceId: string): AuditEntry[] {
-    return (this.db.prepare(`SELECT step, timestamp, details FROM audit_trail WHERE invoice_id = ? ORDER BY timestamp ASC`).all(invoiceId) as AuditEntryRow[])
-      .map(r => ({ step: r.step as AuditEntry['step'], timestamp: r.timestamp, details: r.details }));
+    return this.findAuditEntries({ invoiceId }).map(({ invoiceId: _, ...entry }) => entry);
+  }
+
+  //memory ids live in the payload JSON; json_each finds entries that touched a memory
+  findAuditEntries(q: AuditQuery): StoredAuditEntry[] {
+    const where: string[] = [], params: unknown[] = [];
+    if (q.invoiceId !== undefined) { where.push('invoice_id = ?'); params.push(q.invoiceId); }
+    if (q.step !== undefined) { where.push('step = ?'); params.push(q.step); }
+    if (q.vendorId !== undefined) { where.push('vendor_id = ?'); params.push(q.vendorId); }
+    if (q.from) { where.push('timestamp >= ?'); params.push(q.from.toISOString()); }
+    if (q.to) { where.push('timestamp <= ?'); params.push(q.to.toISOString()); }
+    if (q.memoryId !== undefined) { where.push(`EXISTS (SELECT 1 FROM json_each(payload, '$.memoryIds') WHERE value = ?)`); params.push(q.memoryId); }
+    const sql = `SELECT invoice_id, step, timestamp, details, payload FROM audit_trail${where.length ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY timestamp ASC, rowid ASC${q.limit !== undefined ? ' LIMIT ?' : ''}`;
+    return (this.db.prepare(sql).all(...params, ...(q.limit !== undefined ? [q.limit] : [])) as AuditEntryRow[])
+      .map(r => ({ invoiceId: r.invoice_id, step: r.step as AuditStep, timestamp: r.timestamp, details: r.details, ...(r.payload && { payload: JSON.parse(r.payload) as AuditPayload }) }));
+  }
+
+  //memory lineage; the id and, unless given, the time are assigned here
+  saveMemoryEvent(e: Omit<MemoryEvent, 'id' | 'timestamp'> & { timestamp?: Date }): void {
+    this.db.prepare(`INSERT INTO memory_events (id, memory_id, memory_type, kind, invoice_id, session_id, feedback_action, reviewer, old_confidence, new_confidence, details, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(uuidv4(), e.memoryId, e.memoryType, e.kind, e.invoiceId ?? null, e.sessionId ?? null, e.feedbackAction ?? null, e.reviewer ?? null, e.oldConfidence ?? null, e.newConfidence ?? null, e.details, (e.timestamp ?? new Date()).toISOString());
+  }
+
+  findMemoryEvents(memoryId: string): MemoryEvent[] {
+    return (this.db.prepare(`SELECT * FROM memory_events WHERE memory_id = ? ORDER BY timestamp ASC, rowid ASC`).all(memoryId) as MemoryEventRow[]).map(r => ({
+      id: r.id, memoryId: r.memory_id, memoryType: r.memory_type as MemoryType, kind: r.kind as MemoryEventKind,
+      ...(r.invoice_id && { invoiceId: r.invoice_id }), ...(r.session_id && { sessionId: r.session_id }),
+      ...(r.feedback_action && { feedbackAction: r.feedback_action as HumanFeedback['action'] }), ...(r.reviewer && { reviewer: r.reviewer }),
+      ...(r.old_confidence !== null && { oldConfidence: r.old_confidence }), ...(r.new_confidence !== null && { newConfidence: r.new_confidence }),
+      details: r.details, timestamp: new Date(r.timestamp),
+    }));
+  }
+
+  //feedback submissions, so a mistaken one can be reverted
+  saveFeedbackSubmission(f: FeedbackSubmission): void {
+    this.db.prepare(`INSERT INTO feedback_submissions (id, invoice_id, session_id, vendor_id, action, reviewer, mutations, submitted_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(f.id, f.invoiceId, f.sessionId, f.vendorId, f.action, f.reviewer ?? null, JSON.stringify(f.mutations), f.submittedAt.toISOString());
+  }
+
+  findFeedbackSubmission(id: string): FeedbackSubmission | undefined {
+    const row = this.db.prepare(`SELECT * FROM feedback_submissions WHERE id = ?`).get(id) as FeedbackSubmissionRow | undefined;
+    return row ? this.toFeedbackSubmission(row) : undefined;
+  }
+
+  //every submission that mutated one of the memories, oldest first
+  findFeedbackSubmissionsTouching(memoryIds: string[]): FeedbackSubmission[] {
+    if (!memoryIds.length) return [];
+    return (this.db.prepare(`SELECT * FROM feedback_submissions f WHERE EXISTS (SELECT 1 FROM json_each(f.mutations) m WHERE json_extract(m.value, '$.memoryId') IN (${memoryIds.map(() => '?').join(', ')})) ORDER BY submitted_at ASC, rowid ASC`)
+      .all(...memoryIds) as FeedbackSubmissionRow[]).map(r => this.toFeedbackSubmission(r));
+  }
+
+  updateFeedbackSubmission(id: string, updates: Pick<FeedbackSubmission, 'revertedAt' | 'revertedBy'>): void {
+    this.buildUpdate('feedback_submissions', id, updates, FEEDBACK_FIELDS);
+  }
+
+  private toFeedbackSubmission(r: FeedbackSubmissionRow): FeedbackSubmission {
+    return {
+      id: r.id, invoiceId: r.invoice_id, sessionId: r.session_id, vendorId: r.vendor_id, action: r.action as HumanFeedback['action'],
+      ...(r.reviewer && { reviewer: r.reviewer }), mutations: JSON.parse(r.mutations) as FeedbackMutation[], submittedAt: new Date(r.submitted_at),
+      ...(r.reverted_at && { revertedAt: new Date(r.reverted_at) }), ...(r.reverted_by && { revertedBy: r.reverted_by }),
+    };
+  }
+
+  //duplicate detection: everything invoiced in the window, scored by DuplicateDetectionService
+  findProcessedInvoices(from: Date, to: Date): ProcessedInvoice[] {
+    const day = (d: Date) => d.toISOString().split('T')[0];
+    return (this.db.prepare(`SELECT * FROM processed_invoices WHERE date(invoice_date) BETWEEN date(?) AND date(?) ORDER BY invoice_date`).all(day(from), day(to)) as ProcessedInvoiceRow[])
+      .map(r => ({
+        id: r.id, vendorId: r.vendor_id, invoiceNumber: r.invoice_number, normalizedNumber: r.normalized_number ?? r.invoice_number, invoiceDate: new Date(r.invoice_date),
+        grossTotal: r.gross_total, currency: r.currency, lineItemFingerprint: r.line_item_fingerprint, processedAt: new Date(r.processed_at),
+      }));
+  }
+
+  saveProcessedInvoice(p: ProcessedInvoice): void {
+    this.db.prepare(`INSERT OR REPLACE INTO processed_invoices (id, vendor_id, invoice_number, invoice_date, processed_at, normalized_number, gross_total, currency, line_item_fingerprint) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(p.id, p.vendorId, p.invoiceNumber, p.invoiceDate.toISOString(), p.processedAt.toISOString(), p.normalizedNumber, p.grossTotal, p.currency, p.lineItemFingerprint);
+  }
+
+  //processing sessions
+  //a new session supersedes any still-open session of the same invoice
+  saveProcessingSession(s: ProcessingSession): void {
+    this.db.transaction(() => {
+      this.db.prepare(`UPDATE processing_sessions SET status = 'superseded' WHERE invoice_id = ? AND status = 'open'`).run(s.invoiceId);
+      this.db.prepare(`INSERT INTO processing_sessions (id, invoice_id, vendor_id, invoice, contributing_memories, proposed_corrections, discrepancies, decision, status, processed_at, learned_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(s.id, s.invoiceId, s.vendorId, JSON.stringify(s.invoice), JSON.stringify(s.contributingMemories), JSON.stringify(s.proposedCorrections), JSON.stringify(s.discrepancies), JSON.stringify(s.decision), s.status, s.processedAt.toISOString(), s.learnedAt?.toISOString() ?? null);
+    })();
+  }
+
+  findProcessingSessionById(id: string): ProcessingSession | undefined {
+    const row = this.db.prepare(`SELECT * FROM processing_sessions WHERE id = ?`).get(id) as ProcessingSessionRow | undefined;
+    return row ? this.toProcessingSession(row) : undefined;
+  }
+
+  findLatestProcessingSession(invoiceId: string): ProcessingSession | undefined {
+    const row = this.db.prepare(`SELECT * FROM processing_sessions WHERE invoice_id = ? ORDER BY processed_at DESC, rowid DESC LIMIT 1`).get(invoiceId) as ProcessingSessionRow | undefined;
+    return row ? this.toProcessingSession(row) : undefined;
+  }
+
+  updateProcessingSession(id: string, updates: Partial<ProcessingSession>): void {
+    this.buildUpdate('processing_sessions', id, updates as Record<string, unknown>, SESSION_FIELDS);
+  }
+
+  //purchase orders
+  //re-importing a PO number replaces the stored order
+  savePurchaseOrder(po: PurchaseOrder): void {
+    this.db.prepare(`INSERT OR REPLACE INTO purchase_orders (po_number, vendor, date, line_items, imported_at) VALUES (?, ?, ?, ?, ?)`)
+      .run(po.poNumber, po.vendor, po.date.toISOString(), JSON.stringify(po.lineItems), new Date().toISOString());
+  }
+
+  findPurchaseOrders(): PurchaseOrder[] {
+    return (this.db.prepare(`SELECT * FROM purchase_orders ORDER BY date ASC`).all() as PurchaseOrderRow[])
+      .map(r => ({ poNumber: r.po_number, vendor: r.vendor, date: new Date(r.date), lineItems: JSON.parse(r.line_items) as PurchaseOrder['lineItems'] }));
+  }
+
+  //confidence policies
+  //a policy's id is kept when its overrides change
+  findConfidencePolicies(): ConfidencePolicy[] {
+    return (this.db.prepare(`SELECT * FROM confidence_policies ORDER BY vendor_id, field_name`).all() as ConfidencePolicyRow[])
+      .map(r => ({ id: r.id, vendorId: r.vendor_id, fieldName: r.field_name, overrides: JSON.parse(r.overrides) as ConfidencePolicy['overrides'], createdAt: new Date(r.created_at), updatedAt: new Date(r.updated_at) }));
+  }
+
+  saveConfidencePolicy(p: ConfidencePolicy): void {
+    this.db.prepare(`INSERT OR REPLACE INTO confidence_policies (id, vendor_id, field_name, overrides, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)`)
+      .run(p.id, p.vendorId, p.fieldName, JSON.stringify(p.overrides), p.createdAt.toISOString(), p.updatedAt.toISOString());
+  }
+
+  deleteConfidencePolicy(id: string): void {
+    this.db.prepare(`DELETE FROM confidence_policies WHERE id = ?`).run(id);
+  }
+
+  //vendor registry
+  findVendor(id: string): Vendor | undefined {
+    const row = this.db.prepare(`SELECT * FROM vendors WHERE id = ?`).get(id) as VendorRow | undefined;
+    return row && this.toVendor(row);
+  }
+
+  findVendors(): Vendor[] {
+    return (this.db.prepare(`SELECT * FROM vendors ORDER BY id`).all() as VendorRow[]).map(r => this.toVendor(r));
+  }
+
+  findVendorIdByAlias(aliasKey: string): string | undefined {
+    return (this.db.prepare(`SELECT vendor_id FROM vendor_aliases WHERE alias_key = ?`).get(aliasKey) as { vendor_id: string } | undefined)?.vendor_id;
+  }
+
+  findVendorIdByIdentifier(identifier: VendorIdentifier): string | undefined {
+    return (this.db.prepare(`SELECT vendor_id FROM vendor_identifiers WHERE kind = ? AND value = ?`).get(identifier.kind, identifier.value) as { vendor_id: string } | undefined)?.vendor_id;
+  }
+
+  //first registration wins: an alias or identifier already taken stays with its vendor
+  saveVendor(v: Pick<Vendor, 'id' | 'name' | 'createdAt'>): void {
+    this.db.prepare(`INSERT OR IGNORE INTO vendors (id, name, created_at) VALUES (?, ?, ?)`).run(v.id, v.name, v.createdAt.toISOString());
+  }
+
+  saveVendorAlias(vendorId: string, alias: string, aliasKey: string): void {
+    this.db.prepare(`INSERT OR IGNORE INTO vendor_aliases (alias_key, alias, vendor_id) VALUES (?, ?, ?)`).run(aliasKey, alias, vendorId);
+  }
+
+  saveVendorIdentifier(vendorId: string, identifier: VendorIdentifier): void {
+    this.db.prepare(`INSERT OR IGNORE INTO vendor_identifiers (kind, value, vendor_id) VALUES (?, ?, ?)`).run(identifier.kind, identifier.value, vendorId);
+  }
+
+  //vendor merge: aliases, identifiers and invoice history follow; memories and policies are merged by the service
+  moveVendorRecords(fromId: string, toId: string): void {
+    for (const table of ['vendor_aliases', 'vendor_identifiers', 'processed_invoices', 'processing_sessions', 'feedback_submissions', 'audit_trail']) {
+      this.db.prepare(`UPDATE ${table} SET vendor_id = ? WHERE vendor_id = ?`).run(toId, fromId);
+    }
+    this.db.prepare(`DELETE FROM vendors WHERE id = ?`).run(fromId);
   }
 
-  //duplicate detection
-  findPotentialDuplicates(vendorId: string, invoiceNumber: string, date: Date): string[] {
-    const d = date.getTime(), week = 7 * 864e5;
-    const start = new Date(d - week).toISOString().split('T')[0], end = new Date(d + week).toISOString().split('T')[0];
-    return (this.db.prepare(`SELECT id FROM processed_invoices WHERE vendor_id = ? AND invoice_number = ? AND date(invoice_date) BETWEEN date(?) AND date(?)`).all(vendorId, invoiceNumber, start, end) as { id: string }[]).map(r => r.id);
+  private toVendor(r: VendorRow): Vendor {
+    const aliases = (this.db.prepare(`SELECT alias FROM vendor_aliases WHERE vendor_id = ? ORDER BY alias`).all(r.id) as { alias: string }[]).map(a => a.alias);
+    const identifiers = this.db.prepare(`SELECT kind, value FROM vendor_identifiers WHERE vendor_id = ? ORDER BY kind, value`).all(r.id) as VendorIdentifier[];
+    return { id: r.id, name: r.name, aliases, identifiers, createdAt: new Date(r.created_at) };
   }
 
-  saveProcessedInvoice(id: string, vendorId: string, invoiceNumber: string, invoiceDate: Date): void {
-    this.db.prepare(`INSERT OR REPLACE INTO processed_invoices (id, vendor_id, invoice_number, invoice_date, processed_at) VALUES (?, ?, ?, ?, ?)`).run(id, vendorId, invoiceNumber, invoiceDate.toISOString(), new Date().toISOString());
+  private toProcessingSession(r: ProcessingSessionRow): ProcessingSession {
+    const invoice = JSON.parse(r.invoice) as Omit<Invoice, 'invoiceDate'> & { invoiceDate: string };
+    return {
+      id: r.id, invoiceId: r.invoice_id, vendorId: r.vendor_id, invoice: { ...invoice, invoiceDate: new Date(invoice.invoiceDate) },
+      contributingMemories: JSON.parse(r.contributing_memories), proposedCorrections: JSON.parse(r.proposed_corrections),
+      discrepancies: JSON.parse(r.discrepancies), decision: JSON.parse(r.decision), status: r.status as ProcessingSession['status'],
+      processedAt: new Date(r.processed_at), ...(r.learned_at && { learnedAt: new Date(r.learned_at) }),
+    };
   }
 }
 
 //row types (DB → App mapping)
-interface VendorMemoryRow { id: string; vendor_id: string; vendor_name: string; original_field_name: string; normalized_field_name: string; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; is_active: number; }
-interface CorrectionMemoryRow { id: string; vendor_id: string | null; field_name: string; original_value_pattern: string; corrected_value: string; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; is_active: number; }
+interface VendorMemoryRow { id: string; vendor_id: string; vendor_name: string; original_field_name: string; normalized_field_name: string; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; decayed_at: string | null; is_active: number; template: string | null; }
+interface CorrectionMemoryRow { id: string; vendor_id: string | null; field_name: string; original_value_pattern: string; corrected_value: string; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; decayed_at: string | null; is_active: number; }
+interface LineItemMemoryRow { id: string; vendor_id: string; description_key: string; description: string; sku: string | null; unit: string | null; qty_conversion: string | null; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; decayed_at: string | null; is_active: number; }
+interface ExpectationMemoryRow { id: string; vendor_id: string; aspect: string; value_key: string; expected: string; confidence: number; application_count: number; consecutive_rejections: number; created_at: string; last_used_at: string; decayed_at: string | null; is_active: number; }
 interface ResolutionMemoryRow { id: string; discrepancy_type: string; context: string; approval_count: number; rejection_count: number; created_at: string; last_used_at: string; is_active: number; }
-interface AuditEntryRow { step: string; timestamp: string; details: string; }
+interface AuditEntryRow { invoice_id: string; step: string; timestamp: string; details: string; payload: string | null; }
+interface ProcessedInvoiceRow { id: string; vendor_id: string; invoice_number: string; invoice_date: string; processed_at: string; normalized_number: string | null; gross_total: number | null; currency: string | null; line_item_fingerprint: string | null; }
+interface MemoryEventRow { id: string; memory_id: string; memory_type: string; kind: string; invoice_id: string | null; session_id: string | null; feedback_action: string | null; reviewer: string | null; old_confidence: number | null; new_confidence: number | null; details: string; timestamp: string; }
+interface FeedbackSubmissionRow { id: string; invoice_id: string; session_id: string; vendor_id: string; action: string; reviewer: string | null; mutations: string; submitted_at: string; reverted_at: string | null; reverted_by: string | null; }
+interface VendorRow { id: string; name: string; created_at: string; }
+interface PurchaseOrderRow { po_number: string; vendor: string; date: string; line_items: string; imported_at: string; }
+interface ConfidencePolicyRow { id: string; vendor_id: string | null; field_name: string | null; overrides: string; created_at: string; updated_at: string; }
+interface ProcessingSessionRow { id: string; invoice_id: string; vendor_id: string; invoice: string; contributing_memories: string; proposed_corrections: string; discrepancies: string; decision: string; status: string; processed_at: string; learned_at: string | null; }
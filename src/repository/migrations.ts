@@ -0,0 +1,365 @@
+//schema migrations: ordered steps from an empty file to the current schema
+//every step runs once, in its own transaction, and is recorded in schema_version
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+//the database was written by a newer build than this one
+export class SchemaVersionError extends Error {
+  constructor(public readonly databaseVersion: number, public readonly supportedVersion: number) {
+    super(`Database schema version ${databaseVersion} is newer than this build supports (${supportedVersion}); upgrade before opening it`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export interface AppliedMigration { version: number; description: string; appliedAt: string; }
+
+//append new steps at the end; never edit one that has shipped
+//steps tolerate files created before versioning existed (IF NOT EXISTS, addColumn)
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1, description: 'memories, audit trail and processed invoices',
+    up: db => db.exec(`
+      -- Vendor Memory Table
+      CREATE TABLE IF NOT EXISTS vendor_memories (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT NOT NULL,
+        vendor_name TEXT NOT NULL,
+        original_field_name TEXT NOT NULL,
+        normalized_field_name TEXT NOT NULL,
+        confidence REAL NOT NULL DEFAULT 0.6,
+        application_count INTEGER NOT NULL DEFAULT 0,
+        consecutive_rejections INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        UNIQUE(vendor_id, original_field_name) 
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vendor_memories_vendor_id ON vendor_memories(vendor_id);
+      CREATE INDEX IF NOT EXISTS idx_vendor_memories_confidence ON vendor_memories(confidence);
+
+      -- Correction Memory Table
+      CREATE TABLE IF NOT EXISTS correction_memories (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT,
+        field_name TEXT NOT NULL,
+        original_value_pattern TEXT NOT NULL,
+        corrected_value TEXT NOT NULL,
+        confidence REAL NOT NULL DEFAULT 0.6,
+        application_count INTEGER NOT NULL DEFAULT 0,
+        consecutive_rejections INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_correction_memories_vendor_id ON correction_memories(vendor_id);
+      CREATE INDEX IF NOT EXISTS idx_correction_memories_field_name ON correction_memories(field_name);
+      CREATE INDEX IF NOT EXISTS idx_correction_memories_confidence ON correction_memories(confidence);
+
+      -- Resolution Memory Table
+      CREATE TABLE IF NOT EXISTS resolution_memories (
+        id TEXT PRIMARY KEY,
+        discrepancy_type TEXT NOT NULL,
+        context TEXT NOT NULL,
+        approval_count INTEGER NOT NULL DEFAULT 0,
+        rejection_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_resolution_memories_discrepancy_type ON resolution_memories(discrepancy_type);
+
+      -- Audit Trail Table
+      CREATE TABLE IF NOT EXISTS audit_trail (
+        id TEXT PRIMARY KEY,
+        invoice_id TEXT NOT NULL,
+        step TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        details TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_audit_trail_invoice_id ON audit_trail(invoice_id);
+
+      -- Processed Invoices (for duplicate detection)
+      CREATE TABLE IF NOT EXISTS processed_invoices (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT NOT NULL,
+        invoice_number TEXT NOT NULL,
+        invoice_date TEXT NOT NULL,
+        processed_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_processed_invoices_vendor ON processed_invoices(vendor_id, invoice_number);
+      CREATE INDEX IF NOT EXISTS idx_processed_invoices_date ON processed_invoices(invoice_date);
+    `),
+  },
+  {
+    version: 2, description: 'decayed_at on vendor and correction memories',
+    up: db => {
+      addColumn(db, 'vendor_memories', 'decayed_at', 'TEXT');
+      addColumn(db, 'correction_memories', 'decayed_at', 'TEXT');
+    },
+  },
+  {
+    version: 3, description: 'processing sessions',
+    up: db => db.exec(`
+      -- Processing Sessions (what was applied and proposed, until human feedback arrives)
+      CREATE TABLE IF NOT EXISTS processing_sessions (
+        id TEXT PRIMARY KEY,
+        invoice_id TEXT NOT NULL,
+        vendor_id TEXT NOT NULL,
+        invoice TEXT NOT NULL,
+        contributing_memories TEXT NOT NULL,
+        proposed_corrections TEXT NOT NULL,
+        discrepancies TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        processed_at TEXT NOT NULL,
+        learned_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_processing_sessions_invoice_id ON processing_sessions(invoice_id, processed_at);
+    `),
+  },
+  {
+    version: 4, description: 'purchase orders',
+    up: db => db.exec(`
+      -- Purchase Orders (imported for PO matching)
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        po_number TEXT PRIMARY KEY,
+        vendor TEXT NOT NULL,
+        date TEXT NOT NULL,
+        line_items TEXT NOT NULL,
+        imported_at TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    version: 5, description: 'confidence policies',
+    up: db => db.exec(`
+      -- Confidence Policies (per vendor / field overrides of CONFIDENCE_CONFIG)
+      CREATE TABLE IF NOT EXISTS confidence_policies (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT,
+        field_name TEXT,
+        overrides TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_confidence_policies_scope ON confidence_policies(COALESCE(vendor_id, ''), COALESCE(field_name, ''));
+    `),
+  },
+  {
+    version: 6, description: 'extraction templates on vendor memories',
+    up: db => addColumn(db, 'vendor_memories', 'template', 'TEXT'),
+  },
+  {
+    version: 7, description: 'duplicate scoring signals on processed invoices',
+    up: db => {
+      addColumn(db, 'processed_invoices', 'normalized_number', 'TEXT');
+      addColumn(db, 'processed_invoices', 'gross_total', 'REAL');
+      addColumn(db, 'processed_invoices', 'currency', 'TEXT');
+      addColumn(db, 'processed_invoices', 'line_item_fingerprint', 'TEXT');
+      //older rows only get the number; amounts were never stored
+      db.exec(`
+        UPDATE processed_invoices SET normalized_number = UPPER(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(invoice_number, '-', ''), ' ', ''), '/', ''), '.', ''), '_', ''), '#', ''))
+        WHERE normalized_number IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_processed_invoices_number ON processed_invoices(normalized_number);
+      `);
+    },
+  },
+  {
+    version: 8, description: 'vendor registry with aliases and identifiers',
+    up: db => db.exec(`
+      -- Vendors (canonical id = normalized name first seen)
+      CREATE TABLE IF NOT EXISTS vendors (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      -- Alias key (legal form and punctuation stripped) -> vendor
+      CREATE TABLE IF NOT EXISTS vendor_aliases (
+        alias_key TEXT PRIMARY KEY,
+        alias TEXT NOT NULL,
+        vendor_id TEXT NOT NULL REFERENCES vendors(id)
+      );
+
+      -- VAT IDs and IBANs found in invoice text
+      CREATE TABLE IF NOT EXISTS vendor_identifiers (
+        kind TEXT NOT NULL,
+        value TEXT NOT NULL,
+        vendor_id TEXT NOT NULL REFERENCES vendors(id),
+        PRIMARY KEY (kind, value)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor ON vendor_aliases(vendor_id);
+      CREATE INDEX IF NOT EXISTS idx_vendor_identifiers_vendor ON vendor_identifiers(vendor_id);
+
+      -- vendors memories were learned for before the registry, so admins can merge them
+      INSERT OR IGNORE INTO vendors (id, name, created_at)
+        SELECT vendor_id, MIN(vendor_name), MIN(created_at) FROM vendor_memories GROUP BY vendor_id;
+      INSERT OR IGNORE INTO vendors (id, name, created_at)
+        SELECT vendor_id, vendor_id, MIN(created_at) FROM correction_memories WHERE vendor_id IS NOT NULL GROUP BY vendor_id;
+      INSERT OR IGNORE INTO vendors (id, name, created_at)
+        SELECT vendor_id, vendor_id, MIN(processed_at) FROM processed_invoices GROUP BY vendor_id;
+    `),
+  },
+  {
+    version: 9, description: 'structured audit payload, queryable by vendor, step and time',
+    up: db => {
+      addColumn(db, 'audit_trail', 'payload', 'TEXT');
+      addColumn(db, 'audit_trail', 'vendor_id', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_audit_trail_vendor ON audit_trail(vendor_id, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_audit_trail_step ON audit_trail(step, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_audit_trail_timestamp ON audit_trail(timestamp);
+      `);
+    },
+  },
+  {
+    version: 10, description: 'memory event log',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_events (
+        id TEXT PRIMARY KEY,
+        memory_id TEXT NOT NULL,
+        memory_type TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        invoice_id TEXT,
+        session_id TEXT,
+        feedback_action TEXT,
+        reviewer TEXT,
+        old_confidence REAL,
+        new_confidence REAL,
+        details TEXT NOT NULL,
+        timestamp TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memory_events_memory ON memory_events(memory_id, timestamp);
+
+      -- memories learned before the log get their creation, without the feedback behind it
+      INSERT INTO memory_events (id, memory_id, memory_type, kind, new_confidence, details, timestamp)
+        SELECT 'backfill-' || id, id, 'vendor', 'created', confidence, 'learned before the event log', created_at FROM vendor_memories;
+      INSERT INTO memory_events (id, memory_id, memory_type, kind, new_confidence, details, timestamp)
+        SELECT 'backfill-' || id, id, 'correction', 'created', confidence, 'learned before the event log', created_at FROM correction_memories;
+      INSERT INTO memory_events (id, memory_id, memory_type, kind, details, timestamp)
+        SELECT 'backfill-' || id, id, 'resolution', 'created', 'learned before the event log', created_at FROM resolution_memories;
+    `),
+  },
+  {
+    version: 11, description: 'feedback submissions with their memory mutations',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS feedback_submissions (
+        id TEXT PRIMARY KEY,
+        invoice_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        vendor_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        reviewer TEXT,
+        mutations TEXT NOT NULL,
+        submitted_at TEXT NOT NULL,
+        reverted_at TEXT,
+        reverted_by TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_feedback_submissions_invoice ON feedback_submissions(invoice_id);
+    `),
+  },
+  {
+    //earlier builds stored the original value as text; missing values read "null" or "" and become *
+    version: 12, description: 'value patterns on correction memories',
+    up: db => db.exec(`UPDATE correction_memories SET original_value_pattern = '*' WHERE TRIM(original_value_pattern) IN ('', 'null', 'undefined')`),
+  },
+  {
+    version: 13, description: 'line item memories',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS line_item_memories (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT NOT NULL,
+        description_key TEXT NOT NULL,
+        description TEXT NOT NULL,
+        sku TEXT,
+        unit TEXT,
+        qty_conversion TEXT,
+        confidence REAL NOT NULL DEFAULT 0.6,
+        application_count INTEGER NOT NULL DEFAULT 0,
+        consecutive_rejections INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        decayed_at TEXT,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        UNIQUE(vendor_id, description_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_line_item_memories_vendor_id ON line_item_memories(vendor_id);
+    `),
+  },
+  {
+    version: 14, description: 'expectation memories',
+    up: db => db.exec(`
+      CREATE TABLE IF NOT EXISTS expectation_memories (
+        id TEXT PRIMARY KEY,
+        vendor_id TEXT NOT NULL,
+        aspect TEXT NOT NULL,
+        value_key TEXT NOT NULL,
+        expected TEXT NOT NULL,
+        confidence REAL NOT NULL DEFAULT 0.6,
+        application_count INTEGER NOT NULL DEFAULT 0,
+        consecutive_rejections INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        decayed_at TEXT,
+        is_active INTEGER NOT NULL DEFAULT 1,
+        UNIQUE(vendor_id, aspect, value_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_expectation_memories_vendor_id ON expectation_memories(vendor_id);
+    `),
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+const VERSION_TABLE = `CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, description TEXT NOT NULL, applied_at TEXT NOT NULL)`;
+
+//0 for a new file or one created before versioning
+export function getSchemaVersion(db: Database.Database): number {
+  db.exec(VERSION_TABLE);
+  return (db.prepare(`SELECT MAX(version) AS v FROM schema_version`).get() as { v: number | null }).v ?? 0;
+}
+
+export function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  db.exec(VERSION_TABLE);
+  return (db.prepare(`SELECT version, description, applied_at FROM schema_version ORDER BY version`).all() as { version: number; description: string; applied_at: string }[])
+    .map(r => ({ version: r.version, description: r.description, appliedAt: r.applied_at }));
+}
+
+//apply pending steps in order; refuses databases from a newer build
+export function migrate(db: Database.Database, migrations: Migration[] = MIGRATIONS): { from: number; to: number; applied: number[] } {
+  const from = getSchemaVersion(db), latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (from > latest) throw new SchemaVersionError(from, latest);
+
+  const applied: number[] = [];
+  for (const m of migrations.filter(m => m.version > from)) {
+    db.transaction(() => {
+      m.up(db);
+      db.prepare(`INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)`).run(m.version, m.description, new Date().toISOString());
+    })();
+    applied.push(m.version);
+  }
+  return { from, to: Math.max(from, latest), applied };
+}
+
+//add a column unless an earlier, unversioned build already did
+function addColumn(db: Database.Database, table: string, column: string, type: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+}
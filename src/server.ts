@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { initializeDatabase, closeDatabase } from './repository/database.js';
+import { MemoryRepository } from './repository/memory-repository.js';
+import { InvoiceProcessor } from './services/processor.js';
+import { createApiServer } from './api/server.js';
+
+//parse CLI flags: --port <n> --db <path>
+const args = process.argv.slice(2);
+const flag = (name: string) => { const i = args.indexOf(name); return i >= 0 ? args[i + 1] : undefined; };
+const port = Number(flag('--port') ?? process.env['PORT'] ?? 3000);
+const dbPath = flag('--db') ?? process.env['DB_PATH'] ?? './learned_memory.db';
+
+const db = initializeDatabase(dbPath), repository = new MemoryRepository(db);
+const server = createApiServer({ processor: new InvoiceProcessor(repository), repository });
+
+server.listen(port, () => console.log(`Learned memory API listening on http://localhost:${port} (db: ${dbPath})`));
+
+//close the database cleanly on shutdown
+const shutdown = () => server.close(() => { closeDatabase(db); process.exit(0); });
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,237 @@
+//MemoryAdminService: manual administration of learned memories
+//it answers: how do people inspect, fix and clean up what the system has learned?
+//every change is written to the audit trail with who made it
+import type { AuditEntry, AuditPayload, MemoryEvent, MemoryEventKind, MemoryType, StoredMemory } from '../models/index.js';
+import type { IMemoryRepository, MemoryPage } from '../repository/memory-repository.js';
+import { VendorRegistryService } from './vendors.js';
+import { isValidValuePattern } from './value-patterns.js';
+import { describeLineValues } from './line-items.js';
+
+//admin changes are not tied to an invoice
+export const ADMIN_AUDIT_ID = 'admin';
+
+export class MemoryAdminError extends Error {
+  constructor(message: string, public readonly reason: 'not_found' | 'invalid_edit' | 'invalid_merge') {
+    super(message);
+    this.name = 'MemoryAdminError';
+  }
+}
+
+export interface MemoryListOptions {
+  type?: MemoryType;
+  vendorId?: string;
+  fieldName?: string;
+  search?: string;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MemoryListResult extends MemoryPage { limit: number; offset: number; }
+
+//fields people may set by hand; counters and timestamps stay learned
+export interface MemoryEdit {
+  confidence?: number;
+  isActive?: boolean;
+  normalizedFieldName?: string;
+  originalValuePattern?: string;
+  correctedValue?: string;
+  sku?: string;
+  unit?: string;
+  approvalCount?: number;
+  rejectionCount?: number;
+}
+
+const EDITABLE: Record<MemoryType, (keyof MemoryEdit)[]> = {
+  vendor: ['confidence', 'isActive', 'normalizedFieldName'],
+  correction: ['confidence', 'isActive', 'originalValuePattern', 'correctedValue'],
+  line_item: ['confidence', 'isActive', 'sku', 'unit'],
+  expectation: ['confidence', 'isActive'],
+  resolution: ['isActive', 'approvalCount', 'rejectionCount'],
+};
+
+const DEFAULT_PAGE_SIZE = 50, MAX_PAGE_SIZE = 500;
+
+//short human label of a memory for audit details and listings
+export function describeMemory(m: StoredMemory): string {
+  if (m.type === 'vendor') return `${m.vendorId} "${m.originalFieldName}" → ${m.normalizedFieldName}`;
+  if (m.type === 'correction') return `${m.vendorId ?? '*'} ${m.fieldName}: "${m.originalValuePattern}" → "${m.correctedValue}"`;
+  if (m.type === 'line_item') return `${m.vendorId} line "${m.description}" → ${describeLineValues(m)}`;
+  if (m.type === 'expectation') return `${m.vendorId} ${m.aspect.replace('_', ' ')}: ${m.valueKey}`;
+  return `${m.discrepancyType} ${String(m.context['fingerprint'] ?? '')} (${m.approvalCount} approved, ${m.rejectionCount} rejected)`;
+}
+
+export interface IMemoryAdminService {
+  listMemories(options?: MemoryListOptions): MemoryListResult;
+  getMemory(id: string): StoredMemory;
+  editMemory(id: string, edit: MemoryEdit, actor: string): StoredMemory;
+  deactivateMemory(id: string, actor: string): StoredMemory;
+  reactivateMemory(id: string, actor: string): StoredMemory;
+  deleteMemory(id: string, actor: string): StoredMemory;
+  mergeMemories(targetId: string, sourceIds: string[], actor: string): StoredMemory;
+  getLineage(id: string): MemoryLineage;
+}
+
+//where a memory came from, every confidence change since, and the values it auto-applied
+export interface MemoryLineage {
+  memoryId: string;
+  //undefined once the memory was deleted or merged away
+  memory?: StoredMemory;
+  events: MemoryEvent[];
+  applications: { invoiceId: string; fieldName: string; before: unknown; after: unknown; timestamp: string }[];
+}
+
+export class MemoryAdminService implements IMemoryAdminService {
+  private vendors: VendorRegistryService;
+
+  constructor(private repository: IMemoryRepository) {
+    this.vendors = new VendorRegistryService(repository);
+  }
+
+  listMemories(options: MemoryListOptions = {}): MemoryListResult {
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE), offset = Math.max(0, options.offset ?? 0);
+    const page = this.repository.findMemories({
+      ...options, ...(options.vendorId !== undefined && { vendorId: this.vendors.lookup(options.vendorId) }), limit, offset,
+    });
+    return { ...page, limit, offset };
+  }
+
+  getMemory(id: string): StoredMemory {
+    const memory = this.repository.findMemoryById(id);
+    if (!memory) throw new MemoryAdminError(`No memory with id ${id}`, 'not_found');
+    return memory;
+  }
+
+  editMemory(id: string, edit: MemoryEdit, actor: string): StoredMemory {
+    const memory = this.getMemory(id), keys = (Object.keys(edit) as (keyof MemoryEdit)[]).filter(k => edit[k] !== undefined);
+    const invalid = keys.filter(k => !EDITABLE[memory.type].includes(k));
+    if (invalid.length) throw new MemoryAdminError(`${invalid.join(', ')} cannot be changed on a ${memory.type} memory`, 'invalid_edit');
+    if (!keys.length) throw new MemoryAdminError(`Edit must set one of ${EDITABLE[memory.type].join(', ')}`, 'invalid_edit');
+    if (edit.confidence !== undefined && !(edit.confidence >= 0 && edit.confidence <= 1)) throw new MemoryAdminError('confidence must be between 0 and 1', 'invalid_edit');
+    if (edit.originalValuePattern !== undefined && !isValidValuePattern(edit.originalValuePattern)) throw new MemoryAdminError(`originalValuePattern ${edit.originalValuePattern} is not a valid regular expression`, 'invalid_edit');
+
+    //reactivating clears the rejection streak, otherwise the next rejection deactivates it again
+    const updates = { ...edit, ...(edit.isActive && memory.type !== 'resolution' && { consecutiveRejections: 0 }) };
+    const changes = keys.map(k => `${k} ${JSON.stringify(memory[k as keyof StoredMemory])}→${JSON.stringify(edit[k])}`);
+    //the change, its lineage event and its audit entry are written together or not at all
+    return this.repository.transaction(() => {
+      this.update(memory, updates);
+      this.event(memory, 'edited', actor, changes.join(', '), 'confidence' in memory && edit.confidence !== undefined ? { oldConfidence: memory.confidence, newConfidence: edit.confidence } : {});
+      this.audit(actor, `edited ${memory.type} memory ${id} (${describeMemory(memory)}): ${changes.join(', ')}`, [memory], {
+        fields: keys, changes: keys.map(k => ({ fieldName: k, before: memory[k as keyof StoredMemory], after: edit[k], memoryId: id, applied: true })),
+      });
+      return this.getMemory(id);
+    });
+  }
+
+  deactivateMemory(id: string, actor: string): StoredMemory {
+    return this.setActive(id, false, actor);
+  }
+
+  reactivateMemory(id: string, actor: string): StoredMemory {
+    return this.setActive(id, true, actor);
+  }
+
+  deleteMemory(id: string, actor: string): StoredMemory {
+    const memory = this.getMemory(id);
+    this.repository.transaction(() => {
+      this.repository.deleteMemory(memory.type, id);
+      this.event(memory, 'deleted', actor, 'deleted by an admin');
+      this.audit(actor, `deleted ${memory.type} memory ${id} (${describeMemory(memory)}, confidence ${'confidence' in memory ? memory.confidence.toFixed(2) : 'n/a'})`, [memory], { flags: { deleted: true } });
+    });
+    return memory;
+  }
+
+  //fold duplicates into the target: usage counts add up, the strongest confidence and latest use win, sources are deleted
+  mergeMemories(targetId: string, sourceIds: string[], actor: string): StoredMemory {
+    const target = this.getMemory(targetId), sources = sourceIds.map(id => this.getMemory(id));
+    if (!sources.length) throw new MemoryAdminError('Nothing to merge', 'invalid_merge');
+    for (const s of sources) {
+      if (s.id === target.id) throw new MemoryAdminError(`Cannot merge memory ${s.id} into itself`, 'invalid_merge');
+      if (!isDuplicate(target, s)) throw new MemoryAdminError(`${s.type} memory ${s.id} (${describeMemory(s)}) is not a duplicate of ${target.type} memory ${target.id} (${describeMemory(target)})`, 'invalid_merge');
+    }
+
+    this.repository.transaction(() => {
+      const combined = combineMemories(target, sources);
+      this.update(target, combined);
+      sources.forEach(s => this.repository.deleteMemory(s.type, s.id));
+      const confidence = 'confidence' in target ? { oldConfidence: target.confidence, newConfidence: combined['confidence'] as number } : {};
+      this.event(target, 'merged', actor, `absorbed ${sources.map(s => s.id).join(', ')}`, confidence);
+      sources.forEach(s => this.event(s, 'merged', actor, `merged into ${target.id}`));
+      this.audit(actor, `merged ${sources.map(s => s.id).join(', ')} into ${target.type} memory ${target.id} (${describeMemory(target)})`, [target, ...sources], { flags: { merged: true } });
+    });
+    return this.getMemory(targetId);
+  }
+
+  getLineage(id: string): MemoryLineage {
+    const memory = this.repository.findMemoryById(id), events = this.repository.findMemoryEvents(id);
+    if (!memory && !events.length) throw new MemoryAdminError(`No memory with id ${id}`, 'not_found');
+    const applications = this.repository.findAuditEntries({ memoryId: id, step: 'apply' }).flatMap(e => (e.payload?.changes ?? [])
+      .filter(c => c.memoryId === id && c.applied)
+      .map(c => ({ invoiceId: e.invoiceId, fieldName: c.fieldName, before: c.before, after: c.after, timestamp: e.timestamp })));
+    return { memoryId: id, ...(memory && { memory }), events, applications };
+  }
+
+  private setActive(id: string, isActive: boolean, actor: string): StoredMemory {
+    const memory = this.getMemory(id);
+    return this.repository.transaction(() => {
+      this.update(memory, { isActive, ...(isActive && memory.type !== 'resolution' && { consecutiveRejections: 0 }) });
+      this.event(memory, isActive ? 'reactivated' : 'deactivated', actor, `${isActive ? 'reactivated' : 'deactivated'} by an admin`);
+      this.audit(actor, `${isActive ? 'reactivated' : 'deactivated'} ${memory.type} memory ${id} (${describeMemory(memory)})`, [memory], { flags: { isActive } });
+      return this.getMemory(id);
+    });
+  }
+
+  private update(memory: StoredMemory, updates: Record<string, unknown>): void {
+    this.repository.updateMemory(memory.type, memory.id, updates);
+  }
+
+  private event(memory: StoredMemory, kind: MemoryEventKind, actor: string, details: string, confidence: Pick<MemoryEvent, 'oldConfidence' | 'newConfidence'> = {}): void {
+    this.repository.saveMemoryEvent({ memoryId: memory.id, memoryType: memory.type, kind, reviewer: actor, details, ...confidence });
+  }
+
+  //the payload names the memories changed and their vendor, so admin changes show up in memory and vendor queries
+  private audit(actor: string, details: string, memories: StoredMemory[], payload: AuditPayload = {}): void {
+    const vendorId = memoryVendor(memories[0]!);
+    const entry: AuditEntry = {
+      step: 'admin', timestamp: new Date().toISOString(), details: `${actor} ${details}`,
+      payload: { ...(vendorId && { vendorId }), memoryIds: memories.map(m => m.id), ...payload },
+    };
+    this.repository.saveAuditEntry({ ...entry, invoiceId: ADMIN_AUDIT_ID });
+  }
+}
+
+//labels are unique per vendor, so vendor duplicates only differ in case, spacing or punctuation
+const labelKey = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+//same kind and same learned key; the target's learned value wins
+export function isDuplicate(target: StoredMemory, source: StoredMemory): boolean {
+  if (target.type === 'vendor' && source.type === 'vendor') return target.vendorId === source.vendorId && labelKey(target.originalFieldName) === labelKey(source.originalFieldName);
+  if (target.type === 'correction' && source.type === 'correction') return target.vendorId === source.vendorId && target.fieldName === source.fieldName && target.originalValuePattern === source.originalValuePattern;
+  //the same description, as when vendors merge, or two descriptions for the same article
+  if (target.type === 'line_item' && source.type === 'line_item') return target.vendorId === source.vendorId && (target.descriptionKey === source.descriptionKey || describeLineValues(target) === describeLineValues(source));
+  if (target.type === 'expectation' && source.type === 'expectation') return target.vendorId === source.vendorId && target.aspect === source.aspect && target.valueKey === source.valueKey;
+  if (target.type === 'resolution' && source.type === 'resolution') return target.discrepancyType === source.discrepancyType && target.context['fingerprint'] === source.context['fingerprint'];
+  return false;
+}
+
+//the target's updates when duplicates are folded into it
+export function combineMemories(target: StoredMemory, sources: StoredMemory[]): Record<string, unknown> {
+  const lastUsedAt = new Date(Math.max(target.lastUsedAt.getTime(), ...sources.map(s => s.lastUsedAt.getTime())));
+  if (target.type === 'resolution') {
+    const rs = sources as (typeof target)[];
+    return { approvalCount: target.approvalCount + sum(rs.map(s => s.approvalCount)), rejectionCount: target.rejectionCount + sum(rs.map(s => s.rejectionCount)), lastUsedAt };
+  }
+  const ls = sources as (typeof target)[];
+  return {
+    confidence: Math.max(target.confidence, ...ls.map(s => s.confidence)), applicationCount: target.applicationCount + sum(ls.map(s => s.applicationCount)),
+    consecutiveRejections: Math.min(target.consecutiveRejections, ...ls.map(s => s.consecutiveRejections)), lastUsedAt,
+  };
+}
+
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+//the vendor a memory was learned for; global correction memories have none
+export function memoryVendor(m: StoredMemory): string | undefined {
+  return m.type === 'resolution' ? m.context['vendorId'] as string | undefined : m.vendorId ?? undefined;
+}
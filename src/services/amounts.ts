@@ -0,0 +1,16 @@
+//amounts as printed on invoices, shared by extraction, matching and validation
+
+//parse German and English formatted amounts ("2.380,00", "2,380.00", "2380.00")
+export function parseAmount(text: string): number | null {
+  let s = text.replace(/[.,]$/, '');
+  const lastComma = s.lastIndexOf(','), lastDot = s.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    s = lastComma > lastDot ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    s = /,\d{1,2}$/.test(s) ? s.replace(/,/g, (_, i: number) => i === lastComma ? '.' : '') : s.replace(/,/g, '');
+  } else if (lastDot >= 0 && !/\.\d{1,2}$/.test(s)) {
+    s = s.replace(/\./g, '');
+  }
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
@@ -1,14 +1,21 @@
 //applyService: Applies recalled memories to invoice data, extracts values, detects patterns
 //it is the intelligent layer that enhances invoice processing based on learned memories
-import type { Invoice, AuditEntry } from '../models/index.js';
+import type { Invoice, AuditEntry, AuditFieldChange, CorrectionSource, ExpectationAspect, PolicySettings, PurchaseOrder, VendorMemory } from '../models/index.js';
 import type { RecalledMemories } from './recall.js';
-import { mapConfidenceToAction, type ThresholdAction } from './confidence.js';
+import { mapConfidenceToAction, normalizeVendorName, type ThresholdAction } from './confidence.js';
+import { GLOBAL_POLICY, type PolicyResolver } from './policy.js';
+import { PatternDetectorRegistry } from './detectors.js';
+import { extractWithTemplate, describeTemplate } from './templates.js';
+import { matchesValuePattern, describeValuePattern } from './value-patterns.js';
+import { lineItemKey, lineItemField, lineItemsOf, lineItemChanges, describeLineValues } from './line-items.js';
+import { paymentTermsOf, paymentSchedule, describePaymentTerms } from './payment-terms.js';
+import { taxProfileOf, parseTaxBreakdown, describeTaxProfile } from './tax.js';
 
 
 //it is traceability metadata.
 export interface AppliedMemory {
   memoryId: string;
-  memoryType: 'vendor' | 'correction' | 'resolution';
+  memoryType: 'vendor' | 'correction' | 'line_item' | 'resolution';
   fieldName: string;
   action: ThresholdAction;
   confidence: number;
@@ -20,14 +27,21 @@ export interface ProposedCorrection {
   fieldName: string;
   currentValue: unknown;
   suggestedValue: unknown;
+  source: CorrectionSource;
   memoryId: string;
   confidence: number;
   reasoning: string;
 }
 
+//built-in and pipeline pattern types; registered detectors add their own
+export type PatternType = 'tax_inclusive' | 'skonto' | 'currency_recovery' | 'sku_mapping' | 'po_match' | 'payment_terms_deviation' | 'tax_treatment_deviation'
+  | 'reverse_charge' | 'intra_community_supply' | 'tax_breakdown_mismatch' | 'line_tax_mismatch' | 'reverse_charge_tax'
+  | 'quantity_mismatch' | 'partial_delivery' | 'missing_delivery_note'
+  | 'totals_mismatch' | 'tax_calculation_mismatch' | 'line_sum_mismatch' | (string & {});
+
 //detected patterns during application phase
 export interface DetectedPattern {
-  type: 'tax_inclusive' | 'skonto' | 'currency_recovery' | 'sku_mapping' | 'po_match';
+  type: PatternType;
   details: Record<string, unknown>;
   fieldName?: string;
   suggestedAction?: string;
@@ -46,67 +60,157 @@ export interface ApplyResult {
 }
 
 export interface IApplyService {
-  applyMemories(invoice: Invoice, memories: RecalledMemories): ApplyResult;
+  applyMemories(invoice: Invoice, memories: RecalledMemories, policyFor?: PolicyResolver): ApplyResult;
 }
 
-//german invoice field extraction patterns
-//it converts field-mapping memory into actual value extraction
+//german invoice field extraction patterns for vendor memories learned without a template
 const FIELD_PATTERNS: Record<string, RegExp[]> = {
   'Leistungsdatum': [/Leistungsdatum[:\s]*(\d{2}\.\d{2}\.\d{4})/i, /Leistungsdatum[:\s]*(\d{4}-\d{2}-\d{2})/i],
   'Rechnungsdatum': [/Rechnungsdatum[:\s]*(\d{2}\.\d{2}\.\d{4})/i],
   'Bestellnummer': [/Bestellnr[.:]?\s*(PO-[A-Z]-\d+)/i, /PO[:\s#]*(PO-[A-Z]-\d+)/i],
 };
 
+//the field each expectation aspect is checked on, and how a deviation reads
+const EXPECTATIONS: Record<ExpectationAspect, { fieldName: string; describe: (actual: string, usual: string) => string }> = {
+  payment_terms: { fieldName: 'paymentTerms', describe: (actual, usual) => `Payment terms "${actual}" differ from the vendor's usual "${usual}"` },
+  tax_treatment: { fieldName: 'taxTreatment', describe: (actual, usual) => `Tax treatment "${actual}" differs from the vendor's usual "${usual}"` },
+};
+
 export class ApplyService implements IApplyService {
-  applyMemories(invoice: Invoice, memories: RecalledMemories): ApplyResult {
+  constructor(private detectors: PatternDetectorRegistry = new PatternDetectorRegistry()) {}
+
+  //policyFor: thresholds per vendor and field, the global config by default
+  applyMemories(invoice: Invoice, memories: RecalledMemories, policyFor: PolicyResolver = GLOBAL_POLICY): ApplyResult {
+    const vendorId = normalizeVendorName(invoice.vendorId);
     const normalized: Record<string, unknown> = Object.fromEntries(Object.entries(invoice.fields).map(([k, v]) => [k, v.value]));
     const applied: AppliedMemory[] = [], corrections: ProposedCorrection[] = [], patterns: DetectedPattern[] = [];
+    const changes: AuditFieldChange[] = [], thresholds: Record<string, Partial<PolicySettings>> = {};
+    const policy = (fieldName: string) => {
+      const p = policyFor(vendorId, fieldName);
+      thresholds[fieldName] = { autoApplyThreshold: p.autoApplyThreshold, suggestionThreshold: p.suggestionThreshold };
+      return p;
+    };
 
     //apply vendor memories
     for (const vm of memories.vendorMemories) {
-      const action = mapConfidenceToAction(vm.confidence);
+      const action = mapConfidenceToAction(vm.effectiveConfidence, policy(vm.normalizedFieldName));
       const current = normalized[vm.normalizedFieldName];
-      const extracted = current == null ? this.extractValue(invoice.rawText, vm.originalFieldName, vm.normalizedFieldName) : null;
+      const extracted = current == null ? this.extractValue(invoice.rawText, vm) : null;
 
-      if (extracted && action === 'auto_applied') normalized[vm.normalizedFieldName] = extracted;
-      else if (extracted) {
+      if (extracted && action === 'auto_applied') {
+        normalized[vm.normalizedFieldName] = extracted;
+        changes.push({ fieldName: vm.normalizedFieldName, before: current, after: extracted, memoryId: vm.id, applied: true });
+      } else if (extracted) {
         corrections.push({
           fieldName: vm.normalizedFieldName, currentValue: current, suggestedValue: extracted,
-          memoryId: vm.id, confidence: vm.confidence,
-          reasoning: `${action === 'flagged' ? '[LOW CONFIDENCE] ' : ''}Vendor memory: "${vm.originalFieldName}" → "${vm.normalizedFieldName}" extracted "${extracted}"`,
+          source: 'memory', memoryId: vm.id, confidence: vm.effectiveConfidence,
+          reasoning: `${action === 'flagged' ? '[LOW CONFIDENCE] ' : ''}Vendor memory: "${vm.originalFieldName}" → "${vm.normalizedFieldName}" extracted "${extracted}"${vm.template ? ` via template ${describeTemplate(vm.template)}` : ''}`,
         });
       }
-      applied.push({ memoryId: vm.id, memoryType: 'vendor', fieldName: vm.normalizedFieldName, action, confidence: vm.confidence, extractedValue: extracted ?? undefined });
+      if (extracted && action !== 'auto_applied') changes.push({ fieldName: vm.normalizedFieldName, before: current, after: extracted, memoryId: vm.id, applied: false });
+      applied.push({ memoryId: vm.id, memoryType: 'vendor', fieldName: vm.normalizedFieldName, action, confidence: vm.effectiveConfidence, extractedValue: extracted ?? undefined });
     }
 
-    //apply correction memories
+    //apply correction memories whose value pattern matches what the invoice has now
+    let unmatched = 0;
     for (const cm of memories.correctionMemories) {
-      const action = mapConfidenceToAction(cm.confidence);
+      const before = normalized[cm.fieldName], pattern = cm.originalValuePattern;
+      if (!matchesValuePattern(pattern, before)) { unmatched++; continue; }
+      const action = mapConfidenceToAction(cm.effectiveConfidence, policy(cm.fieldName));
       if (action === 'auto_applied') normalized[cm.fieldName] = cm.correctedValue;
-      else if (action === 'suggested') {
+      if (action === 'auto_applied' || action === 'suggested') changes.push({ fieldName: cm.fieldName, before, after: cm.correctedValue, memoryId: cm.id, pattern, applied: action === 'auto_applied' });
+      if (action === 'suggested') {
         corrections.push({
           fieldName: cm.fieldName, currentValue: normalized[cm.fieldName], suggestedValue: cm.correctedValue,
-          memoryId: cm.id, confidence: cm.confidence, reasoning: `Correction memory suggests "${cm.correctedValue}"`,
+          source: 'memory', memoryId: cm.id, confidence: cm.effectiveConfidence, reasoning: `Correction memory suggests "${cm.correctedValue}" (${describeValuePattern(pattern)} matched)`,
         });
       }
-      applied.push({ memoryId: cm.id, memoryType: 'correction', fieldName: cm.fieldName, action, confidence: cm.confidence, extractedValue: cm.correctedValue });
+      applied.push({ memoryId: cm.id, memoryType: 'correction', fieldName: cm.fieldName, action, confidence: cm.effectiveConfidence, extractedValue: cm.correctedValue });
+    }
+
+    //apply line item memories line by line, matched on the line's description; changes are per line index
+    const lineMemories = new Map(memories.lineItemMemories.map(m => [m.descriptionKey, m]));
+    if (lineMemories.size && Array.isArray(normalized['lineItems'])) {
+      const lines = lineItemsOf(normalized['lineItems']).map(line => ({ ...line }));
+      lines.forEach((line, index) => {
+        const lm = line.description ? lineMemories.get(lineItemKey(line.description)) : undefined, proposed = lm ? lineItemChanges(line, lm) : [];
+        if (!lm || !proposed.length) return;
+        const action = mapConfidenceToAction(lm.effectiveConfidence, policy('lineItems'));
+        for (const { property, before, after } of proposed) {
+          const fieldName = lineItemField(index, property);
+          if (action === 'auto_applied') Object.assign(line, { [property]: after });
+          else {
+            corrections.push({
+              fieldName, currentValue: before, suggestedValue: after, source: 'memory', memoryId: lm.id, confidence: lm.effectiveConfidence,
+              reasoning: `${action === 'flagged' ? '[LOW CONFIDENCE] ' : ''}Line item memory: "${lm.description}" → ${describeLineValues(lm)}`,
+            });
+          }
+          changes.push({ fieldName, before, after, memoryId: lm.id, applied: action === 'auto_applied' });
+        }
+        applied.push({ memoryId: lm.id, memoryType: 'line_item', fieldName: lineItemField(index), action, confidence: lm.effectiveConfidence, extractedValue: Object.fromEntries(proposed.map(p => [p.property, p.after])) });
+      });
+      normalized['lineItems'] = lines;
     }
 
-    this.detectPatterns(invoice, patterns, normalized);
+    //detectors fill empty fields in place
+    const beforeDetection = { ...normalized }, detected = this.detectors.detect(invoice, normalized);
+    patterns.push(...detected.patterns);
+    corrections.push(...detected.proposedCorrections);
+    for (const [fieldName, after] of Object.entries(normalized)) {
+      if (after !== beforeDetection[fieldName]) changes.push({ fieldName, before: beforeDetection[fieldName] ?? null, after, applied: true });
+    }
+
+    const write = (fieldName: string, after: unknown) => {
+      if (JSON.stringify(after) !== JSON.stringify(normalized[fieldName])) changes.push({ fieldName, before: normalized[fieldName] ?? null, after, applied: true });
+      normalized[fieldName] = after;
+    };
+    //payment terms become structured fields with due dates and the Skonto amount
+    const terms = paymentTermsOf(invoice, normalized);
+    if (terms) Object.entries(paymentSchedule(terms, invoice.invoiceDate, normalized['grossTotal'])).forEach(([fieldName, after]) => write(fieldName, after));
+    //the tax treatment is recorded and a printed breakdown normalized to decimal rates
+    const tax = taxProfileOf(invoice, normalized), breakdown = parseTaxBreakdown(normalized['taxBreakdown']);
+    if (tax) write('taxTreatment', tax.treatment);
+    if (breakdown) write('taxBreakdown', breakdown);
+
+    //both are checked against what the vendor's invoices usually say
+    for (const [aspect, actual] of [['payment_terms', terms && describePaymentTerms(terms)], ['tax_treatment', tax && describeTaxProfile(tax)]] as const) {
+      const deviation = actual ? this.checkExpectation(memories, aspect, actual, policy) : null;
+      if (deviation) patterns.push(deviation);
+    }
 
     return {
       appliedResult: { normalizedInvoice: normalized, appliedMemories: applied, proposedCorrections: corrections },
       detectedPatterns: patterns,
       auditEntry: {
         step: 'apply', timestamp: new Date().toISOString(),
-        details: `Applied ${applied.length} memories, ${corrections.length} corrections proposed${patterns.length ? `, patterns: ${patterns.map(p => p.type).join(', ')}` : ''}`,
+        details: `Applied ${applied.length} memories, ${corrections.length} corrections proposed${unmatched ? `, ${unmatched} correction memories skipped (pattern did not match)` : ''}${patterns.length ? `, patterns: ${patterns.map(p => p.type).join(', ')}` : ''}`,
+        payload: {
+          vendorId, memoryIds: applied.map(m => m.memoryId), fields: [...new Set([...changes, ...corrections].map(c => c.fieldName))],
+          changes: [...changes, ...detected.proposedCorrections.map(c => ({ fieldName: c.fieldName, before: c.currentValue, after: c.suggestedValue, applied: false }))],
+          thresholds, patterns: patterns.map(p => p.type),
+        },
       },
     };
   }
 
+  //only confident expectations count: a value the vendor used once is neither usual nor a deviation
+  private checkExpectation(memories: RecalledMemories, aspect: ExpectationAspect, actual: string, policy: (fieldName: string) => PolicySettings): DetectedPattern | null {
+    const { fieldName, describe } = EXPECTATIONS[aspect], { suggestionThreshold } = policy(fieldName);
+    const expected = memories.expectationMemories.filter(m => m.aspect === aspect && m.effectiveConfidence >= suggestionThreshold), usual = expected[0];
+    if (!usual || expected.some(m => m.valueKey === actual)) return null;
+    return {
+      type: `${aspect}_deviation`, fieldName,
+      details: { expected: usual.valueKey, actual, memoryId: usual.id, confidence: usual.effectiveConfidence },
+      suggestedAction: `${describe(actual, usual.valueKey)} (memory: ${usual.id}, confidence: ${usual.effectiveConfidence.toFixed(2)})`,
+    };
+  }
+
   //Vendor memory → actual learning impact
-  private extractValue(rawText: string | undefined, originalField: string, normalizedField: string): string | null {
+  //a learned template knows the vendor's layout; FIELD_PATTERNS and the generic label regex cover memories without one
+  private extractValue(rawText: string | undefined, vm: VendorMemory): unknown {
     if (!rawText) return null;
+    if (vm.template) return extractWithTemplate(rawText, vm.template);
+    const { originalFieldName: originalField, normalizedFieldName: normalizedField } = vm;
     for (const pattern of FIELD_PATTERNS[originalField] || []) {
       const match = rawText.match(pattern);
       if (match?.[1]) return this.normalizeValue(match[1], normalizedField);
@@ -123,45 +227,10 @@ export class ApplyService implements IApplyService {
     }
     return value.trim();
   }
-
-  private detectPatterns(invoice: Invoice, patterns: DetectedPattern[], normalized: Record<string, unknown>): void {
-    const text = invoice.rawText?.toLowerCase() || '';
-
-    //currency recovery
-    if (!normalized['currency']) {
-      const m = text.match(/\b(eur|usd|chf|gbp)\b/i);
-      if (m?.[1]) {
-        const currency = m[1].toUpperCase();
-        normalized['currency'] = currency;
-        patterns.push({ type: 'currency_recovery', details: { recovered: currency }, fieldName: 'currency', suggestedAction: `Recovered currency ${currency}` });
-      }
-    }
-
-    //skonto detection
-    if (text.includes('skonto') || /\d+%\s*(bei|within|innerhalb)/i.test(text)) {
-      const m = text.match(/(\d+(?:[.,]\d+)?)\s*%\s*(?:skonto|bei|within|innerhalb)/i);
-      patterns.push({ type: 'skonto', details: { percentage: m?.[1] || 'unknown' }, suggestedAction: `Skonto terms detected: ${m?.[1] || '?'}%` });
-    }
-
-    //SKU mapping
-    if (/seefracht|shipping|freight/i.test(text)) {
-      patterns.push({ type: 'sku_mapping', details: { suggestedSku: 'FREIGHT' }, fieldName: 'sku', suggestedAction: 'SKU mapping: Seefracht/Shipping → FREIGHT' });
-    }
-
-    //tax inclusive
-    if (/incl\. vat|mwst\. inkl|inkl\. mwst/.test(text)) {
-      patterns.push({ type: 'tax_inclusive', details: { textIndicator: true }, suggestedAction: 'Tax inclusive indicator found - verify amounts' });
-    }
-  }
 }
 
 //PO Matching Service
-export interface PurchaseOrder {
-  poNumber: string;
-  vendor: string;
-  date: Date;
-  lineItems: { sku: string; qty: number; unitPrice: number }[];
-}
+export type { PurchaseOrder } from '../models/index.js';
 
 export interface POMatchResult {
   matchedPO: PurchaseOrder | null;
@@ -172,17 +241,24 @@ export interface POMatchResult {
 export class POMatchingService {
   private orders: PurchaseOrder[] = [];
 
+  //vendorOf: canonical vendor id of the name on a PO
+  constructor(private vendorOf: (name: string) => string = normalizeVendorName) {}
+
   setPurchaseOrders(orders: PurchaseOrder[]): void { this.orders = orders; }
 
+  findByNumber(poNumber: string): PurchaseOrder | null {
+    return this.orders.find(po => po.poNumber === poNumber) ?? null;
+  }
+
   findMatchingPO(invoice: { vendorId: string; invoiceDate: Date; fields: Record<string, { value: unknown }> }): POMatchResult {
-    const vendor = invoice.vendorId.toLowerCase().trim();
+    const vendor = normalizeVendorName(invoice.vendorId);
     const lineItems = invoice.fields['lineItems']?.value as Array<{ sku: string | null; qty: number }> | undefined;
 
     let best: PurchaseOrder | null = null, bestScore = 0;
     const reasons: string[] = [];
 
     for (const po of this.orders) {
-      if (po.vendor.toLowerCase().trim() !== vendor) continue;
+      if (this.vendorOf(po.vendor) !== vendor) continue;
 
       let score = 0.3;
       const r = ['Vendor match'];
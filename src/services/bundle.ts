@@ -0,0 +1,189 @@
+//MemoryBundleService: moves learned memories between instances as versioned JSON bundles
+//it answers: how does staging learn what production learned, and how do we back it up?
+import { createHash } from 'crypto';
+import type { VendorMemory, CorrectionMemory, LineItemMemory, ExpectationMemory, ResolutionMemory, MemoryType, StoredMemory, AuditEntry } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import { VendorRegistryService } from './vendors.js';
+import { ADMIN_AUDIT_ID, describeMemory } from './admin.js';
+
+export const BUNDLE_FORMAT = 'learned-memory-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface BundleMemories {
+  vendor: VendorMemory[];
+  correction: CorrectionMemory[];
+  //line item and expectation memories are absent in bundles written before they existed
+  line_item: LineItemMemory[];
+  expectation: ExpectationMemory[];
+  resolution: ResolutionMemory[];
+}
+
+//checksum is the sha256 of JSON.stringify(memories)
+export interface MemoryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  vendorId?: string;
+  checksum: string;
+  memories: BundleMemories;
+}
+
+export class BundleError extends Error {
+  constructor(message: string, public readonly reason: 'invalid_bundle' | 'unsupported_version' | 'checksum_mismatch') {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+//what to do when an imported memory already exists (same id or same learned key)
+//higher_confidence compares confidence, or the number of decisions for resolution memories
+export type ImportStrategy = 'skip' | 'overwrite' | 'higher_confidence';
+export const IMPORT_STRATEGIES: readonly ImportStrategy[] = ['skip', 'overwrite', 'higher_confidence'];
+
+export interface ImportChange {
+  type: MemoryType;
+  id: string;
+  action: 'create' | 'overwrite' | 'skip';
+  memory: string;
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  strategy: ImportStrategy;
+  created: number;
+  overwritten: number;
+  skipped: number;
+  changes: ImportChange[];
+}
+
+export interface ImportOptions {
+  strategy?: ImportStrategy;
+  dryRun?: boolean;
+  actor?: string;
+}
+
+export interface IMemoryBundleService {
+  exportBundle(vendorId?: string): MemoryBundle;
+  importBundle(input: unknown, options?: ImportOptions): ImportReport;
+}
+
+export class MemoryBundleService implements IMemoryBundleService {
+  private vendors: VendorRegistryService;
+
+  constructor(private repository: IMemoryRepository) {
+    this.vendors = new VendorRegistryService(repository);
+  }
+
+  //every memory, inactive ones included, so the bundle doubles as a backup
+  exportBundle(vendorId?: string): MemoryBundle {
+    const vendor = vendorId === undefined ? undefined : this.vendors.lookup(vendorId);
+    const stored = this.repository.findMemories({ ...(vendor !== undefined && { vendorId: vendor }) }).items;
+    const memories: BundleMemories = {
+      vendor: stored.flatMap(m => m.type === 'vendor' ? [untag(m)] : []),
+      correction: stored.flatMap(m => m.type === 'correction' ? [untag(m)] : []),
+      line_item: stored.flatMap(m => m.type === 'line_item' ? [untag(m)] : []),
+      expectation: stored.flatMap(m => m.type === 'expectation' ? [untag(m)] : []),
+      resolution: stored.flatMap(m => m.type === 'resolution' ? [untag(m)] : []),
+    };
+    return {
+      format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(),
+      ...(vendor !== undefined && { vendorId: vendor }), checksum: checksum(memories), memories,
+    };
+  }
+
+  //plan every change first; a dry run returns the plan without writing
+  importBundle(input: unknown, options: ImportOptions = {}): ImportReport {
+    const bundle = parseBundle(input), strategy = options.strategy ?? 'skip', dryRun = options.dryRun ?? false;
+
+    const byId = new Map<string, StoredMemory>(), byKey = new Map<string, StoredMemory>();
+    const remember = (m: StoredMemory) => { byId.set(m.id, m); byKey.set(learnedKey(m), m); };
+    this.repository.findMemories({}).items.forEach(remember);
+
+    const plan: { change: ImportChange; incoming: StoredMemory; target?: StoredMemory }[] = [];
+    const incoming: StoredMemory[] = [
+      ...bundle.memories.vendor.map(m => ({ ...m, type: 'vendor' as const })),
+      ...bundle.memories.correction.map(m => ({ ...m, type: 'correction' as const })),
+      ...bundle.memories.line_item.map(m => ({ ...m, type: 'line_item' as const })),
+      ...bundle.memories.expectation.map(m => ({ ...m, type: 'expectation' as const })),
+      ...bundle.memories.resolution.map(m => ({ ...m, type: 'resolution' as const })),
+    ];
+    for (const m of incoming) {
+      const current = byId.get(m.id) ?? byKey.get(learnedKey(m)), change = { type: m.type, id: m.id, memory: describeMemory(m) };
+      if (!current) { plan.push({ change: { ...change, action: 'create' }, incoming: m }); remember(m); continue; }
+      if (current.type !== m.type) { plan.push({ change: { ...change, action: 'skip', reason: `id is used by ${current.type} memory` }, incoming: m }); continue; }
+
+      const existing = current.id === m.id ? 'same id exists' : `conflicts with ${current.id}`;
+      const wins = strategy === 'overwrite' || (strategy === 'higher_confidence' && strength(m) > strength(current));
+      const reason = strategy === 'higher_confidence' ? `${existing}, ${describeStrength(m)} vs ${describeStrength(current)}` : existing;
+      plan.push({ change: { ...change, id: current.id, action: wins ? 'overwrite' : 'skip', reason }, incoming: m, target: current });
+    }
+
+    const changes = plan.map(p => p.change);
+    const report: ImportReport = {
+      dryRun, strategy, changes,
+      created: changes.filter(c => c.action === 'create').length,
+      overwritten: changes.filter(c => c.action === 'overwrite').length,
+      skipped: changes.filter(c => c.action === 'skip').length,
+    };
+    if (dryRun) return report;
+
+    const reviewer = options.actor ?? 'import', source = `bundle exported ${bundle.exportedAt}`;
+    this.repository.transaction(() => {
+      for (const { change, incoming: m, target } of plan) {
+        const confidence = (x: StoredMemory | undefined) => x && 'confidence' in x ? x.confidence : undefined;
+        const event = { memoryType: m.type, reviewer, ...(confidence(m) !== undefined && { newConfidence: confidence(m)! }) };
+        //the learned key and creation time stay with the existing memory
+        if (change.action === 'create') {
+          this.repository.saveMemory(m);
+          this.repository.saveMemoryEvent({ ...event, memoryId: m.id, kind: 'created', details: `imported from ${source}` });
+        } else if (change.action === 'overwrite' && target) {
+          this.repository.updateMemory(target.type, target.id, { ...m, id: target.id });
+          this.repository.saveMemoryEvent({ ...event, memoryId: target.id, kind: 'edited', ...(confidence(target) !== undefined && { oldConfidence: confidence(target)! }), details: `overwritten from ${source}` });
+        }
+      }
+    });
+    const entry: AuditEntry = {
+      step: 'admin', timestamp: new Date().toISOString(),
+      details: `${options.actor ?? 'import'} imported memory bundle exported ${bundle.exportedAt}${bundle.vendorId ? ` for ${bundle.vendorId}` : ''} (${strategy}): ${report.created} created, ${report.overwritten} overwritten, ${report.skipped} skipped`,
+      payload: { ...(bundle.vendorId && { vendorId: bundle.vendorId }), memoryIds: plan.filter(p => p.change.action !== 'skip').map(p => p.target?.id ?? p.incoming.id) },
+    };
+    this.repository.saveAuditEntry({ ...entry, invoiceId: ADMIN_AUDIT_ID });
+    return report;
+  }
+}
+
+const untag = <T extends StoredMemory>({ type: _type, ...m }: T): Omit<T, 'type'> => m;
+
+const checksum = (memories: unknown) => createHash('sha256').update(JSON.stringify(memories)).digest('hex');
+
+//vendor memories use the UNIQUE(vendor_id, original_field_name) key, the others their natural key
+function learnedKey(m: StoredMemory): string {
+  if (m.type === 'vendor') return `vendor|${m.vendorId}|${m.originalFieldName}`;
+  if (m.type === 'correction') return `correction|${m.vendorId ?? '*'}|${m.fieldName}|${m.originalValuePattern}`;
+  if (m.type === 'line_item') return `line_item|${m.vendorId}|${m.descriptionKey}`;
+  if (m.type === 'expectation') return `expectation|${m.vendorId}|${m.aspect}|${m.valueKey}`;
+  return `resolution|${m.discrepancyType}|${String(m.context['fingerprint'] ?? '')}`;
+}
+
+const strength = (m: StoredMemory) => m.type === 'resolution' ? m.approvalCount + m.rejectionCount : m.confidence;
+const describeStrength = (m: StoredMemory) => m.type === 'resolution' ? `${strength(m)} decisions` : `confidence ${m.confidence.toFixed(2)}`;
+
+//validate format, version and checksum, then revive dates
+export function parseBundle(input: unknown): MemoryBundle {
+  const b = input as Partial<MemoryBundle> | null;
+  if (typeof b !== 'object' || b === null || b.format !== BUNDLE_FORMAT) throw new BundleError(`Not a ${BUNDLE_FORMAT} file`, 'invalid_bundle');
+  if (typeof b.version !== 'number' || b.version > BUNDLE_VERSION) throw new BundleError(`Bundle version ${String(b.version)} is not supported (max ${BUNDLE_VERSION})`, 'unsupported_version');
+  const raw = b.memories;
+  if (!raw || !Array.isArray(raw.vendor) || !Array.isArray(raw.correction) || !Array.isArray(raw.resolution) || !Array.isArray(raw.line_item ?? []) || !Array.isArray(raw.expectation ?? [])) throw new BundleError('Bundle memories must list vendor, correction and resolution memories', 'invalid_bundle');
+  if (b.checksum !== checksum(raw)) throw new BundleError('Bundle checksum does not match its contents', 'checksum_mismatch');
+
+  const revive = <T extends { id: string; createdAt: Date; lastUsedAt: Date; decayedAt?: Date }>(m: T): T => {
+    if (typeof m !== 'object' || m === null || typeof m.id !== 'string') throw new BundleError('Every bundled memory needs an id', 'invalid_bundle');
+    return { ...m, createdAt: new Date(m.createdAt), lastUsedAt: new Date(m.lastUsedAt), ...(m.decayedAt && { decayedAt: new Date(m.decayedAt) }) };
+  };
+  return {
+    format: BUNDLE_FORMAT, version: b.version, exportedAt: String(b.exportedAt), ...(b.vendorId && { vendorId: b.vendorId }), checksum: b.checksum,
+    memories: { vendor: raw.vendor.map(revive), correction: raw.correction.map(revive), line_item: (raw.line_item ?? []).map(revive), expectation: (raw.expectation ?? []).map(revive), resolution: raw.resolution.map(revive) },
+  };
+}
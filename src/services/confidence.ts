@@ -1,29 +1,35 @@
 //confidence math: reinforcement, penalty, decay, and threshold-based actions
 //given how confident the system is, what is it allowed to do?
-import { CONFIDENCE_CONFIG } from '../models/index.js';
+import { CONFIDENCE_CONFIG, type PolicySettings } from '../models/index.js';
 
 export type ThresholdAction = 'auto_applied' | 'suggested' | 'flagged';
 
 //increase confidence on approval (diminishing returns near max)
 //it prevent bad learnings from dominating
-export function applyReinforcement(confidence: number): number {
-  const { reinforcementFactor, maxConfidence } = CONFIDENCE_CONFIG;
-  return Math.min(confidence + reinforcementFactor * (1 - confidence), maxConfidence);
+//policy: the vendor/field confidence policy, the global config by default
+export function applyReinforcement(confidence: number, policy: PolicySettings = CONFIDENCE_CONFIG): number {
+  return Math.min(confidence + policy.reinforcementFactor * (1 - confidence), CONFIDENCE_CONFIG.maxConfidence);
 }
 
 //decrease confidence on rejection
-export function applyPenalty(confidence: number): number {
-  return Math.max(confidence * CONFIDENCE_CONFIG.rejectionPenaltyFactor, 0);
+export function applyPenalty(confidence: number, policy: PolicySettings = CONFIDENCE_CONFIG): number {
+  return Math.max(confidence * policy.rejectionPenaltyFactor, 0);
 }
 
-//decay confidence over time (unused memories become less reliable), eeded to keep the system up to dated
+//decay confidence over time (unused memories become less reliable): halved every decayHalfLifeDays
 export function applyDecay(confidence: number, daysSinceLastUse: number): number {
-  return confidence * Math.exp(-daysSinceLastUse / CONFIDENCE_CONFIG.decayHalfLifeDays);
+  return confidence * 0.5 ** (Math.max(daysSinceLastUse, 0) / CONFIDENCE_CONFIG.decayHalfLifeDays);
+}
+
+//confidence as of now: decayed from the last time the memory was used (or last written back by maintenance)
+export function getEffectiveConfidence(memory: { confidence: number; lastUsedAt: Date; decayedAt?: Date }, now: Date = new Date()): number {
+  const since = Math.max(memory.lastUsedAt.getTime(), memory.decayedAt?.getTime() ?? 0);
+  return applyDecay(memory.confidence, (now.getTime() - since) / 864e5);
 }
 
 //map confidence to action: auto-apply, suggest, or flag for review
-export function mapConfidenceToAction(confidence: number): ThresholdAction {
-  const { autoApplyThreshold, suggestionThreshold } = CONFIDENCE_CONFIG;
+export function mapConfidenceToAction(confidence: number, policy: PolicySettings = CONFIDENCE_CONFIG): ThresholdAction {
+  const { autoApplyThreshold, suggestionThreshold } = policy;
   if (confidence >= autoApplyThreshold) return 'auto_applied';
   if (confidence >= suggestionThreshold) return 'suggested';
   return 'flagged';
@@ -1,14 +1,25 @@
 //DecisionService: Determines if invoice requires human review based on confidence and patterns
-import type { Invoice, AuditEntry } from '../models/index.js';
-import { CONFIDENCE_CONFIG } from '../models/index.js';
+import type { Invoice, AuditEntry, PolicySettings } from '../models/index.js';
 import type { AppliedResult, AppliedMemory, DetectedPattern } from './apply.js';
 import type { IMemoryRepository } from '../repository/memory-repository.js';
 import { normalizeVendorName } from './confidence.js';
-
-//duplicate detection metadata
+import { PatternDetectorRegistry } from './detectors.js';
+import { GLOBAL_POLICY, type PolicyResolver } from './policy.js';
+import { DuplicateDetectionService, type DuplicateCandidate } from './duplicates.js';
+import { buildContextFingerprint, resolveVerdict, approvalRate, type Discrepancy, type ResolutionVerdict } from './resolution.js';
+
+//pipeline patterns that always need a human: amounts may be wrong, goods were not (fully) received, or the invoice departs from what the vendor usually sends
+//detector patterns declare this themselves via forcesReview
+const REVIEW_PATTERNS = new Set<DetectedPattern['type']>([
+  'quantity_mismatch', 'missing_delivery_note', 'totals_mismatch', 'tax_calculation_mismatch', 'line_sum_mismatch', 'payment_terms_deviation',
+  'tax_breakdown_mismatch', 'line_tax_mismatch', 'reverse_charge_tax', 'tax_treatment_deviation',
+]);
+
+//duplicate detection metadata; ids and candidates best first, matchedFields are the top candidate's signals
 export interface DuplicateWarning {
   potentialDuplicateIds: string[];
   matchedFields: string[];
+  candidates: DuplicateCandidate[];
 }
 
 //final decision output structure
@@ -17,6 +28,7 @@ export interface Decision {
   overallConfidence: number;
   reasoning: string;
   flaggedFields: string[];
+  escalatedDiscrepancies: string[];
   duplicateWarning?: DuplicateWarning;
 }
 
@@ -28,23 +40,35 @@ export interface DecisionResult {
 
 //decision service contract
 export interface IDecisionService {
-  makeDecision(appliedResult: AppliedResult, invoice: Invoice, detectedPatterns: DetectedPattern[]): DecisionResult;
+  makeDecision(appliedResult: AppliedResult, invoice: Invoice, detectedPatterns: DetectedPattern[], policyFor?: PolicyResolver): DecisionResult;
 }
 
 //decisionService implementation
 export class DecisionService implements IDecisionService {
-  constructor(private repository: IMemoryRepository) {}
+  private duplicates: DuplicateDetectionService;
+
+  constructor(private repository: IMemoryRepository, private detectors: PatternDetectorRegistry = new PatternDetectorRegistry()) {
+    this.duplicates = new DuplicateDetectionService(repository);
+  }
 
-    //main decision logic for invoice processing
-  makeDecision(appliedResult: AppliedResult, invoice: Invoice, detectedPatterns: DetectedPattern[]): DecisionResult {
-    const flaggedFields: string[] = [], reasons: string[] = [];
+  //main decision logic for invoice processing
+  //policyFor: thresholds per vendor and field, the global config by default
+  makeDecision(appliedResult: AppliedResult, invoice: Invoice, detectedPatterns: DetectedPattern[], policyFor: PolicyResolver = GLOBAL_POLICY): DecisionResult {
+    const flaggedFields: string[] = [], reasons: string[] = [], escalated: string[] = [];
+    const vendorId = normalizeVendorName(invoice.vendorId), thresholds: Record<string, Partial<PolicySettings>> = {};
+    const policy = (fieldName: string) => {
+      const p = policyFor(vendorId, fieldName);
+      thresholds[fieldName] = { autoApplyThreshold: p.autoApplyThreshold, suggestionThreshold: p.suggestionThreshold };
+      return p;
+    };
     let requiresHumanReview = false;
 
     //duplicate detection
-    const duplicateWarning = this.checkForDuplicates(invoice);
+    const duplicateWarning = this.checkForDuplicates(invoice, appliedResult.normalizedInvoice);
     if (duplicateWarning) {
       requiresHumanReview = true;
-      reasons.push(`Potential duplicate: ${duplicateWarning.potentialDuplicateIds.join(', ')}`);
+      reasons.push(`Potential duplicate: ${duplicateWarning.candidates.map(c => `${c.invoiceId} (${c.score.toFixed(2)}: ${c.reasons.join(', ')})`).join('; ')}.`);
+      if (this.getResolutionVerdict(vendorId, { type: 'duplicate' }, reasons) === 'escalate') escalated.push('duplicate');
     }
 
     //low confidence fields
@@ -63,9 +87,9 @@ export class DecisionService implements IDecisionService {
     }
 
     //low confidence memories
-    const { autoApplyThreshold, suggestionThreshold } = CONFIDENCE_CONFIG;
     let highConfCount = 0;
     for (const mem of appliedResult.appliedMemories) {
+      const { autoApplyThreshold, suggestionThreshold } = policy(mem.fieldName);
       if (mem.confidence >= autoApplyThreshold) highConfCount++;
       else if (mem.confidence < suggestionThreshold && !flaggedFields.includes(mem.fieldName)) {
         requiresHumanReview = true;
@@ -82,40 +106,66 @@ export class DecisionService implements IDecisionService {
     //detected patterns
     for (const p of detectedPatterns) {
       if (p.suggestedAction) reasons.push(p.suggestedAction);
-      if (p.type === 'tax_inclusive') requiresHumanReview = true;
+      const verdict = this.getResolutionVerdict(vendorId, { type: p.type, ...(p.fieldName && { fieldName: p.fieldName }) }, reasons);
+      if (verdict === 'escalate') escalated.push(p.type);
+      const forcesReview = REVIEW_PATTERNS.has(p.type) || this.detectors.forcesReview(p.type);
+      if (verdict === 'escalate' || (forcesReview && verdict !== 'auto_approve')) {
+        requiresHumanReview = true;
+        const fields = p.fieldName ? [p.fieldName] : this.detectors.get(p.type)?.affectedFields ?? [];
+        fields.forEach(f => { if (!flaggedFields.includes(f)) flaggedFields.push(f); });
+      }
     }
 
     //calculate overall confidence score
-    const overallConfidence = this.calcOverallConfidence(invoice, appliedResult.appliedMemories);
+    const overallConfidence = this.calcOverallConfidence(invoice, appliedResult.appliedMemories, policy);
     const totalFields = Object.keys(invoice.fields).length;
     
     // Final decision summary
     if (!requiresHumanReview && highConfCount === totalFields && totalFields > 0) {
       reasons.unshift('All fields high confidence. Auto-accept recommended.');
     } else if (requiresHumanReview) {
-      reasons.unshift('Human review required.');
+      reasons.unshift(escalated.length ? `Escalation required: ${escalated.join(', ')} usually rejected.` : 'Human review required.');
     }
 
     return {
       decision: {
         requiresHumanReview, overallConfidence, reasoning: reasons.join(' '),
-        flaggedFields: [...new Set(flaggedFields)], ...(duplicateWarning && { duplicateWarning }),
+        flaggedFields: [...new Set(flaggedFields)], escalatedDiscrepancies: escalated, ...(duplicateWarning && { duplicateWarning }),
       },
       auditEntry: {
         step: 'decide', timestamp: new Date().toISOString(),
-        details: `Invoice ${invoice.id}: ${requiresHumanReview ? 'REVIEW' : 'AUTO'}, conf=${overallConfidence.toFixed(2)}`,
+        details: `Invoice ${invoice.id}: ${escalated.length ? 'ESCALATE' : requiresHumanReview ? 'REVIEW' : 'AUTO'}, conf=${overallConfidence.toFixed(2)}`,
+        payload: {
+          vendorId, memoryIds: appliedResult.appliedMemories.map(m => m.memoryId), fields: [...new Set(flaggedFields)],
+          thresholds, confidence: overallConfidence,
+          flags: { requiresHumanReview, duplicate: !!duplicateWarning, escalated: escalated.length > 0, proposedCorrections: appliedResult.proposedCorrections.length > 0 },
+          patterns: detectedPatterns.map(p => p.type),
+        },
       },
     };
   }
 
-  private checkForDuplicates(invoice: Invoice): DuplicateWarning | undefined {
-    const ids = this.repository.findPotentialDuplicates(
-      normalizeVendorName(invoice.vendorId), invoice.invoiceNumber, invoice.invoiceDate
-    ).filter(id => id !== invoice.id);
-    return ids.length ? { potentialDuplicateIds: ids, matchedFields: ['vendorId', 'invoiceNumber', 'invoiceDate'] } : undefined;
+  //look up how humans resolved this discrepancy for the vendor before
+  private getResolutionVerdict(vendorId: string, d: Discrepancy, reasons: string[]): ResolutionVerdict {
+    const fingerprint = buildContextFingerprint(vendorId, d);
+    const memory = this.repository.findResolutionMemories(d.type).find(m => m.context['fingerprint'] === fingerprint);
+    const verdict = resolveVerdict(memory);
+    if (memory && verdict !== 'undecided') {
+      const history = `${memory.approvalCount}/${memory.approvalCount + memory.rejectionCount} approved, ${(approvalRate(memory) * 100).toFixed(0)}%`;
+      reasons.push(verdict === 'auto_approve' ? `${d.type} previously always approved (${history}).` : `${d.type} previously rejected (${history}).`);
+    }
+    return verdict;
+  }
+
+  private checkForDuplicates(invoice: Invoice, normalized: Record<string, unknown>): DuplicateWarning | undefined {
+    const candidates = this.duplicates.findCandidates(invoice, normalized);
+    return candidates.length
+      ? { potentialDuplicateIds: candidates.map(c => c.invoiceId), matchedFields: [...candidates[0]!.matchedFields], candidates }
+      : undefined;
   }
 
-  private calcOverallConfidence(invoice: Invoice, memories: AppliedMemory[]): number {
+  //a field no memory matched counts just below its suggestion threshold
+  private calcOverallConfidence(invoice: Invoice, memories: AppliedMemory[], policy: (fieldName: string) => PolicySettings): number {
     const memConfMap = new Map<string, number>();
     for (const m of memories) {
       const existing = memConfMap.get(m.fieldName);
@@ -127,7 +177,7 @@ export class DecisionService implements IDecisionService {
       const memConf = memConfMap.get(name);
       confs.push(memConf !== undefined
         ? memConf * Math.min(field.extractionConfidence, 1)
-        : Math.min(field.extractionConfidence, CONFIDENCE_CONFIG.suggestionThreshold - 0.01));
+        : Math.min(field.extractionConfidence, policy(name).suggestionThreshold - 0.01));
     }
     return confs.length ? Math.max(0, Math.min(1, confs.reduce((a, b) => a + b, 0) / confs.length)) : 0;
   }
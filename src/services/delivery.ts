@@ -0,0 +1,102 @@
+//DeliveryNoteMatchingService: three-way matching of invoice ↔ PO ↔ delivery note
+//it answers: were the billed goods actually delivered?
+import type { DeliveryNote } from '../models/index.js';
+import type { DetectedPattern, PurchaseOrder } from './apply.js';
+import { normalizeVendorName } from './confidence.js';
+
+//billed vs delivered vs ordered quantity for one SKU
+export interface DeliveryLineCheck {
+  sku: string;
+  billedQty: number;
+  deliveredQty: number;
+  orderedQty: number | null;
+}
+
+export interface DeliveryMatchResult {
+  deliveryNotes: DeliveryNote[];
+  //true when the invoice names its delivery notes, so billed must equal what those delivered
+  referenced: boolean;
+  lineChecks: DeliveryLineCheck[];
+  unverifiedLines: number;
+}
+
+type MatchableInvoice = { vendorId: string; rawText?: string; fields: Record<string, { value: unknown }> };
+
+const lineItemsOf = (invoice: MatchableInvoice) => (invoice.fields['lineItems']?.value as Array<{ sku: string | null; qty: number }> | undefined) ?? [];
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class DeliveryNoteMatchingService {
+  private notes: DeliveryNote[] = [];
+
+  //vendorOf: canonical vendor id of the name on a delivery note
+  constructor(private vendorOf: (name: string) => string = normalizeVendorName) {}
+
+  setDeliveryNotes(notes: DeliveryNote[]): void { this.notes = notes; }
+
+  //three-way matching only runs once goods receipts have been provided
+  hasDeliveryNotes(): boolean { return this.notes.length > 0; }
+
+  //the delivery notes the invoice names (e.g. "Lieferschein DN-A-123"), else all booked against the PO,
+  //with delivered quantities summed per SKU
+  matchDeliveryNotes(invoice: MatchableInvoice, poNumber: string, po: PurchaseOrder | null): DeliveryMatchResult {
+    const vendor = normalizeVendorName(invoice.vendorId);
+    const booked = this.notes.filter(dn => this.vendorOf(dn.vendor) === vendor && dn.poNumber === poNumber);
+    const named = booked.filter(dn => new RegExp(`\\b${escapeRegex(dn.dnNumber)}\\b`, 'i').test(invoice.rawText ?? ''));
+    const notes = named.length ? named : booked;
+    const lineItems = lineItemsOf(invoice);
+
+    const delivered = new Map<string, number>();
+    for (const dn of notes) for (const li of dn.lineItems) delivered.set(li.sku, (delivered.get(li.sku) ?? 0) + li.qtyDelivered);
+
+    const billed = new Map<string, number>();
+    let unverifiedLines = 0;
+    for (const li of lineItems ?? []) {
+      if (li.sku) billed.set(li.sku, (billed.get(li.sku) ?? 0) + li.qty);
+      else unverifiedLines++;
+    }
+
+    const lineChecks: DeliveryLineCheck[] = [...billed].map(([sku, billedQty]) => ({
+      sku, billedQty, deliveredQty: delivered.get(sku) ?? 0,
+      orderedQty: po?.lineItems.filter(p => p.sku === sku).reduce((sum, p) => sum + p.qty, 0) ?? null,
+    }));
+
+    return { deliveryNotes: notes, referenced: named.length > 0, lineChecks, unverifiedLines };
+  }
+
+  //turn a three-way match into patterns: quantity_mismatch, partial_delivery, missing_delivery_note
+  detectPatterns(invoice: MatchableInvoice, poNumber: string | null, po: PurchaseOrder | null): DetectedPattern[] {
+    if (!poNumber) {
+      //services and fees carry no SKU and are never delivered; only goods need a receipt
+      if (!lineItemsOf(invoice).some(li => li.sku)) return [];
+      return [{ type: 'missing_delivery_note', fieldName: 'lineItems', details: { poNumber: null }, suggestedAction: 'No delivery note: invoice has no PO to match against' }];
+    }
+
+    const match = this.matchDeliveryNotes(invoice, poNumber, po);
+    if (!match.deliveryNotes.length) {
+      return [{ type: 'missing_delivery_note', fieldName: 'lineItems', details: { poNumber }, suggestedAction: `No delivery note found for ${poNumber}` }];
+    }
+
+    const patterns: DetectedPattern[] = [], dnNumbers = match.deliveryNotes.map(dn => dn.dnNumber);
+
+    //a PO delivered in parts is billed in parts: unless the invoice names its notes, only billing more than was delivered is a mismatch
+    const mismatched = match.lineChecks.filter(l => match.referenced ? l.billedQty !== l.deliveredQty : l.billedQty > l.deliveredQty);
+    if (mismatched.length) {
+      patterns.push({
+        type: 'quantity_mismatch', fieldName: 'lineItems',
+        details: { poNumber, deliveryNotes: dnNumbers, lines: mismatched.map(l => ({ ...l, difference: l.billedQty - l.deliveredQty })) },
+        suggestedAction: `Billed vs delivered quantity differs (${dnNumbers.join(', ')}): ${mismatched.map(l => `${l.sku} billed ${l.billedQty}, delivered ${l.deliveredQty}`).join('; ')}`,
+      });
+    }
+
+    const partial = match.lineChecks.filter(l => l.orderedQty !== null && l.deliveredQty < l.orderedQty);
+    if (partial.length) {
+      patterns.push({
+        type: 'partial_delivery', fieldName: 'lineItems',
+        details: { poNumber, deliveryNotes: dnNumbers, lines: partial },
+        suggestedAction: `Partial delivery on ${poNumber}: ${partial.map(l => `${l.sku} ${l.deliveredQty}/${l.orderedQty}`).join('; ')}`,
+      });
+    }
+
+    return patterns;
+  }
+}
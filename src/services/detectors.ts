@@ -0,0 +1,150 @@
+//PatternDetectorRegistry: the rule-based checks run over every invoice after memories are applied
+//built-ins cover currency, skonto, freight SKU, tax-inclusive, reverse charge and intra-community supply; callers can register their own (Kleinunternehmer, ...)
+import type { Invoice } from '../models/index.js';
+import type { DetectedPattern, ProposedCorrection } from './apply.js';
+import { lineItemField, lineItemsOf } from './line-items.js';
+import { parsePaymentTerms, describePaymentTerms } from './payment-terms.js';
+import { detectTaxTreatment, describeTaxTreatment, toRate } from './tax.js';
+
+//what a detector sees: the invoice, its lowercased raw text and the values after memory application
+export interface PatternDetectionContext {
+  invoice: Invoice;
+  text: string;
+  normalized: Readonly<Record<string, unknown>>;
+}
+
+//a detector's finding; type comes from the detector
+export interface PatternDetection {
+  details: Record<string, unknown>;
+  fieldName?: string;
+  suggestedAction?: string;
+  //values filled in directly, only where the field is still empty
+  recovered?: Record<string, unknown>;
+  //suggestions for a human, never applied automatically
+  //currentValue defaults to the normalized field's value
+  proposedCorrections?: { fieldName: string; currentValue?: unknown; suggestedValue: unknown; confidence: number; reasoning: string }[];
+}
+
+export interface PatternDetector {
+  type: string;
+  //whether a hit sends the invoice to review (unless humans always approved it for this vendor)
+  forcesReview: boolean;
+  //fields flagged for review when the pattern has no fieldName of its own
+  affectedFields: string[];
+  detect(context: PatternDetectionContext): PatternDetection | null;
+}
+
+export interface PatternDetectionResult {
+  patterns: DetectedPattern[];
+  proposedCorrections: ProposedCorrection[];
+}
+
+export const currencyDetector: PatternDetector = {
+  type: 'currency_recovery', forcesReview: false, affectedFields: ['currency'],
+  detect: ({ text, normalized }) => {
+    if (normalized['currency']) return null;
+    const m = text.match(/\b(eur|usd|chf|gbp)\b/i);
+    if (!m?.[1]) return null;
+    const currency = m[1].toUpperCase();
+    return { details: { recovered: currency }, fieldName: 'currency', suggestedAction: `Recovered currency ${currency}`, recovered: { currency } };
+  },
+};
+
+export const skontoDetector: PatternDetector = {
+  type: 'skonto', forcesReview: false, affectedFields: [],
+  detect: ({ text }) => {
+    const terms = parsePaymentTerms(text), first = terms?.discounts[0];
+    if (!terms || !first) return null;
+    return { details: { percentage: first.percentage, days: first.days, terms }, suggestedAction: `Skonto terms detected: ${describePaymentTerms(terms)}` };
+  },
+};
+
+//fallback for lines still without a SKU after line item memories, judged by the line's own description
+export const freightSkuDetector: PatternDetector = {
+  type: 'sku_mapping', forcesReview: false, affectedFields: ['lineItems'],
+  detect: ({ normalized }) => {
+    const lines = lineItemsOf(normalized['lineItems']).flatMap((line, index) => !line.sku && /seefracht|shipping|freight/i.test(line.description ?? '') ? [{ index, description: line.description! }] : []);
+    if (!lines.length) return null;
+    return {
+      details: { suggestedSku: 'FREIGHT', lines: lines.map(l => l.index) }, fieldName: 'lineItems',
+      suggestedAction: `SKU mapping: ${lines.map(l => `line ${l.index} "${l.description}"`).join(', ')} → FREIGHT`,
+      proposedCorrections: lines.map(l => ({ fieldName: lineItemField(l.index, 'sku'), currentValue: null, suggestedValue: 'FREIGHT', confidence: 0.5, reasoning: `"${l.description}" reads as freight` })),
+    };
+  },
+};
+
+//amounts may be net-labelled but gross; ValidationService recomputes them
+export const taxInclusiveDetector: PatternDetector = {
+  type: 'tax_inclusive', forcesReview: true, affectedFields: ['netTotal', 'taxTotal', 'grossTotal'],
+  detect: ({ text }) => /incl\. vat|mwst\. inkl|inkl\. mwst/.test(text)
+    ? { details: { textIndicator: true }, suggestedAction: 'Tax inclusive indicator found - verify amounts' }
+    : null,
+};
+
+//the recipient owes the VAT, so the invoice must not charge any; ValidationService checks taxTotal against 0
+const zeroRatedDetector = (type: 'reverse_charge' | 'intra_community_supply'): PatternDetector => ({
+  type, forcesReview: false, affectedFields: ['taxRate', 'taxTotal'],
+  detect: ({ text, normalized }) => {
+    if (detectTaxTreatment(text) !== type) return null;
+    const label = describeTaxTreatment(type), rate = toRate(normalized['taxRate']);
+    return {
+      details: { taxRate: normalized['taxRate'] ?? null }, suggestedAction: `${label[0]!.toUpperCase()}${label.slice(1)}: VAT is owed by the recipient`,
+      proposedCorrections: rate ? [{ fieldName: 'taxRate', suggestedValue: 0, confidence: 0.9, reasoning: `No VAT is charged on ${label} invoices` }] : [],
+    };
+  },
+});
+
+export const reverseChargeDetector = zeroRatedDetector('reverse_charge');
+export const intraCommunitySupplyDetector = zeroRatedDetector('intra_community_supply');
+
+export const BUILT_IN_DETECTORS: readonly PatternDetector[] = [currencyDetector, skontoDetector, freightSkuDetector, taxInclusiveDetector, reverseChargeDetector, intraCommunitySupplyDetector];
+
+export class PatternDetectorRegistry {
+  private detectors = new Map<string, PatternDetector>();
+
+  constructor(detectors: readonly PatternDetector[] = BUILT_IN_DETECTORS) {
+    detectors.forEach(d => this.register(d));
+  }
+
+  //a detector with the same type replaces the earlier one, so built-ins can be overridden
+  register(detector: PatternDetector): this {
+    this.detectors.set(detector.type, detector);
+    return this;
+  }
+
+  unregister(type: string): boolean {
+    return this.detectors.delete(type);
+  }
+
+  get(type: string): PatternDetector | undefined {
+    return this.detectors.get(type);
+  }
+
+  list(): PatternDetector[] {
+    return [...this.detectors.values()];
+  }
+
+  forcesReview(type: string): boolean {
+    return this.detectors.get(type)?.forcesReview ?? false;
+  }
+
+  //run in registration order; recovered values are visible to later detectors
+  detect(invoice: Invoice, normalized: Record<string, unknown>): PatternDetectionResult {
+    const text = invoice.rawText?.toLowerCase() || '';
+    const patterns: DetectedPattern[] = [], proposedCorrections: ProposedCorrection[] = [];
+
+    for (const detector of this.detectors.values()) {
+      const hit = detector.detect({ invoice, text, normalized });
+      if (!hit) continue;
+      for (const [field, value] of Object.entries(hit.recovered ?? {})) if (normalized[field] == null || normalized[field] === '') normalized[field] = value;
+      for (const c of hit.proposedCorrections ?? []) {
+        proposedCorrections.push({ currentValue: normalized[c.fieldName], ...c, source: 'detector', memoryId: `pattern-detector:${detector.type}` });
+      }
+      patterns.push({
+        type: detector.type, details: hit.details,
+        ...(hit.fieldName && { fieldName: hit.fieldName }), ...(hit.suggestedAction && { suggestedAction: hit.suggestedAction }),
+      });
+    }
+    return { patterns, proposedCorrections };
+  }
+}
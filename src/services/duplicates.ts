@@ -0,0 +1,112 @@
+//DuplicateDetectionService: scores earlier invoices against this one, signal by signal
+//catches reformatted numbers (INV-2024-001 vs INV2024001), new numbers for the same amount and date, and near-identical vendor names
+import { createHash } from 'crypto';
+import type { Invoice, ProcessedInvoice } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import { normalizeVendorName } from './confidence.js';
+import { parseAmount } from './amounts.js';
+import { vendorKey } from './vendors.js';
+
+export type DuplicateSignal = 'invoiceNumber' | 'vendorId' | 'grossTotal' | 'currency' | 'invoiceDate' | 'lineItems';
+
+export interface DuplicateCandidate {
+  invoiceId: string;
+  score: number;
+  matchedFields: DuplicateSignal[];
+  reasons: string[];
+}
+
+//weights add up past 1 on purpose: any two strong signals with the vendor cross the threshold
+//a candidate also needs the same number or a nearby date, or identical recurring invoices a month apart would match
+export const DUPLICATE_CONFIG = {
+  threshold: 0.5,
+  anchors: ['invoiceNumber', 'invoiceDate'] as readonly DuplicateSignal[],
+  windowDays: 60,
+  weights: { invoiceNumber: 0.45, vendorExact: 0.15, vendorSimilar: 0.1, grossTotal: 0.25, sameDay: 0.15, within3Days: 0.1, within7Days: 0.05, lineItems: 0.15 },
+  vendorSimilarity: 0.85,
+  amountTolerance: 0.01,
+};
+
+export interface IDuplicateDetectionService {
+  findCandidates(invoice: Invoice, normalized: Record<string, unknown>): DuplicateCandidate[];
+}
+
+export class DuplicateDetectionService implements IDuplicateDetectionService {
+  constructor(private repository: IMemoryRepository) {}
+
+  //ranked, best first; only candidates at or above the threshold with an anchor signal
+  findCandidates(invoice: Invoice, normalized: Record<string, unknown>): DuplicateCandidate[] {
+    const current = toProcessedInvoice(invoice, normalized), window = DUPLICATE_CONFIG.windowDays * 864e5;
+    return this.repository.findProcessedInvoices(new Date(current.invoiceDate.getTime() - window), new Date(current.invoiceDate.getTime() + window))
+      .filter(p => p.id !== invoice.id)
+      .map(p => scoreDuplicate(current, p))
+      .filter((c): c is DuplicateCandidate => c !== null && c.score >= DUPLICATE_CONFIG.threshold && c.matchedFields.some(f => DUPLICATE_CONFIG.anchors.includes(f)))
+      .sort((a, b) => b.score - a.score || a.invoiceId.localeCompare(b.invoiceId));
+  }
+}
+
+//null when the vendors differ: unrelated vendors share numbers and amounts all the time
+export function scoreDuplicate(current: ProcessedInvoice, earlier: ProcessedInvoice): DuplicateCandidate | null {
+  const w = DUPLICATE_CONFIG.weights, matched: DuplicateSignal[] = [], reasons: string[] = [];
+  let score = 0;
+  const hit = (signal: DuplicateSignal, weight: number, reason: string) => { score += weight; matched.push(signal); reasons.push(reason); };
+
+  if (current.vendorId === earlier.vendorId) hit('vendorId', w.vendorExact, 'same vendor');
+  else if (vendorSimilarity(current.vendorId, earlier.vendorId) >= DUPLICATE_CONFIG.vendorSimilarity) hit('vendorId', w.vendorSimilar, `similar vendor "${earlier.vendorId}"`);
+  else return null;
+
+  if (current.normalizedNumber && current.normalizedNumber === earlier.normalizedNumber) {
+    hit('invoiceNumber', w.invoiceNumber, current.invoiceNumber === earlier.invoiceNumber ? 'same invoice number' : `reformatted invoice number ${earlier.invoiceNumber}`);
+  }
+
+  const currencyConflict = !!current.currency && !!earlier.currency && current.currency !== earlier.currency;
+  if (current.grossTotal !== null && earlier.grossTotal !== null && !currencyConflict && Math.abs(current.grossTotal - earlier.grossTotal) <= DUPLICATE_CONFIG.amountTolerance) {
+    hit('grossTotal', w.grossTotal, `same gross total ${earlier.grossTotal.toFixed(2)}${earlier.currency ? ` ${earlier.currency}` : ''}`);
+    if (current.currency && earlier.currency) matched.push('currency');
+  }
+
+  const days = Math.round(Math.abs(current.invoiceDate.getTime() - earlier.invoiceDate.getTime()) / 864e5);
+  if (days === 0) hit('invoiceDate', w.sameDay, 'same invoice date');
+  else if (days <= 3) hit('invoiceDate', w.within3Days, `invoice date ${days} day(s) apart`);
+  else if (days <= 7) hit('invoiceDate', w.within7Days, `invoice date ${days} days apart`);
+
+  if (current.lineItemFingerprint && current.lineItemFingerprint === earlier.lineItemFingerprint) hit('lineItems', w.lineItems, 'identical line items');
+
+  return { invoiceId: earlier.id, score: Math.round(Math.min(score, 1) * 100) / 100, matchedFields: matched, reasons };
+}
+
+//the record saved after processing and compared against later invoices
+export function toProcessedInvoice(invoice: Invoice, normalized: Record<string, unknown>, processedAt = new Date()): ProcessedInvoice {
+  const gross = normalized['grossTotal'], currency = normalized['currency'];
+  return {
+    id: invoice.id, vendorId: normalizeVendorName(invoice.vendorId), invoiceNumber: invoice.invoiceNumber,
+    normalizedNumber: normalizeInvoiceNumber(invoice.invoiceNumber), invoiceDate: invoice.invoiceDate,
+    grossTotal: typeof gross === 'number' ? gross : typeof gross === 'string' ? parseAmount(gross) : null,
+    currency: typeof currency === 'string' && currency ? currency.toUpperCase() : null,
+    lineItemFingerprint: lineItemFingerprint(normalized['lineItems']), processedAt,
+  };
+}
+
+export const normalizeInvoiceNumber = (n: string) => n.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+//order-independent hash of sku, qty and unit price
+export function lineItemFingerprint(items: unknown): string | null {
+  if (!Array.isArray(items) || !items.length) return null;
+  const keys = items.map(i => {
+    const { sku, description, qty, unitPrice } = (i ?? {}) as Record<string, unknown>;
+    return `${sku ?? String(description ?? '').toLowerCase()}|${qty ?? ''}|${unitPrice ?? ''}`;
+  }).sort();
+  return createHash('sha256').update(keys.join('\n')).digest('hex').slice(0, 16);
+}
+
+//Dice coefficient on character bigrams of the vendor alias key: "Parts AG" ~ "Parts A.G." ~ "parts ag."
+export function vendorSimilarity(a: string, b: string): number {
+  const x = vendorKey(a).replace(/ /g, ''), y = vendorKey(b).replace(/ /g, '');
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const bigrams = (s: string) => Array.from({ length: s.length - 1 }, (_, i) => s.slice(i, i + 2));
+  const bx = bigrams(x), by = bigrams(y), pool = [...by];
+  let shared = 0;
+  for (const g of bx) { const i = pool.indexOf(g); if (i >= 0) { shared++; pool.splice(i, 1); } }
+  return bx.length + by.length ? (2 * shared) / (bx.length + by.length) : 0;
+}
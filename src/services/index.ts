@@ -1,9 +1,25 @@
 //public API for the invoice processing agent system
 //the single controlled entry point into the entire agent system.
 
-export { applyReinforcement, applyPenalty, mapConfidenceToAction, normalizeVendorName, type ThresholdAction } from './confidence.js';
-export { RecallService, type IRecallService, type RecalledMemories, type RecallResult } from './recall.js';
-export { ApplyService, POMatchingService, type IApplyService, type AppliedMemory, type ProposedCorrection, type AppliedResult, type DetectedPattern, type ApplyResult, type PurchaseOrder, type POMatchResult } from './apply.js';
+export { applyReinforcement, applyPenalty, applyDecay, getEffectiveConfidence, mapConfidenceToAction, normalizeVendorName, type ThresholdAction } from './confidence.js';
+export { RecallService, type IRecallService, type RecalledMemories, type RecallResult, type Recalled } from './recall.js';
+export { ApplyService, POMatchingService, type IApplyService, type AppliedMemory, type ProposedCorrection, type AppliedResult, type DetectedPattern, type PatternType, type ApplyResult, type PurchaseOrder, type POMatchResult } from './apply.js';
+export { PatternDetectorRegistry, BUILT_IN_DETECTORS, currencyDetector, skontoDetector, freightSkuDetector, taxInclusiveDetector, type PatternDetector, type PatternDetection, type PatternDetectionContext, type PatternDetectionResult } from './detectors.js';
+export { learnTemplate, extractWithTemplate, describeTemplate } from './templates.js';
+export { matchesValuePattern, inferValuePattern, widenValuePattern, describeValuePattern, valuePatternKind, isValidValuePattern, type ValuePatternKind } from './value-patterns.js';
+export { lineItemKey, lineItemField, parseLineItemField, learnLineValues, lineItemChanges, describeLineValues, type LineItemChange, type LearnedLineValues } from './line-items.js';
+export { parsePaymentTerms, paymentTermsOf, isPaymentTerms, paymentSchedule, describePaymentTerms, type PaymentSchedule } from './payment-terms.js';
+export { detectTaxTreatment, isTaxTreatment, toRate, parseTaxBreakdown, lineTaxBreakdown, taxProfileOf, describeTaxProfile, describeTaxTreatment, describeRate, TAX_TREATMENTS } from './tax.js';
+export { DeliveryNoteMatchingService, type DeliveryLineCheck, type DeliveryMatchResult } from './delivery.js';
+export { parseAmount } from './amounts.js';
+export { ValidationService, type IValidationService, type ValidationIssue, type ValidationIssueType, type ValidationResult } from './validation.js';
 export { DecisionService, type IDecisionService, type Decision, type DecisionResult, type DuplicateWarning } from './decision.js';
-export { LearnService, type ILearnService, type LearningResult, type ContributingMemory } from './learn.js';
-export { InvoiceProcessor, type IInvoiceProcessor } from './processor.js';
+export { VendorRegistryService, VendorError, vendorKey, extractVendorIdentifiers, type IVendorRegistryService, type VendorMergeReport } from './vendors.js';
+export { DuplicateDetectionService, DUPLICATE_CONFIG, scoreDuplicate, toProcessedInvoice, normalizeInvoiceNumber, lineItemFingerprint, vendorSimilarity, type IDuplicateDetectionService, type DuplicateCandidate, type DuplicateSignal } from './duplicates.js';
+export { collectDiscrepancies, buildContextFingerprint, approvalRate, resolveVerdict, type Discrepancy, type ResolutionVerdict } from './resolution.js';
+export { LearnService, FeedbackSessionError, FeedbackRevertError, type ILearnService, type LearningResult, type ReviewedVerdict, type RevertResult, type ContributingMemory } from './learn.js';
+export { MaintenanceService, MAINTENANCE_AUDIT_ID, type DecayReport, type DecayedMemory } from './maintenance.js';
+export { MemoryAdminService, MemoryAdminError, ADMIN_AUDIT_ID, describeMemory, memoryVendor, type IMemoryAdminService, type MemoryLineage, type MemoryListOptions, type MemoryListResult, type MemoryEdit } from './admin.js';
+export { MemoryBundleService, BundleError, BUNDLE_FORMAT, BUNDLE_VERSION, IMPORT_STRATEGIES, parseBundle, type IMemoryBundleService, type MemoryBundle, type BundleMemories, type ImportStrategy, type ImportChange, type ImportReport, type ImportOptions } from './bundle.js';
+export { ConfidencePolicyService, PolicyError, POLICY_SETTINGS, GLOBAL_POLICY, resolvePolicy, type IConfidencePolicyService, type PolicyResolver, type PolicyScope, type PolicyOverrides } from './policy.js';
+export { InvoiceProcessor, type IInvoiceProcessor, type BatchOptions, type BatchResult, type BatchItemResult, type BatchSummary } from './processor.js';
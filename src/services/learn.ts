@@ -1,87 +1,332 @@
 //LearnService: Updates memories based on human feedback (approve/reject/correct)
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Invoice, HumanFeedback, FieldCorrection, AuditEntry, VendorMemory, CorrectionMemory } from '../models/index.js';
+import type { Invoice, HumanFeedback, FeedbackVerdict, FieldCorrection, AuditEntry, AuditFieldChange, MemoryEvent, MemoryType, FeedbackMutation, VendorMemory, StoredMemory, CorrectionMemory, LineItemMemory, ExpectationMemory, ExpectationAspect, ResolutionMemory, ContributingMemory, ProcessingSession, Discrepancy, PolicySettings } from '../models/index.js';
 import { CONFIDENCE_CONFIG } from '../models/index.js';
 import type { IMemoryRepository } from '../repository/memory-repository.js';
-import { applyReinforcement, applyPenalty, normalizeVendorName } from './confidence.js';
+import { applyReinforcement, applyPenalty, normalizeVendorName, getEffectiveConfidence } from './confidence.js';
+import { buildContextFingerprint } from './resolution.js';
+import { learnTemplate, describeTemplate } from './templates.js';
+import { inferValuePattern, widenValuePattern } from './value-patterns.js';
+import { lineItemKey, lineItemsOf, parseLineItemField, learnLineValues, conflictingLineValues, describeLineValues } from './line-items.js';
+import { parsePaymentTerms, paymentTermsOf, isPaymentTerms, describePaymentTerms } from './payment-terms.js';
+import { taxProfileOf, describeTaxProfile } from './tax.js';
+import { VendorRegistryService } from './vendors.js';
+import { ConfidencePolicyService, type PolicyResolver } from './policy.js';
 
 //learning result summary
 export interface LearningResult {
+  //the submission id, for revertFeedback
+  feedbackId: string;
   createdMemories: string[];
   updatedMemories: string[];
   deactivatedMemories: string[];
+  //granular verdicts and the memories each one reinforced or penalized
+  reviewed: ReviewedVerdict[];
   auditEntries: AuditEntry[];
 }
 
+export interface ReviewedVerdict extends FeedbackVerdict {
+  fieldName?: string;
+  reinforced: string[];
+  penalized: string[];
+}
+
+//a verdict matched to the session: the memories it reinforces or penalizes
+interface ResolvedVerdict {
+  verdict: FeedbackVerdict;
+  fieldName?: string;
+  reinforce: ContributingMemory[];
+  penalize: ContributingMemory[];
+}
+
+//what a revert undid
+export interface RevertResult {
+  feedbackId: string;
+  invoiceId: string;
+  restoredMemories: string[];
+  deletedMemories: string[];
+  //set when the session was still the invoice's latest and takes feedback again
+  reopenedSessionId?: string;
+  auditEntry: AuditEntry;
+}
+
 //learn service contract
 export interface ILearnService {
-  learnFromFeedback(feedback: HumanFeedback, invoice: Invoice): LearningResult;
+  learnFromFeedback(feedback: HumanFeedback, invoice?: Invoice): LearningResult;
+  revertFeedback(feedbackId: string, actor?: string): RevertResult;
+}
+
+export type { ContributingMemory } from '../models/index.js';
+
+//where a learning event came from, copied onto every memory event it causes
+type FeedbackSource = Pick<MemoryEvent, 'invoiceId' | 'sessionId' | 'feedbackAction' | 'reviewer'>;
+
+const EVENT_KINDS = { reinforce: 'reinforced', penalize: 'penalized', contradict: 'contradicted' } as const;
+
+//the state learning changes per memory type; a revert writes it back (null clears a template)
+const LEARNED_STATE: Record<MemoryType, string[]> = {
+  vendor: ['confidence', 'applicationCount', 'consecutiveRejections', 'lastUsedAt', 'isActive', 'template', 'normalizedFieldName'],
+  correction: ['confidence', 'applicationCount', 'consecutiveRejections', 'lastUsedAt', 'isActive', 'originalValuePattern'],
+  line_item: ['confidence', 'applicationCount', 'consecutiveRejections', 'lastUsedAt', 'isActive', 'sku', 'unit', 'qtyConversion', 'description'],
+  expectation: ['confidence', 'applicationCount', 'consecutiveRejections', 'lastUsedAt', 'isActive'],
+  resolution: ['approvalCount', 'rejectionCount', 'lastUsedAt', 'isActive'],
+};
+
+//feedback that cannot be matched to an open processing session
+export class FeedbackSessionError extends Error {
+  constructor(message: string, public readonly reason: 'unknown_session' | 'already_learned' | 'invoice_mismatch' | 'invalid_verdict') {
+    super(message);
+    this.name = 'FeedbackSessionError';
+  }
 }
 
-//tracks which memories influenced a decision
-export interface ContributingMemory {
-  memoryId: string;
-  memoryType: 'vendor' | 'correction';
-  fieldName: string;
-  extractedValue?: unknown; // The value this memory suggested
+//a feedback submission that cannot be reverted
+export class FeedbackRevertError extends Error {
+  constructor(message: string, public readonly reason: 'not_found' | 'already_reverted' | 'superseded') {
+    super(message);
+    this.name = 'FeedbackRevertError';
+  }
 }
 
 //LearnService implementation
 export class LearnService implements ILearnService {
-  private contributingMemories = new Map<string, ContributingMemory[]>();
-
-  constructor(private repository: IMemoryRepository) {}
+  private policies: ConfidencePolicyService;
+  private vendors: VendorRegistryService;
 
-  //Register memories that contributed to a decision
-  registerContributingMemories(invoiceId: string, memories: ContributingMemory[]): void {
-    this.contributingMemories.set(invoiceId, memories);
+  constructor(private repository: IMemoryRepository) {
+    this.policies = new ConfidencePolicyService(repository);
+    this.vendors = new VendorRegistryService(repository);
   }
 
   //Apply human feedback to update or create memories
-  learnFromFeedback(feedback: HumanFeedback, invoice: Invoice): LearningResult {
-    const result: LearningResult = { createdMemories: [], updatedMemories: [], deactivatedMemories: [], auditEntries: [] };
-    const contributing = this.contributingMemories.get(invoice.id) || [];
-
-    //reinforce contributing memories on approval
-    if (feedback.action === 'approve') {
-      contributing.forEach(m => this.updateMemory(m, 'reinforce', result));
-    }else if (feedback.action === 'reject') {
-      contributing.forEach(m => this.updateMemory(m, 'penalize', result));
+  //the invoice defaults to the snapshot stored with the session; a failure leaves no memory, audit entry or submission behind
+  learnFromFeedback(feedback: HumanFeedback, invoiceOverride?: Invoice): LearningResult {
+    return this.repository.transaction(() => this.learn(feedback, invoiceOverride));
+  }
+
+  private learn(feedback: HumanFeedback, invoiceOverride?: Invoice): LearningResult {
+    const session = this.resolveSession(feedback, invoiceOverride);
+    const invoice = invoiceOverride ?? session.invoice, verdicts = this.resolveVerdicts(feedback, session);
+    const feedbackId = uuidv4(), mutations: FeedbackMutation[] = [];
+    const result: LearningResult = { feedbackId, createdMemories: [], updatedMemories: [], deactivatedMemories: [], reviewed: [], auditEntries: [] };
+    const contributing = session.contributingMemories;
+    //learning rates follow the vendor/field confidence policy
+    const policyFor = this.policies.resolver(), vendorId = this.vendors.resolve(invoice);
+    //every memory this feedback touched, for the audit payload
+    const memoryIds: string[] = [], touched = (id: string | undefined) => { if (id && !memoryIds.includes(id)) memoryIds.push(id); };
+    const source: FeedbackSource = { invoiceId: invoice.id, sessionId: session.id, feedbackAction: feedback.action, ...(feedback.reviewer && { reviewer: feedback.reviewer }) };
+    const update = (m: ContributingMemory, action: 'reinforce' | 'penalize' | 'contradict', cause?: string) => touched(this.updateMemory(m, action, result, policyFor(vendorId, m.fieldName), source, mutations, cause));
+
+    //reinforce contributing memories on approval; with verdicts only the memories they name are touched
+    if (feedback.action === 'approve' && !verdicts.length) {
+      contributing.forEach(m => update(m, 'reinforce'));
+    }else if (feedback.action === 'reject' && !verdicts.length) {
+      contributing.forEach(m => update(m, 'penalize'));
     } else if (feedback.action === 'correct' && feedback.corrections) {
-      const vendorId = normalizeVendorName(invoice.vendorId);
+      //corrections to single lines teach a line item memory per corrected line, not a field memory each
+      const lineCorrections = new Map<number, FieldCorrection[]>();
       for (const corr of feedback.corrections) {
+        const line = parseLineItemField(corr.fieldName);
+        if (line) lineCorrections.set(line.index, [...(lineCorrections.get(line.index) ?? []), corr]);
+      }
+      for (const [index, corrections] of lineCorrections) {
+        touched(this.learnLineItem(index, corrections, invoice, vendorId, result, policyFor(vendorId, 'lineItems'), source, mutations));
+      }
+      for (const corr of feedback.corrections.filter(c => !parseLineItemField(c.fieldName))) {
         const contributingMem = contributing.find(m => m.fieldName === corr.fieldName);
         if (contributingMem) {
           // Check if the correction confirms or contradicts the memory's suggestion
           const memoryValue = this.getMemorySuggestedValue(contributingMem, invoice);
           if (memoryValue !== null && String(memoryValue) === String(corr.correctedValue)) {
             // Human confirmed the memory's suggestion - reinforce it
-            this.updateMemory(contributingMem, 'reinforce', result);
+            update(contributingMem, 'reinforce');
             continue; // Don't create a new memory, the existing one is correct
           } else {
             // Human provided a different value - contradict the memory
-            this.updateMemory(contributingMem, 'contradict', result);
+            update(contributingMem, 'contradict');
           }
         }
-        this.createMemory(corr, invoice, vendorId, result);
+        touched(this.createMemory(corr, invoice, vendorId, result, policyFor, source, mutations));
       }
     }
 
+    //granular verdicts: a memory named by several of them is updated once
+    const updated = new Set<string>();
+    for (const { verdict, fieldName, reinforce, penalize } of verdicts) {
+      const cause = `${verdict.target} ${verdict.id} ${verdict.accepted ? 'accepted' : 'rejected'}`;
+      const run = (memories: ContributingMemory[], action: 'reinforce' | 'penalize') => memories.filter(m => !updated.has(m.memoryId)).map(m => {
+        updated.add(m.memoryId);
+        update(m, action, cause);
+        return m.memoryId;
+      });
+      result.reviewed.push({ ...verdict, ...(fieldName && { fieldName }), reinforced: run(reinforce, 'reinforce'), penalized: run(penalize, 'penalize') });
+    }
+
+    //an approval confirms the payment terms and tax treatment the vendor uses; a correction teaches only the ones it corrects
+    if (feedback.action === 'approve' || feedback.action === 'correct') {
+      const approved = feedback.action === 'approve', corrections = feedback.corrections ?? [];
+      const corrected = Object.fromEntries(corrections.map(c => [c.fieldName, c.correctedValue]));
+      const termsFix = corrected['paymentTerms'] ?? corrected['discountTerms'], taxFixed = ['taxTreatment', 'taxRate', 'taxBreakdown'].some(f => f in corrected);
+      const terms = termsFix === undefined ? (approved ? paymentTermsOf(invoice) : null) : isPaymentTerms(termsFix) ? termsFix : typeof termsFix === 'string' ? parsePaymentTerms(termsFix) : null;
+      const tax = approved || taxFixed ? taxProfileOf(invoice, corrected) : null;
+      if (terms) touched(this.learnExpectation(vendorId, 'payment_terms', terms, describePaymentTerms(terms), termsFix !== undefined, result, policyFor(vendorId, 'paymentTerms'), source, mutations));
+      if (tax) touched(this.learnExpectation(vendorId, 'tax_treatment', tax, describeTaxProfile(tax), taxFixed, result, policyFor(vendorId, 'taxTreatment'), source, mutations));
+    }
+
+    //record the verdict against every discrepancy the invoice raised
+    if (feedback.action === 'approve' || feedback.action === 'reject') {
+      for (const d of session.discrepancies) touched(this.recordResolution(d, vendorId, feedback.action === 'approve', result, source, mutations));
+    }
+
     //persist audit entry for learning step
+    const label = (v: FeedbackVerdict) => `${v.target}:${v.id}`;
+    const accepted = result.reviewed.filter(v => v.accepted).map(label), rejected = result.reviewed.filter(v => !v.accepted).map(label);
+    const reviewedSuggestions = result.reviewed.flatMap(v => {
+      const s = v.target === 'suggestion' ? session.proposedCorrections.find(c => c.id === v.id) : undefined;
+      return s ? [{ fieldName: s.fieldName, before: s.currentValue, after: s.suggestedValue, ...(s.source === 'memory' && { memoryId: s.memoryId }), applied: v.accepted }] : [];
+    });
     const auditEntry: AuditEntry = {
       step: 'learn', timestamp: new Date().toISOString(),
-      details: `${feedback.action} on ${invoice.id}: +${result.createdMemories.length} ~${result.updatedMemories.length} -${result.deactivatedMemories.length}`,
+      details: `${feedback.action} on ${invoice.id} (session ${session.id}): +${result.createdMemories.length} ~${result.updatedMemories.length} -${result.deactivatedMemories.length}${result.reviewed.length ? `; verdicts: ${accepted.length} accepted, ${rejected.length} rejected` : ''}`,
+      payload: {
+        vendorId, feedbackId, memoryIds, fields: [...new Set([...(feedback.corrections ?? []).map(c => c.fieldName), ...result.reviewed.flatMap(v => v.fieldName ? [v.fieldName] : [])])],
+        changes: [...(feedback.corrections ?? []).map(c => ({ fieldName: c.fieldName, before: c.originalValue, after: c.correctedValue, applied: true })), ...reviewedSuggestions],
+        flags: {
+          approved: feedback.action === 'approve', rejected: feedback.action === 'reject', corrected: feedback.action === 'correct', deactivated: result.deactivatedMemories.length > 0,
+          ...(result.reviewed.length && { mixed: accepted.length > 0 && rejected.length > 0 }),
+        },
+        ...(accepted.length && { accepted }), ...(rejected.length && { rejected }),
+      },
     };
     result.auditEntries.push(auditEntry);
     this.repository.saveAuditEntry({ ...auditEntry, invoiceId: invoice.id });
 
-    //cleanup in-memory contribution tracking
-    this.contributingMemories.delete(invoice.id);
+    //a session takes feedback once
+    this.repository.updateProcessingSession(session.id, { status: 'learned', learnedAt: new Date() });
+    this.repository.saveFeedbackSubmission({
+      id: feedbackId, invoiceId: invoice.id, sessionId: session.id, vendorId, action: feedback.action,
+      ...(feedback.reviewer && { reviewer: feedback.reviewer }), mutations, submittedAt: new Date(),
+    });
 
     return result;
   }
 
+  //Undo a feedback submission: write back the learned state of memories it changed and delete the ones it created
+  //refused once later feedback touched the same memories, because that learning started from this submission's result
+  revertFeedback(feedbackId: string, actor?: string): RevertResult {
+    return this.repository.transaction(() => {
+      const submission = this.repository.findFeedbackSubmission(feedbackId);
+      if (!submission) throw new FeedbackRevertError(`No feedback submission ${feedbackId}`, 'not_found');
+      if (submission.revertedAt) {
+        throw new FeedbackRevertError(`Feedback ${feedbackId} was already reverted at ${submission.revertedAt.toISOString()}${submission.revertedBy ? ` by ${submission.revertedBy}` : ''}`, 'already_reverted');
+      }
+      const touching = this.repository.findFeedbackSubmissionsTouching(submission.mutations.map(m => m.memoryId));
+      const later = touching.slice(touching.findIndex(f => f.id === feedbackId) + 1).filter(f => !f.revertedAt);
+      if (later.length) {
+        const shared = (f: typeof later[number]) => f.mutations.filter(m => submission.mutations.some(s => s.memoryId === m.memoryId)).map(m => `${m.memoryType} ${m.memoryId}`);
+        throw new FeedbackRevertError(`Cannot revert feedback ${feedbackId}: later feedback built on the same memories (${later.map(f => `${f.id} ${f.action} on ${f.invoiceId}: ${shared(f).join(', ')}`).join('; ')}); revert that feedback first`, 'superseded');
+      }
+
+      const restoredMemories: string[] = [], deletedMemories: string[] = [], changes: AuditFieldChange[] = [];
+      const source = { invoiceId: submission.invoiceId, sessionId: submission.sessionId, feedbackAction: submission.action, ...(actor && { reviewer: actor }) };
+      //newest first, so a memory reads back the state before the submission's first change
+      for (const m of [...submission.mutations].reverse()) {
+        const memory = this.repository.findMemoryById(m.memoryId, m.memoryType);
+        if (!memory) continue; //deleted since, nothing to undo
+        const current = memory.type === 'resolution' ? undefined : memory.confidence;
+        const event = { memoryId: m.memoryId, memoryType: m.memoryType, ...source, ...(current !== undefined && { oldConfidence: current }) };
+        if (m.kind === 'created') {
+          this.repository.deleteMemory(m.memoryType, m.memoryId);
+          deletedMemories.push(`${m.memoryType} ${m.memoryId}`);
+          this.repository.saveMemoryEvent({ ...event, kind: 'deleted', details: `created by feedback ${feedbackId}, which was reverted` });
+          changes.push({ fieldName: 'memory', before: m.memoryId, after: null, memoryId: m.memoryId, applied: true });
+        } else {
+          const before = m.before ?? {}, restored = before['confidence'] as number | undefined;
+          this.repository.updateMemory(m.memoryType, m.memoryId, before);
+          restoredMemories.push(`${m.memoryType} ${m.memoryId}${restored !== undefined && current !== undefined ? ` ${current.toFixed(2)}→${restored.toFixed(2)}` : ''}`);
+          this.repository.saveMemoryEvent({ ...event, kind: 'reverted', ...(restored !== undefined && { newConfidence: restored }), details: `feedback ${feedbackId} reverted` });
+          if (restored !== undefined) changes.push({ fieldName: 'confidence', before: current, after: restored, memoryId: m.memoryId, applied: true });
+        }
+      }
+
+      //the invoice takes feedback again, unless it was processed again since
+      const session = this.repository.findLatestProcessingSession(submission.invoiceId);
+      const reopened = session?.id === submission.sessionId && session.status === 'learned';
+      if (reopened) this.repository.updateProcessingSession(session.id, { status: 'open' });
+      const now = new Date();
+      this.repository.updateFeedbackSubmission(feedbackId, { revertedAt: now, ...(actor && { revertedBy: actor }) });
+
+      const auditEntry: AuditEntry = {
+        step: 'learn', timestamp: now.toISOString(),
+        details: `revert of ${submission.action} feedback ${feedbackId}${actor ? ` by ${actor}` : ''}: ${restoredMemories.length} restored, ${deletedMemories.length} deleted`,
+        payload: {
+          vendorId: submission.vendorId, feedbackId, memoryIds: submission.mutations.map(m => m.memoryId), changes,
+          flags: { reverted: true, reopened },
+        },
+      };
+      this.repository.saveAuditEntry({ ...auditEntry, invoiceId: submission.invoiceId });
+      return { feedbackId, invoiceId: submission.invoiceId, restoredMemories, deletedMemories, ...(reopened && { reopenedSessionId: submission.sessionId }), auditEntry };
+    });
+  }
+
+  //Match each verdict to the session before anything is written; unknown ids and contradictions fail the submission
+  private resolveVerdicts(feedback: HumanFeedback, session: ProcessingSession): ResolvedVerdict[] {
+    const contributing = session.contributingMemories, corrected = new Set((feedback.corrections ?? []).map(c => c.fieldName));
+    const fail = (message: string) => new FeedbackSessionError(`${message} (invoice ${session.invoiceId}, session ${session.id})`, 'invalid_verdict');
+    const split = (verdict: FeedbackVerdict, fieldName: string, memories: ContributingMemory[]): ResolvedVerdict =>
+      ({ verdict, fieldName, reinforce: verdict.accepted ? memories : [], penalize: verdict.accepted ? [] : memories });
+
+    const resolved = (feedback.verdicts ?? []).map((v): ResolvedVerdict => {
+      if (v.target === 'suggestion') {
+        const s = session.proposedCorrections.find(c => c.id === v.id);
+        if (!s) throw fail(`Unknown suggestion ${v.id}`);
+        return split(v, s.fieldName, s.source === 'memory' ? contributing.filter(m => m.memoryId === s.memoryId) : []);
+      }
+      if (v.target === 'memory') {
+        const m = contributing.find(m => m.memoryId === v.id);
+        if (!m) throw fail(`Memory ${v.id} did not contribute to this invoice`);
+        return split(v, m.fieldName, [m]);
+      }
+      //a confirmed field keeps its value: memories that produced it were right, memories that suggested another value were not
+      const suggested = new Set(session.proposedCorrections.filter(c => c.fieldName === v.id && c.source === 'memory').map(c => c.memoryId));
+      const memories = contributing.filter(m => m.fieldName === v.id), produced = memories.filter(m => !suggested.has(m.memoryId));
+      return { verdict: v, fieldName: v.id, reinforce: v.accepted ? produced : [], penalize: v.accepted ? memories.filter(m => suggested.has(m.memoryId)) : produced };
+    });
+
+    const direction = new Map<string, boolean>();
+    for (const r of resolved) {
+      if (r.fieldName && corrected.has(r.fieldName)) throw fail(`Field ${r.fieldName} is both corrected and reviewed`);
+      for (const [memories, up] of [[r.reinforce, true], [r.penalize, false]] as const) {
+        for (const m of memories) {
+          if (direction.get(m.memoryId) === !up) throw fail(`Conflicting verdicts for memory ${m.memoryId}`);
+          direction.set(m.memoryId, up);
+        }
+      }
+    }
+    return resolved;
+  }
+
+  //Find the session the feedback refers to: the given session id, or the invoice's latest one
+  private resolveSession(feedback: HumanFeedback, invoice?: Invoice): ProcessingSession {
+    if (invoice && invoice.id !== feedback.invoiceId) {
+      throw new FeedbackSessionError(`Feedback for invoice ${feedback.invoiceId} does not match invoice ${invoice.id}`, 'invoice_mismatch');
+    }
+    const session = feedback.sessionId
+      ? this.repository.findProcessingSessionById(feedback.sessionId)
+      : this.repository.findLatestProcessingSession(feedback.invoiceId);
+
+    if (!session || session.invoiceId !== feedback.invoiceId) {
+      throw new FeedbackSessionError(feedback.sessionId
+        ? `Unknown processing session ${feedback.sessionId} for invoice ${feedback.invoiceId}`
+        : `No processing session for invoice ${feedback.invoiceId}; process the invoice before submitting feedback`, 'unknown_session');
+    }
+    if (session.status === 'learned') {
+      throw new FeedbackSessionError(`Processing session ${session.id} for invoice ${feedback.invoiceId} already received feedback${session.learnedAt ? ` at ${session.learnedAt.toISOString()}` : ''}`, 'already_learned');
+    }
+    return session;
+  }
+
   //Update confidence and state of an existing memory
   //Get the value that a memory suggested for comparison with human correction
   private getMemorySuggestedValue(mem: ContributingMemory, invoice: Invoice): unknown {
@@ -96,71 +341,239 @@ export class LearnService implements ILearnService {
     return null;
   }
 
-  private updateMemory(mem: ContributingMemory, action: 'reinforce' | 'penalize' | 'contradict', result: LearningResult): void {
-    const existing = mem.memoryType === 'vendor'
-      ? this.repository.findVendorMemoryById(mem.memoryId)
-      : this.repository.findCorrectionMemoryById(mem.memoryId);
-    if (!existing) return;
+  //record a memory's learned state before the submission first changes it
+  private track(mutations: FeedbackMutation[], memoryType: MemoryType, memory: { id: string }, kind: FeedbackMutation['kind']): void {
+    if (mutations.some(m => m.memoryId === memory.id)) return;
+    const state = memory as Record<string, unknown>;
+    mutations.push({ memoryId: memory.id, memoryType, kind, ...(kind === 'updated' && { before: Object.fromEntries(LEARNED_STATE[memoryType].map(k => [k, state[k] ?? null])) }) });
+  }
+
+  //updateMemory, recordResolution and createMemory return the id of the memory they touched
+  private updateMemory(mem: ContributingMemory, action: 'reinforce' | 'penalize' | 'contradict', result: LearningResult, policy: PolicySettings, source: FeedbackSource, mutations: FeedbackMutation[], cause?: string): string | undefined {
+    const existing = this.repository.findMemoryById(mem.memoryId, mem.memoryType);
+    if (!existing || existing.type === 'resolution') return undefined;
+    this.track(mutations, mem.memoryType, existing, 'updated');
 
-    let newConf = existing.confidence, rejections = existing.consecutiveRejections, active = existing.isActive;
+    //learning starts from the decayed confidence, not the stale stored value
+    const current = getEffectiveConfidence(existing);
+    let newConf = current, rejections = existing.consecutiveRejections, active = existing.isActive;
 
     if (action === 'reinforce') {
-      newConf = applyReinforcement(existing.confidence);
+      newConf = applyReinforcement(current, policy);
       rejections = 0;
     } else if (action === 'penalize') {
-      newConf = applyPenalty(existing.confidence);
+      newConf = applyPenalty(current, policy);
       rejections++;
       if (rejections >= CONFIDENCE_CONFIG.maxConsecutiveRejectionsBeforeDeactivation) active = false;
     } else {
-      newConf = existing.confidence * 0.5;
+      newConf = current * 0.5;
     }
 
     const update: Record<string, unknown> = { confidence: newConf, consecutiveRejections: rejections, lastUsedAt: new Date(), isActive: active };
     if (action === 'reinforce') update.applicationCount = existing.applicationCount + 1;
 
-    if (mem.memoryType === 'vendor') this.repository.updateVendorMemory(mem.memoryId, update);
-    else this.repository.updateCorrectionMemory(mem.memoryId, update);
+    this.repository.updateMemory(mem.memoryType, mem.memoryId, update);
+
+    const event = { memoryId: mem.memoryId, memoryType: mem.memoryType, ...source };
+    this.repository.saveMemoryEvent({ ...event, kind: EVENT_KINDS[action], oldConfidence: current, newConfidence: newConf, details: `${action}d by ${cause ?? source.feedbackAction} on ${source.invoiceId}` });
+    if (!active && existing.isActive) this.repository.saveMemoryEvent({ ...event, kind: 'deactivated', newConfidence: newConf, details: `deactivated after ${rejections} consecutive rejections` });
 
     if (!active) result.deactivatedMemories.push(`${mem.memoryType} ${mem.memoryId} deactivated`);
-    else result.updatedMemories.push(`${mem.memoryType} ${mem.memoryId} ${action}d: ${existing.confidence.toFixed(2)}→${newConf.toFixed(2)}`);
+    else result.updatedMemories.push(`${mem.memoryType} ${mem.memoryId} ${action}d: ${current.toFixed(2)}→${newConf.toFixed(2)}`);
+    return existing.id;
+  }
+
+  //Create or update the resolution memory for one discrepancy in its vendor context
+  private recordResolution(d: Discrepancy, vendorId: string, approved: boolean, result: LearningResult, source: FeedbackSource, mutations: FeedbackMutation[]): string {
+    const now = new Date(), fingerprint = buildContextFingerprint(vendorId, d);
+    const existing = this.repository.findResolutionMemories(d.type).find(m => m.context['fingerprint'] === fingerprint);
+
+    if (existing) {
+      this.track(mutations, 'resolution', existing, 'updated');
+      const approvalCount = existing.approvalCount + (approved ? 1 : 0), rejectionCount = existing.rejectionCount + (approved ? 0 : 1);
+      this.repository.updateResolutionMemory(existing.id, { approvalCount, rejectionCount, lastUsedAt: now });
+      result.updatedMemories.push(`resolution ${existing.id} ${d.type} ${approved ? 'approved' : 'rejected'}: ${approvalCount}/${approvalCount + rejectionCount} approved`);
+      this.repository.saveMemoryEvent({
+        memoryId: existing.id, memoryType: 'resolution', kind: approved ? 'reinforced' : 'penalized', ...source,
+        details: `${d.type} ${approved ? 'approved' : 'rejected'}: ${approvalCount}/${approvalCount + rejectionCount} approved`,
+      });
+      return existing.id;
+    } else {
+      const rm: ResolutionMemory = {
+        id: uuidv4(), discrepancyType: d.type,
+        context: { fingerprint, vendorId, ...(d.fieldName && { fieldName: d.fieldName }) },
+        approvalCount: approved ? 1 : 0, rejectionCount: approved ? 0 : 1,
+        createdAt: now, lastUsedAt: now, isActive: true,
+      };
+      this.repository.saveResolutionMemory(rm);
+      this.track(mutations, 'resolution', rm, 'created');
+      result.createdMemories.push(`resolution ${rm.id}: ${d.type} for ${vendorId} ${approved ? 'approved' : 'rejected'}`);
+      this.repository.saveMemoryEvent({ memoryId: rm.id, memoryType: 'resolution', kind: 'created', ...source, details: `${d.type} for ${vendorId} ${approved ? 'approved' : 'rejected'}` });
+      return rm.id;
+    }
+  }
+
+  //Create or update the line item memory for one corrected line, keyed by the line's description as extracted
+  //a memory that already knew other values for the line, or had been switched off, starts over from the correction
+  private learnLineItem(index: number, corrections: FieldCorrection[], invoice: Invoice, vendorId: string, result: LearningResult, policy: PolicySettings, source: FeedbackSource, mutations: FeedbackMutation[]): string | undefined {
+    const line = lineItemsOf(invoice.fields['lineItems']?.value)[index], description = line?.description?.trim();
+    const learned = line && description ? learnLineValues(line, corrections) : {};
+    if (!line || !description || !Object.keys(learned).length) return undefined;
+    const now = new Date(), initConf = CONFIDENCE_CONFIG.initialHumanCorrectionConfidence, descriptionKey = lineItemKey(description);
+    const corrected = corrections.map(c => `${c.fieldName} ${JSON.stringify(c.originalValue)}→${JSON.stringify(c.correctedValue)}`).join(', ');
+    const existing = this.repository.findLineItemMemory(vendorId, descriptionKey);
+
+    if (existing) {
+      this.track(mutations, 'line_item', existing, 'updated');
+      const current = getEffectiveConfidence(existing, now), conflicts = conflictingLineValues(existing, learned);
+      const restart = conflicts.length > 0 || !existing.isActive;
+      const newConf = restart ? initConf : applyReinforcement(current, policy);
+      const values = restart ? { sku: learned.sku ?? null, unit: learned.unit ?? null, qtyConversion: learned.qtyConversion ?? null } : learned;
+      //null clears what the contradicted memory knew
+      this.repository.updateMemory('line_item', existing.id, {
+        ...values, description, confidence: newConf, applicationCount: restart ? 0 : existing.applicationCount + 1, consecutiveRejections: 0, lastUsedAt: now, isActive: true,
+      });
+      const kind = !existing.isActive ? 'reactivated' : conflicts.length ? 'contradicted' : 'reinforced';
+      result.updatedMemories.push(`line_item ${existing.id} ${kind}: ${current.toFixed(2)}→${newConf.toFixed(2)}, "${description}" → ${describeLineValues(restart ? learned : { ...existing, ...learned })}`);
+      this.repository.saveMemoryEvent({
+        memoryId: existing.id, memoryType: 'line_item', kind, ...source, oldConfidence: current, newConfidence: newConf,
+        details: `line ${index} "${description}": ${corrected}${conflicts.length ? ` replaced ${conflicts.join(', ')}` : ''}`,
+      });
+      return existing.id;
+    }
+    const lm: LineItemMemory = {
+      id: uuidv4(), vendorId, descriptionKey, description, ...learned,
+      confidence: initConf, applicationCount: 0, consecutiveRejections: 0,
+      createdAt: now, lastUsedAt: now, isActive: true,
+    };
+    this.repository.saveLineItemMemory(lm);
+    this.track(mutations, 'line_item', lm, 'created');
+    result.createdMemories.push(`line_item ${lm.id}: "${description}" → ${describeLineValues(learned)}`);
+    this.repository.saveMemoryEvent({ memoryId: lm.id, memoryType: 'line_item', kind: 'created', ...source, newConfidence: initConf, details: `line ${index} "${description}": ${corrected}` });
+    return lm.id;
+  }
+
+  //Create or reinforce the expectation memory for what the invoice says about one aspect, or what a human corrected it to
+  private learnExpectation(vendorId: string, aspect: ExpectationAspect, expected: ExpectationMemory['expected'], valueKey: string, corrected: boolean, result: LearningResult, policy: PolicySettings, source: FeedbackSource, mutations: FeedbackMutation[]): string {
+    const now = new Date(), initConf = CONFIDENCE_CONFIG.initialHumanCorrectionConfidence, label = `${aspect.replace('_', ' ')} ${valueKey}`;
+    const details = `${label} on ${corrected ? 'corrected' : `${source.feedbackAction}d`} invoice ${source.invoiceId}`;
+    const existing = this.repository.findExpectationMemory(vendorId, aspect, valueKey);
+
+    if (existing) {
+      this.track(mutations, 'expectation', existing, 'updated');
+      const current = getEffectiveConfidence(existing, now), newConf = existing.isActive ? applyReinforcement(current, policy) : initConf;
+      const kind = existing.isActive ? 'reinforced' : 'reactivated';
+      this.repository.updateExpectationMemory(existing.id, { confidence: newConf, applicationCount: existing.applicationCount + 1, consecutiveRejections: 0, lastUsedAt: now, isActive: true });
+      result.updatedMemories.push(`expectation ${existing.id} ${kind}: ${current.toFixed(2)}→${newConf.toFixed(2)}, ${label}`);
+      this.repository.saveMemoryEvent({ memoryId: existing.id, memoryType: 'expectation', kind, ...source, oldConfidence: current, newConfidence: newConf, details });
+      return existing.id;
+    }
+    const em: ExpectationMemory = {
+      id: uuidv4(), vendorId, aspect, valueKey, expected,
+      confidence: initConf, applicationCount: 0, consecutiveRejections: 0,
+      createdAt: now, lastUsedAt: now, isActive: true,
+    };
+    this.repository.saveExpectationMemory(em);
+    this.track(mutations, 'expectation', em, 'created');
+    result.createdMemories.push(`expectation ${em.id}: ${vendorId} ${label}`);
+    this.repository.saveMemoryEvent({ memoryId: em.id, memoryType: 'expectation', kind: 'created', ...source, newConfidence: initConf, details });
+    return em.id;
+  }
+
+  //the vendor's memory for a label, active or not: vendor memories are unique per label
+  private labelMemory(vendorId: string, label: string): VendorMemory | undefined {
+    return this.repository.findMemories({ type: 'vendor', vendorId, fieldName: label }).items
+      .find((m): m is StoredMemory & { type: 'vendor' } => m.type === 'vendor' && m.originalFieldName === label);
+  }
+
+  //a label owned by another field, or inactive, cannot take a template
+  private labelTaken(vendorId: string, label: string, fieldName: string): boolean {
+    const m = this.labelMemory(vendorId, label);
+    return m !== undefined && !(m.isActive && m.normalizedFieldName === fieldName);
   }
 
   //Create vendor or correction memory from human correction
-  private createMemory(corr: FieldCorrection, invoice: Invoice, vendorId: string, result: LearningResult): void {
+  //a value that was missing and shows up in rawText teaches where the vendor prints it: a template vendor memory
+  private createMemory(corr: FieldCorrection, invoice: Invoice, vendorId: string, result: LearningResult, policyFor: PolicyResolver, source: FeedbackSource, mutations: FeedbackMutation[]): string {
     const now = new Date(), initConf = CONFIDENCE_CONFIG.initialHumanCorrectionConfidence;
     const field = invoice.fields[corr.fieldName];
-    const isMapping = field?.originalLabel && field.originalLabel !== corr.fieldName;
+    const template = corr.originalValue == null ? learnTemplate(invoice.rawText, corr.correctedValue) : null;
+    const mapped = field?.originalLabel && field.originalLabel !== corr.fieldName ? field.originalLabel : undefined;
+    const label = mapped ?? (template && !this.labelTaken(vendorId, template.label, corr.fieldName) ? template.label : undefined);
 
-    if (isMapping && field?.originalLabel) {
-      const existing = this.repository.findVendorMemories(vendorId)
-        .find(m => m.originalFieldName === field.originalLabel && m.normalizedFieldName === corr.fieldName);
+    if (label) {
+      //a label switched off or mapped to another field starts over from this correction
+      const existing = this.labelMemory(vendorId, label);
 
       if (existing) {
-        const newConf = applyReinforcement(existing.confidence);
+        this.track(mutations, 'vendor', existing, 'updated');
+        const remapped = existing.normalizedFieldName !== corr.fieldName, restart = remapped || !existing.isActive;
+        const current = getEffectiveConfidence(existing, now), newConf = restart ? initConf : applyReinforcement(current, policyFor(vendorId, corr.fieldName));
         this.repository.updateVendorMemory(existing.id, {
-          confidence: newConf, applicationCount: existing.applicationCount + 1, consecutiveRejections: 0, lastUsedAt: now,
+          normalizedFieldName: corr.fieldName, confidence: newConf, applicationCount: restart ? 0 : existing.applicationCount + 1, consecutiveRejections: 0, lastUsedAt: now, isActive: true,
+          ...(template && { template }),
         });
-        result.updatedMemories.push(`vendor ${existing.id} reinforced: ${existing.confidence.toFixed(2)}→${newConf.toFixed(2)}`);
+        const kind = !existing.isActive ? 'reactivated' : remapped ? 'contradicted' : 'reinforced';
+        const change = remapped ? `, "${label}"→"${existing.normalizedFieldName}" now "${corr.fieldName}"` : template && !existing.template ? `, learned template ${describeTemplate(template)}` : '';
+        result.updatedMemories.push(`vendor ${existing.id} ${kind}: ${current.toFixed(2)}→${newConf.toFixed(2)}${change}`);
+        this.repository.saveMemoryEvent({
+          memoryId: existing.id, memoryType: 'vendor', kind, ...source, oldConfidence: current, newConfidence: newConf,
+          details: `correction ${corr.fieldName} = ${JSON.stringify(corr.correctedValue)} ${remapped ? `remapped "${label}" from ${existing.normalizedFieldName}` : 'confirmed the mapping'}`,
+        });
+        return existing.id;
       } else {
         const vm: VendorMemory = {
           id: uuidv4(), vendorId, vendorName: invoice.vendorName,
-          originalFieldName: field.originalLabel, normalizedFieldName: corr.fieldName,
+          originalFieldName: label, normalizedFieldName: corr.fieldName,
           confidence: initConf, applicationCount: 0, consecutiveRejections: 0,
-          createdAt: now, lastUsedAt: now, isActive: true,
+          createdAt: now, lastUsedAt: now, isActive: true, ...(template && { template }),
         };
         this.repository.saveVendorMemory(vm);
-        result.createdMemories.push(`vendor ${vm.id}: "${field.originalLabel}"→"${corr.fieldName}"`);
+        this.track(mutations, 'vendor', vm, 'created');
+        result.createdMemories.push(`vendor ${vm.id}: "${label}"→"${corr.fieldName}"${template ? ` template ${describeTemplate(template)}` : ''}`);
+        this.repository.saveMemoryEvent({
+          memoryId: vm.id, memoryType: 'vendor', kind: 'created', ...source, newConfidence: initConf,
+          details: `correction ${corr.fieldName} ${JSON.stringify(corr.originalValue)}→${JSON.stringify(corr.correctedValue)}: "${label}"→"${corr.fieldName}"`,
+        });
+        return vm.id;
       }
     } else {
+      //the same fix for another value widens the vendor's existing memory instead of adding a sibling
+      const correctedValue = String(corr.correctedValue);
+      const widened = this.repository.findCorrectionMemories(vendorId, corr.fieldName)
+        .filter(m => m.vendorId === vendorId && m.correctedValue === correctedValue)
+        .map(m => ({ m, pattern: widenValuePattern(m.originalValuePattern, corr.originalValue) }))
+        .find((w): w is { m: CorrectionMemory; pattern: string } => w.pattern !== null);
+      if (widened) {
+        const { m: existing, pattern } = widened;
+        this.track(mutations, 'correction', existing, 'updated');
+        const current = getEffectiveConfidence(existing, now), newConf = applyReinforcement(current, policyFor(vendorId, corr.fieldName));
+        this.repository.updateCorrectionMemory(existing.id, {
+          confidence: newConf, applicationCount: existing.applicationCount + 1, consecutiveRejections: 0, lastUsedAt: now, originalValuePattern: pattern,
+        });
+        const change = pattern !== existing.originalValuePattern ? `, pattern ${existing.originalValuePattern} → ${pattern}` : '';
+        result.updatedMemories.push(`correction ${existing.id} reinforced: ${current.toFixed(2)}→${newConf.toFixed(2)}${change}`);
+        this.repository.saveMemoryEvent({
+          memoryId: existing.id, memoryType: 'correction', kind: 'reinforced', ...source, oldConfidence: current, newConfidence: newConf,
+          details: `correction ${corr.fieldName} ${JSON.stringify(corr.originalValue)}→${JSON.stringify(corr.correctedValue)} repeated the fix${change}`,
+        });
+        return existing.id;
+      }
       const cm: CorrectionMemory = {
         id: uuidv4(), vendorId, fieldName: corr.fieldName,
-        originalValuePattern: String(corr.originalValue ?? '*'),
-        correctedValue: String(corr.correctedValue),
+        originalValuePattern: inferValuePattern(corr.originalValue),
+        correctedValue,
         confidence: initConf, applicationCount: 0, consecutiveRejections: 0,
         createdAt: now, lastUsedAt: now, isActive: true,
       };
       this.repository.saveCorrectionMemory(cm);
-      result.createdMemories.push(`correction ${cm.id}: "${corr.fieldName}" "${corr.originalValue}"→"${corr.correctedValue}"`);
+      this.track(mutations, 'correction', cm, 'created');
+      result.createdMemories.push(`correction ${cm.id}: "${corr.fieldName}" ${cm.originalValuePattern}→"${corr.correctedValue}"`);
+      this.repository.saveMemoryEvent({
+        memoryId: cm.id, memoryType: 'correction', kind: 'created', ...source, newConfidence: initConf,
+        details: `correction ${corr.fieldName} ${JSON.stringify(corr.originalValue)}→${JSON.stringify(corr.correctedValue)}`,
+      });
+      return cm.id;
     }
   }
 }
@@ -0,0 +1,80 @@
+//line item memories: what a vendor's line descriptions stand for, learned from corrections to single lines
+//field names address one property of one line, e.g. lineItems[0].sku; the memory is keyed by the line's description
+import type { FieldCorrection, InvoiceLineItem, LineItemMemory } from '../models/index.js';
+import { parseAmount } from './amounts.js';
+
+//the line properties a memory sets; unitPrice follows qty through the conversion so the line total stays
+export type LineItemProperty = 'sku' | 'unit' | 'qty' | 'unitPrice';
+
+//what one corrected line teaches
+export type LearnedLineValues = Partial<Pick<LineItemMemory, 'sku' | 'unit' | 'qtyConversion'>>;
+
+export interface LineItemChange {
+  property: LineItemProperty;
+  before: unknown;
+  after: unknown;
+}
+
+//"Seefracht / Shipping" and "SEEFRACHT - shipping" are one description
+export const lineItemKey = (description: string): string => description.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const lineItemField = (index: number, property?: LineItemProperty): string => `lineItems[${index}]${property ? `.${property}` : ''}`;
+
+export function parseLineItemField(fieldName: string): { index: number; property: string } | null {
+  const m = fieldName.match(/^lineItems\[(\d+)\]\.(\w+)$/);
+  return m ? { index: Number(m[1]), property: m[2]! } : null;
+}
+
+export const lineItemsOf = (value: unknown): InvoiceLineItem[] => Array.isArray(value) ? value as InvoiceLineItem[] : [];
+
+const toNumber = (v: unknown) => typeof v === 'number' ? (Number.isFinite(v) ? v : null) : typeof v === 'string' ? parseAmount(v.trim()) : null;
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+const sameUnit = (a: unknown, b: unknown) => String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+const text = (v: unknown) => v === null || v === undefined || !String(v).trim() ? undefined : String(v).trim();
+
+//a / b when both are positive numbers
+function ratio(a: unknown, b: unknown): number | null {
+  const x = toNumber(a), y = toNumber(b);
+  return x !== null && y !== null && x > 0 && y > 0 ? round(x / y) : null;
+}
+
+//the SKU, unit and quantity conversion in a human's corrections to one line
+//a conversion is learned only together with a corrected unit, from the corrected quantity or failing that the unit price;
+//a quantity fixed in the same unit is a one-off typo
+export function learnLineValues(line: InvoiceLineItem, corrections: FieldCorrection[]): LearnedLineValues {
+  const find = (property: LineItemProperty) => corrections.find(c => parseLineItemField(c.fieldName)?.property === property);
+  const sku = find('sku'), unit = find('unit'), qty = find('qty'), price = find('unitPrice');
+  const learnedSku = text(sku?.correctedValue), learnedUnit = text(unit?.correctedValue), fromUnit = text(unit ? unit.originalValue : line.unit);
+  const converts = learnedUnit !== undefined && !sameUnit(learnedUnit, fromUnit);
+  const factor = !converts ? null : (qty && ratio(qty.correctedValue, qty.originalValue ?? line.qty)) ?? (price && ratio(price.originalValue ?? line.unitPrice, price.correctedValue)) ?? null;
+  return {
+    ...(learnedSku && { sku: learnedSku }), ...(learnedUnit && { unit: learnedUnit }),
+    ...(factor !== null && factor !== 1 && { qtyConversion: { ...(fromUnit && { fromUnit }), factor } }),
+  };
+}
+
+//the properties a memory already knows with another value
+export function conflictingLineValues(memory: LearnedLineValues, learned: LearnedLineValues): (keyof LearnedLineValues)[] {
+  return (Object.keys(learned) as (keyof LearnedLineValues)[])
+    .filter(k => memory[k] !== undefined && JSON.stringify(memory[k]) !== JSON.stringify(learned[k]));
+}
+
+//what a memory changes on a line; quantities convert only while the line is still in the unit the conversion was learned from
+export function lineItemChanges(line: InvoiceLineItem, memory: LearnedLineValues): LineItemChange[] {
+  const changes: LineItemChange[] = [], conversion = memory.qtyConversion;
+  if (memory.sku && line.sku !== memory.sku) changes.push({ property: 'sku', before: line.sku ?? null, after: memory.sku });
+  if (conversion && sameUnit(line.unit, conversion.fromUnit)) {
+    const qty = toNumber(line.qty), price = toNumber(line.unitPrice);
+    if (qty !== null) changes.push({ property: 'qty', before: line.qty, after: round(qty * conversion.factor) });
+    if (price !== null) changes.push({ property: 'unitPrice', before: line.unitPrice, after: round(price / conversion.factor) });
+  }
+  if (memory.unit && !sameUnit(line.unit, memory.unit)) changes.push({ property: 'unit', before: line.unit ?? null, after: memory.unit });
+  return changes;
+}
+
+//e.g. SKU BOLT-99, unit pcs, qty ×100 from box
+export function describeLineValues(values: LearnedLineValues): string {
+  const c = values.qtyConversion;
+  return [values.sku && `SKU ${values.sku}`, values.unit && `unit ${values.unit}`, c && `qty ×${c.factor}${c.fromUnit ? ` from ${c.fromUnit}` : ''}`]
+    .filter(Boolean).join(', ') || 'nothing';
+}
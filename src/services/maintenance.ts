@@ -0,0 +1,91 @@
+//MaintenanceService: periodic housekeeping on stored memories
+//it answers: which memories have gone stale since they were last used?
+import type { AuditEntry } from '../models/index.js';
+import { CONFIDENCE_CONFIG } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import { getEffectiveConfidence } from './confidence.js';
+
+//audit entries for maintenance runs are not tied to an invoice
+export const MAINTENANCE_AUDIT_ID = 'maintenance';
+
+//one memory whose stored confidence was decayed
+export interface DecayedMemory {
+  memoryId: string;
+  memoryType: 'vendor' | 'correction' | 'line_item' | 'expectation';
+  before: number;
+  after: number;
+  daysIdle: number;
+  deactivated: boolean;
+}
+
+export interface DecayReport {
+  decayed: DecayedMemory[];
+  deactivatedCount: number;
+  auditEntry: AuditEntry;
+}
+
+//changes smaller than this are not worth a write
+const MIN_DECAY_DELTA = 0.001;
+
+export class MaintenanceService {
+  constructor(private repository: IMemoryRepository) {}
+
+  //write decayed confidence back and deactivate memories that fell below the minimum threshold
+  //the updates, their events and the audit entry commit together or not at all
+  decayMemories(now: Date = new Date()): DecayReport {
+    return this.repository.transaction(() => this.run(now));
+  }
+
+  private run(now: Date): DecayReport {
+    const decayed: DecayedMemory[] = [];
+
+    for (const m of this.repository.findActiveVendorMemories()) {
+      const entry = this.decay(m, 'vendor', now);
+      if (entry) { this.repository.updateVendorMemory(m.id, { confidence: entry.after, decayedAt: now, ...(entry.deactivated && { isActive: false }) }); decayed.push(entry); }
+    }
+    for (const m of this.repository.findActiveCorrectionMemories()) {
+      const entry = this.decay(m, 'correction', now);
+      if (entry) { this.repository.updateCorrectionMemory(m.id, { confidence: entry.after, decayedAt: now, ...(entry.deactivated && { isActive: false }) }); decayed.push(entry); }
+    }
+    for (const m of this.repository.findActiveLineItemMemories()) {
+      const entry = this.decay(m, 'line_item', now);
+      if (entry) { this.repository.updateLineItemMemory(m.id, { confidence: entry.after, decayedAt: now, ...(entry.deactivated && { isActive: false }) }); decayed.push(entry); }
+    }
+    for (const m of this.repository.findActiveExpectationMemories()) {
+      const entry = this.decay(m, 'expectation', now);
+      if (entry) { this.repository.updateExpectationMemory(m.id, { confidence: entry.after, decayedAt: now, ...(entry.deactivated && { isActive: false }) }); decayed.push(entry); }
+    }
+
+    for (const d of decayed) {
+      const event = { memoryId: d.memoryId, memoryType: d.memoryType, timestamp: now };
+      this.repository.saveMemoryEvent({ ...event, kind: 'decayed', oldConfidence: d.before, newConfidence: d.after, details: `${Math.round(d.daysIdle)} days unused` });
+      if (d.deactivated) this.repository.saveMemoryEvent({ ...event, kind: 'deactivated', newConfidence: d.after, details: 'decayed below the minimum confidence' });
+    }
+
+    const deactivatedCount = decayed.filter(d => d.deactivated).length;
+    const auditEntry: AuditEntry = {
+      step: 'maintenance', timestamp: now.toISOString(),
+      details: decayed.length
+        ? `Decayed ${decayed.length} memories, deactivated ${deactivatedCount}: ${decayed.map(d => `${d.memoryType} ${d.memoryId} ${d.before.toFixed(2)}→${d.after.toFixed(2)} (-${(d.before - d.after).toFixed(2)}, ${Math.round(d.daysIdle)}d idle${d.deactivated ? ', deactivated' : ''})`).join('; ')}`
+        : 'Decayed 0 memories',
+      payload: {
+        memoryIds: decayed.map(d => d.memoryId),
+        changes: decayed.map(d => ({ fieldName: 'confidence', before: d.before, after: d.after, memoryId: d.memoryId, applied: true })),
+        flags: { deactivated: deactivatedCount > 0 },
+      },
+    };
+    this.repository.saveAuditEntry({ ...auditEntry, invoiceId: MAINTENANCE_AUDIT_ID });
+
+    return { decayed, deactivatedCount, auditEntry };
+  }
+
+  private decay(m: { id: string; confidence: number; lastUsedAt: Date; decayedAt?: Date }, memoryType: DecayedMemory['memoryType'], now: Date): DecayedMemory | null {
+    const after = getEffectiveConfidence(m, now);
+    if (m.confidence - after < MIN_DECAY_DELTA) return null;
+    return {
+      memoryId: m.id, memoryType, before: m.confidence, after,
+      daysIdle: (now.getTime() - m.lastUsedAt.getTime()) / 864e5,
+      deactivated: after < CONFIDENCE_CONFIG.minimumThreshold,
+    };
+  }
+}
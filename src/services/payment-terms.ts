@@ -0,0 +1,89 @@
+//payment terms: Skonto tiers and the net period, parsed from the invoice and turned into due dates and amounts
+//  "2% Skonto if paid within 10 days"                          2% 10 days
+//  "2% 10 Tage, netto 30", "2/10 net 30"                       2% 10 days, net 30
+//  "3% bei Zahlung innerhalb 7 Tagen, 2% innerhalb 14 Tagen, 30 Tage netto"   3% 7 days, 2% 14 days, net 30
+//  "Zahlbar innerhalb 30 Tagen ohne Abzug"                     net 30
+import type { Invoice, PaymentTerms, DiscountTier } from '../models/index.js';
+import { parseAmount } from './amounts.js';
+
+//the normalized fields computed from the terms, invoiceDate and grossTotal
+export interface PaymentSchedule {
+  paymentTerms: PaymentTerms;
+  //the first tier's; later tiers are in paymentTerms
+  discountDueDate?: string;
+  discountAmount?: number;
+  netDueDate?: string;
+}
+
+const NUM = String.raw`(\d+(?:[.,]\d+)?)`, DAYS = String.raw`(\d{1,3})\s*(?:tagen?|days?)`;
+//words allowed between a percentage and its days, so "19% MwSt ... 30 Tage" is not a tier
+const FILLER = String.raw`(?:skonto|discount|rabatt|abzug|bei|if|when|paid|payment|zahlung|within|innerhalb|binnen|in|von|[ \t]|[,:/-])*`;
+const TIER = new RegExp(String.raw`${NUM}\s*%\s*${FILLER}?${DAYS}`, 'gi');
+const SHORT = new RegExp(String.raw`\b${NUM}\s*/\s*(\d{1,3})\s+net\s*(\d{1,3})\b`, 'gi');
+//"netto 30" needs a day unit or the end of the clause after the number, so "Summe netto 250,00" and "Net 840.00 EUR" are amounts
+const NET = [
+  new RegExp(String.raw`(?:netto|net|ohne abzug)\s*(?:innerhalb|within|binnen|in)?\s*(\d{1,3})(?!\d|[.,]\d)(?:\s*(?:tagen?|days?)\b|(?=[ \t]*(?:$|[\n,;.)])))`, 'i'),
+  new RegExp(String.raw`${DAYS}\s*(?:netto|net|ohne abzug)`, 'i'),
+  new RegExp(String.raw`(?:zahlbar|payable|due)\s*(?:innerhalb|within|binnen|in)?\s*${DAYS}`, 'i'),
+];
+
+const toNumber = (s: string) => Number(s.replace(',', '.'));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+//null when the text names neither a discount nor a net period
+export function parsePaymentTerms(text: string): PaymentTerms | null {
+  const tiers: DiscountTier[] = [];
+  let netDays: number | undefined;
+  for (const m of text.matchAll(SHORT)) {
+    tiers.push({ percentage: toNumber(m[1]!), days: Number(m[2]) });
+    netDays ??= Number(m[3]);
+  }
+  for (const m of text.matchAll(TIER)) tiers.push({ percentage: toNumber(m[1]!), days: Number(m[2]) });
+  //a net period is only read from text outside the tiers, so "2% 10 Tage" is not net 10
+  const rest = text.replace(SHORT, ' ').replace(TIER, ' ');
+  for (const re of NET) {
+    const m = rest.match(re);
+    if (m) { netDays ??= Number(m[1]); break; }
+  }
+  const discounts = tiers.filter(t => t.percentage > 0 && t.percentage < 100 && t.days > 0)
+    .filter((t, i, all) => all.findIndex(o => o.days === t.days && o.percentage === t.percentage) === i)
+    .sort((a, b) => a.days - b.days);
+  if (!discounts.length && netDays === undefined) return null;
+  return { discounts, ...(netDays !== undefined && netDays > 0 && { netDays }) };
+}
+
+//a discountTerms or paymentTerms field the extractor or a human filled in wins over rawText
+export function paymentTermsOf(invoice: Invoice, normalized: Readonly<Record<string, unknown>> = {}): PaymentTerms | null {
+  for (const field of ['discountTerms', 'paymentTerms']) {
+    const value = normalized[field] ?? invoice.fields[field]?.value;
+    if (isPaymentTerms(value)) return value;
+    if (typeof value === 'string' && value.trim()) {
+      const terms = parsePaymentTerms(value);
+      if (terms) return terms;
+    }
+  }
+  return invoice.rawText ? parsePaymentTerms(invoice.rawText) : null;
+}
+
+export function isPaymentTerms(value: unknown): value is PaymentTerms {
+  return typeof value === 'object' && value !== null && Array.isArray((value as PaymentTerms).discounts);
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 864e5).toISOString().slice(0, 10);
+
+//due dates count from the invoice date; the discount is taken off the gross total
+export function paymentSchedule(terms: PaymentTerms, invoiceDate: Date, grossTotal: unknown): PaymentSchedule {
+  const first = terms.discounts[0], valid = !Number.isNaN(invoiceDate.getTime());
+  const gross = typeof grossTotal === 'number' ? grossTotal : typeof grossTotal === 'string' ? parseAmount(grossTotal) : null;
+  return {
+    paymentTerms: terms,
+    ...(first && valid && { discountDueDate: addDays(invoiceDate, first.days) }),
+    ...(first && gross !== null && { discountAmount: round2(gross * first.percentage / 100) }),
+    ...(terms.netDays !== undefined && valid && { netDueDate: addDays(invoiceDate, terms.netDays) }),
+  };
+}
+
+//canonical text, also the expectation memory key: e.g. "3% 7 days, 2% 14 days, net 30"
+export function describePaymentTerms(terms: PaymentTerms): string {
+  return [...terms.discounts.map(t => `${t.percentage}% ${t.days} days`), ...(terms.netDays !== undefined ? [`net ${terms.netDays}`] : [])].join(', ') || 'none';
+}
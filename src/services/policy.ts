@@ -0,0 +1,121 @@
+//ConfidencePolicyService: per-vendor and per-field overrides of CONFIDENCE_CONFIG
+//it answers: how sure must the system be before it acts on this vendor's field, and how fast does it learn there?
+import { v4 as uuidv4 } from 'uuid';
+import { CONFIDENCE_CONFIG, type ConfidencePolicy, type PolicySettings, type AuditEntry } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import { normalizeVendorName } from './confidence.js';
+import { ADMIN_AUDIT_ID } from './admin.js';
+import { VendorRegistryService } from './vendors.js';
+
+export const POLICY_SETTINGS: readonly (keyof PolicySettings)[] = ['autoApplyThreshold', 'suggestionThreshold', 'reinforcementFactor', 'rejectionPenaltyFactor'];
+
+//settings for one vendor and field
+export type PolicyResolver = (vendorId: string, fieldName: string) => PolicySettings;
+
+export const GLOBAL_POLICY: PolicyResolver = () => CONFIDENCE_CONFIG;
+
+export class PolicyError extends Error {
+  constructor(message: string, public readonly reason: 'invalid_policy' | 'not_found') {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+//most specific first: vendor+field, field, vendor, then CONFIDENCE_CONFIG
+//each setting is resolved on its own, so a narrow policy only overrides what it sets
+//a field policy beats a vendor policy: "never auto-apply grossTotal" holds for trusted vendors too
+export function resolvePolicy(policies: ConfidencePolicy[], vendorId: string, fieldName: string): PolicySettings {
+  const matches = (v: string | null, f: string | null) => policies.find(p => p.vendorId === v && p.fieldName === f)?.overrides ?? {};
+  return { ...pick(CONFIDENCE_CONFIG), ...matches(vendorId, null), ...matches(null, fieldName), ...matches(vendorId, fieldName) };
+}
+
+const pick = (s: PolicySettings): PolicySettings => ({
+  autoApplyThreshold: s.autoApplyThreshold, suggestionThreshold: s.suggestionThreshold,
+  reinforcementFactor: s.reinforcementFactor, rejectionPenaltyFactor: s.rejectionPenaltyFactor,
+});
+
+export interface PolicyScope {
+  vendorId?: string;
+  fieldName?: string;
+}
+
+//null drops an override so the setting is inherited again
+export type PolicyOverrides = Partial<Record<keyof PolicySettings, number | null>>;
+
+export interface IConfidencePolicyService {
+  resolver(): PolicyResolver;
+  listPolicies(): ConfidencePolicy[];
+  setPolicy(scope: PolicyScope, overrides: PolicyOverrides, actor: string): ConfidencePolicy;
+  removePolicy(id: string, actor: string): ConfidencePolicy;
+}
+
+export class ConfidencePolicyService implements IConfidencePolicyService {
+  private vendors: VendorRegistryService;
+
+  constructor(private repository: IMemoryRepository) {
+    this.vendors = new VendorRegistryService(repository);
+  }
+
+  //snapshot of the stored policies, read once per invoice or feedback
+  resolver(): PolicyResolver {
+    const policies = this.repository.findConfidencePolicies();
+    return policies.length ? (vendorId, fieldName) => resolvePolicy(policies, normalizeVendorName(vendorId), fieldName) : GLOBAL_POLICY;
+  }
+
+  listPolicies(): ConfidencePolicy[] {
+    return this.repository.findConfidencePolicies();
+  }
+
+  //create the policy for a scope, or merge into the existing one
+  setPolicy(scope: PolicyScope, overrides: PolicyOverrides, actor: string): ConfidencePolicy {
+    const vendorId = scope.vendorId ? this.vendors.lookup(scope.vendorId) : null, fieldName = scope.fieldName || null;
+    if (!vendorId && !fieldName) throw new PolicyError('A policy needs a vendor, a field or both; change CONFIDENCE_CONFIG for global defaults', 'invalid_policy');
+
+    const issues: string[] = [];
+    for (const [key, value] of Object.entries(overrides)) {
+      if (!POLICY_SETTINGS.includes(key as keyof PolicySettings)) issues.push(`${key} is not a policy setting`);
+      else if (value !== null && !(typeof value === 'number' && value >= 0 && value <= 1)) issues.push(`${key} must be between 0 and 1`);
+    }
+
+    const policies = this.repository.findConfidencePolicies(), now = new Date();
+    const existing = policies.find(p => p.vendorId === vendorId && p.fieldName === fieldName);
+    const merged: Partial<PolicySettings> = { ...existing?.overrides };
+    for (const key of POLICY_SETTINGS) {
+      const value = overrides[key];
+      if (value === null) delete merged[key];
+      else if (value !== undefined) merged[key] = value;
+    }
+    const policy: ConfidencePolicy = { id: existing?.id ?? uuidv4(), vendorId, fieldName, overrides: merged, createdAt: existing?.createdAt ?? now, updatedAt: now };
+
+    const resolved = resolvePolicy([policy, ...policies.filter(p => p.id !== policy.id)], vendorId ?? '', fieldName ?? '');
+    if (resolved.suggestionThreshold > resolved.autoApplyThreshold) issues.push(`suggestionThreshold ${resolved.suggestionThreshold} is above autoApplyThreshold ${resolved.autoApplyThreshold}`);
+    if (issues.length) throw new PolicyError(issues.join('; '), 'invalid_policy');
+
+    this.repository.saveConfidencePolicy(policy);
+    this.audit(actor, `${existing ? 'updated' : 'created'} confidence policy ${policy.id} for ${describeScope(policy)}: ${describeOverrides(merged)}`, policy);
+    return policy;
+  }
+
+  removePolicy(id: string, actor: string): ConfidencePolicy {
+    const policy = this.repository.findConfidencePolicies().find(p => p.id === id);
+    if (!policy) throw new PolicyError(`No confidence policy with id ${id}`, 'not_found');
+    this.repository.deleteConfidencePolicy(id);
+    this.audit(actor, `removed confidence policy ${id} for ${describeScope(policy)}`, policy);
+    return policy;
+  }
+
+  //thresholds are keyed by field, '*' for a vendor-wide policy
+  private audit(actor: string, details: string, policy: ConfidencePolicy): void {
+    const entry: AuditEntry = {
+      step: 'admin', timestamp: new Date().toISOString(), details: `${actor} ${details}`,
+      payload: { ...(policy.vendorId && { vendorId: policy.vendorId }), ...(policy.fieldName && { fields: [policy.fieldName] }), thresholds: { [policy.fieldName ?? '*']: policy.overrides } },
+    };
+    this.repository.saveAuditEntry({ ...entry, invoiceId: ADMIN_AUDIT_ID });
+  }
+}
+
+export const describeScope = (p: Pick<ConfidencePolicy, 'vendorId' | 'fieldName'>) =>
+  p.vendorId && p.fieldName ? `${p.vendorId} / ${p.fieldName}` : p.vendorId ? `vendor ${p.vendorId}` : `field ${p.fieldName}`;
+
+export const describeOverrides = (o: Partial<PolicySettings>) =>
+  Object.entries(o).map(([k, v]) => `${k}=${v}`).join(', ') || 'no overrides';
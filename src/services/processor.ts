@@ -1,35 +1,93 @@
-// Stateful workflow orchestrator: Recall → Apply → Decide → Learn
-import type { Invoice, ProcessingResult, AuditEntry, HumanFeedback } from '../models/index.js';
+// Stateful workflow orchestrator: Recall → Apply → Validate → Decide → Learn
+import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
+import type { Invoice, ProcessingResult, AuditEntry, HumanFeedback, DeliveryNote, ProcessingSession, ContributingMemory, SuggestedCorrection } from '../models/index.js';
 import type { IMemoryRepository } from '../repository/memory-repository.js';
 import { RecallService, type IRecallService } from './recall.js';
-import { ApplyService, POMatchingService, type IApplyService, type AppliedMemory, type PurchaseOrder } from './apply.js';
-import { DecisionService, type IDecisionService } from './decision.js';
-import { LearnService, type ContributingMemory, type LearningResult } from './learn.js';
+import { ApplyService, POMatchingService, type IApplyService, type AppliedMemory, type PurchaseOrder, type DetectedPattern, type ProposedCorrection } from './apply.js';
+import { DeliveryNoteMatchingService } from './delivery.js';
+import { ValidationService, type IValidationService } from './validation.js';
+import { DecisionService, type IDecisionService, type Decision } from './decision.js';
+import { LearnService, type LearningResult, type RevertResult } from './learn.js';
+import { ConfidencePolicyService } from './policy.js';
+import { PatternDetectorRegistry } from './detectors.js';
 import { normalizeVendorName } from './confidence.js';
+import { collectDiscrepancies } from './resolution.js';
+import { toProcessedInvoice } from './duplicates.js';
+import { VendorRegistryService } from './vendors.js';
+
+export interface BatchOptions {
+  //stop at the first failure; the invoices after it are skipped
+  stopOnError?: boolean;
+  //called after each invoice in processing order, e.g. for progress output
+  onResult?: (item: BatchItemResult) => void;
+}
+
+export type BatchItemResult =
+  //duplicateOf: earlier invoices of this batch the invoice was flagged against
+  | { invoiceId: string; status: 'processed'; result: ProcessingResult; duplicateOf: string[] }
+  | { invoiceId: string; status: 'failed'; error: string }
+  | { invoiceId: string; status: 'skipped'; reason: string };
+
+export interface BatchSummary {
+  total: number;
+  autoAccepted: number;
+  needsReview: number;
+  failed: number;
+  skipped: number;
+  duplicatesInBatch: { invoiceId: string; duplicateOf: string[] }[];
+  //pattern type -> number of invoices it was detected on
+  patterns: Record<string, number>;
+  failures: { invoiceId: string; error: string }[];
+}
+
+export interface BatchResult {
+  results: BatchItemResult[];
+  summary: BatchSummary;
+}
+
+//what one run of the pipeline produced, beyond the public result
+interface PipelineRun {
+  result: ProcessingResult;
+  patterns: DetectedPattern[];
+  decision: Decision;
+}
 
 //public processor interface
 export interface IInvoiceProcessor {
   processInvoice(invoice: Invoice): ProcessingResult;
-  learnFromFeedback(feedback: HumanFeedback, invoice: Invoice): LearningResult;
+  processBatch(invoices: Invoice[], options?: BatchOptions): BatchResult;
+  learnFromFeedback(feedback: HumanFeedback, invoice?: Invoice): LearningResult;
+  revertFeedback(feedbackId: string, actor?: string): RevertResult;
   setPurchaseOrders(orders: PurchaseOrder[]): void;
+  setDeliveryNotes(notes: DeliveryNote[]): void;
 }
 
 //main orchestrator implementation
 export class InvoiceProcessor implements IInvoiceProcessor {
   private recallService: IRecallService;
   private applyService: IApplyService;
+  private validationService: IValidationService;
   private decisionService: IDecisionService;
   private learnService: LearnService;
   private repository: IMemoryRepository;
   private poMatchingService: POMatchingService;
+  private deliveryMatchingService: DeliveryNoteMatchingService;
+  private policyService: ConfidencePolicyService;
+  private vendorRegistry: VendorRegistryService;
 
-  constructor(repository: IMemoryRepository) {
+  //detectors: pattern checks run on every invoice, the built-ins unless a registry is given
+  constructor(repository: IMemoryRepository, detectors: PatternDetectorRegistry = new PatternDetectorRegistry()) {
     this.repository = repository;
     this.recallService = new RecallService(repository);
-    this.applyService = new ApplyService();
-    this.decisionService = new DecisionService(repository);
+    this.applyService = new ApplyService(detectors);
+    this.validationService = new ValidationService();
+    this.decisionService = new DecisionService(repository, detectors);
     this.learnService = new LearnService(repository);
-    this.poMatchingService = new POMatchingService();
+    this.vendorRegistry = new VendorRegistryService(repository);
+    this.poMatchingService = new POMatchingService(name => this.vendorRegistry.lookup(name));
+    this.deliveryMatchingService = new DeliveryNoteMatchingService(name => this.vendorRegistry.lookup(name));
+    this.policyService = new ConfidencePolicyService(repository);
   }
 
   //Inject external purchase orders for PO matching
@@ -37,25 +95,80 @@ export class InvoiceProcessor implements IInvoiceProcessor {
     this.poMatchingService.setPurchaseOrders(orders);
   }
 
-  //process a single invoice through the full pipeline
+  //Inject delivery notes to enable three-way matching
+  setDeliveryNotes(notes: DeliveryNote[]): void {
+    this.deliveryMatchingService.setDeliveryNotes(notes);
+  }
+
+  //process a single invoice through the full pipeline; its writes commit together or not at all
   processInvoice(invoice: Invoice): ProcessingResult {
+    return this.repository.transaction(() => this.run(invoice)).result;
+  }
+
+  //process a daily drop: oldest invoice first, so duplicates within the batch are caught against the earlier copy
+  //a failing invoice is rolled back and recorded, the rest keep going
+  processBatch(invoices: Invoice[], options: BatchOptions = {}): BatchResult {
+    const time = (i: Invoice) => { const t = i.invoiceDate.getTime(); return Number.isNaN(t) ? Infinity : t; };
+    const ordered = invoices.map((invoice, index) => ({ invoice, index })).sort((a, b) => time(a.invoice) - time(b.invoice) || a.index - b.index);
+    const results: BatchItemResult[] = [], seen = new Set<string>();
+    const summary: BatchSummary = { total: invoices.length, autoAccepted: 0, needsReview: 0, failed: 0, skipped: 0, duplicatesInBatch: [], patterns: {}, failures: [] };
+    let stopped: string | undefined;
+
+    for (const { invoice } of ordered) {
+      let item: BatchItemResult;
+      if (stopped) item = { invoiceId: invoice.id, status: 'skipped', reason: `batch stopped after ${stopped} failed` };
+      else if (seen.has(invoice.id)) item = { invoiceId: invoice.id, status: 'skipped', reason: `invoice ${invoice.id} appears earlier in this batch` };
+      else {
+        try {
+          const { result, patterns, decision } = this.repository.transaction(() => this.run(invoice));
+          const duplicateOf = (decision.duplicateWarning?.potentialDuplicateIds ?? []).filter(id => seen.has(id));
+          item = { invoiceId: invoice.id, status: 'processed', result, duplicateOf };
+          if (duplicateOf.length) summary.duplicatesInBatch.push({ invoiceId: invoice.id, duplicateOf });
+          for (const type of new Set(patterns.map(p => p.type))) summary.patterns[type] = (summary.patterns[type] ?? 0) + 1;
+          if (result.requiresHumanReview) summary.needsReview++; else summary.autoAccepted++;
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          item = { invoiceId: invoice.id, status: 'failed', error };
+          summary.failed++; summary.failures.push({ invoiceId: invoice.id, error });
+          if (options.stopOnError) stopped = invoice.id;
+        }
+      }
+      if (item.status === 'skipped') summary.skipped++;
+      seen.add(invoice.id);
+      results.push(item);
+      options.onResult?.(item);
+    }
+    return { results, summary };
+  }
+
+  private run(received: Invoice): PipelineRun {
     const auditTrail: AuditEntry[] = [];
 
+    //Step 0: every later step sees the canonical vendor, whatever spelling the invoice used
+    const invoice: Invoice = { ...received, vendorId: this.vendorRegistry.resolve(received) };
+
     //Step 1: Recall relevant memories
     const recallResult = this.recallService.recallMemories(invoice);
     auditTrail.push(recallResult.auditEntry);
     this.saveAuditEntry(invoice.id, recallResult.auditEntry);
 
     //Step 2: Apply memories to invoice
-    const applyResult = this.applyService.applyMemories(invoice, recallResult.memories);
+    const policyFor = this.policyService.resolver();
+    const applyResult = this.applyService.applyMemories(invoice, recallResult.memories, policyFor);
     auditTrail.push(applyResult.auditEntry);
     this.saveAuditEntry(invoice.id, applyResult.auditEntry);
+    this.recordUsage(applyResult.appliedResult.appliedMemories);
+
+    //matching reads lines as applied, so SKUs recovered by line item memories count
+    const normalizedLines = applyResult.appliedResult.normalizedInvoice['lineItems'], linesField = invoice.fields['lineItems'];
+    const matchable: Invoice = linesField ? { ...invoice, fields: { ...invoice.fields, lineItems: { ...linesField, value: normalizedLines } } } : invoice;
 
     //Step 2.5: PO Matching if no PO number
-    const detectedPatterns = [...applyResult.detectedPatterns];
-    if (!applyResult.appliedResult.normalizedInvoice['poNumber']) {
+    let detectedPatterns = [...applyResult.detectedPatterns];
+    let poNumber = (applyResult.appliedResult.normalizedInvoice['poNumber'] as string | null | undefined) ?? null;
+    if (!poNumber) {
       const poMatch = this.poMatchingService.findMatchingPO({
-        vendorId: invoice.vendorId, invoiceDate: invoice.invoiceDate, fields: invoice.fields,
+        vendorId: invoice.vendorId, invoiceDate: invoice.invoiceDate, fields: matchable.fields,
       });
       if (poMatch.matchedPO && poMatch.confidence >= 0.5) {
         detectedPatterns.push({
@@ -66,57 +179,98 @@ export class InvoiceProcessor implements IInvoiceProcessor {
         if (poMatch.confidence >= 0.7) {
           applyResult.appliedResult.proposedCorrections.push({
             fieldName: 'poNumber', currentValue: null, suggestedValue: poMatch.matchedPO.poNumber,
-            memoryId: 'po-matching-service', confidence: poMatch.confidence,
+            source: 'po_matching', memoryId: 'po-matching-service', confidence: poMatch.confidence,
             reasoning: `PO matching: ${poMatch.matchReasons.join(', ')}`,
           });
+          poNumber = poMatch.matchedPO.poNumber;
         }
 
       }
     }
 
-    //Register contributing memories for learning
-    this.learnService.registerContributingMemories(invoice.id, this.extractContributingMemories(applyResult.appliedResult.appliedMemories));
+    //Step 2.6: Three-way matching against delivery notes
+    if (this.deliveryMatchingService.hasDeliveryNotes()) {
+      const po = poNumber ? this.poMatchingService.findByNumber(poNumber) : null;
+      detectedPatterns.push(...this.deliveryMatchingService.detectPatterns(matchable, poNumber, po));
+    }
+
+    //Step 2.7: Arithmetic validation of totals
+    const validationResult = this.validationService.validateTotals(invoice, applyResult.appliedResult.normalizedInvoice, detectedPatterns);
+    detectedPatterns = validationResult.detectedPatterns;
+    applyResult.appliedResult.proposedCorrections.push(...validationResult.proposedCorrections);
+    auditTrail.push(validationResult.auditEntry);
+    this.saveAuditEntry(invoice.id, validationResult.auditEntry);
 
     //Step 3: Decision
-    const decisionResult = this.decisionService.makeDecision(applyResult.appliedResult, invoice, detectedPatterns);
+    const decisionResult = this.decisionService.makeDecision(applyResult.appliedResult, invoice, detectedPatterns, policyFor);
     auditTrail.push(decisionResult.auditEntry);
     this.saveAuditEntry(invoice.id, decisionResult.auditEntry);
 
+    //Persist the session so feedback can be learned from after a restart
+    const decision = decisionResult.decision, suggestions = toSuggestions(invoice.id, applyResult.appliedResult.proposedCorrections);
+    const session: ProcessingSession = {
+      id: uuidv4(), invoiceId: invoice.id, vendorId: normalizeVendorName(invoice.vendorId), invoice,
+      contributingMemories: this.extractContributingMemories(applyResult.appliedResult.appliedMemories),
+      proposedCorrections: suggestions.map(({ id, source, fieldName, currentValue, suggestedValue, sourceId, confidence }) => ({ id, source, fieldName, currentValue, suggestedValue, memoryId: sourceId, confidence })),
+      discrepancies: collectDiscrepancies(detectedPatterns, decision.duplicateWarning),
+      decision: {
+        requiresHumanReview: decision.requiresHumanReview, confidenceScore: decision.overallConfidence, reasoning: decision.reasoning,
+        flaggedFields: decision.flaggedFields, escalatedDiscrepancies: decision.escalatedDiscrepancies,
+      },
+      status: 'open', processedAt: new Date(),
+    };
+    this.repository.saveProcessingSession(session);
+
     //Record for duplicate detection
-    this.repository.saveProcessedInvoice(invoice.id, normalizeVendorName(invoice.vendorId), invoice.invoiceNumber, invoice.invoiceDate);
+    this.repository.saveProcessedInvoice(toProcessedInvoice(invoice, applyResult.appliedResult.normalizedInvoice));
 
-    return {
+    const result: ProcessingResult = {
+      sessionId: session.id,
       normalizedInvoice: applyResult.appliedResult.normalizedInvoice,
-      proposedCorrections: this.buildProposedCorrectionsStrings(applyResult.appliedResult.proposedCorrections, detectedPatterns),
+      suggestions,
+      proposedCorrections: this.buildProposedCorrectionsStrings(suggestions, detectedPatterns),
       requiresHumanReview: decisionResult.decision.requiresHumanReview,
       reasoning: decisionResult.decision.reasoning,
       confidenceScore: Math.max(0, Math.min(1, decisionResult.decision.overallConfidence)),
-      memoryUpdates: [`Recorded invoice ${invoice.id} for duplicate detection`],
+      memoryUpdates: [`Recorded invoice ${invoice.id} for duplicate detection`, `Saved processing session ${session.id}`],
       auditTrail,
     };
+    return { result, patterns: detectedPatterns, decision };
   }
 
-  learnFromFeedback(feedback: HumanFeedback, invoice: Invoice): LearningResult {
+  learnFromFeedback(feedback: HumanFeedback, invoice?: Invoice): LearningResult {
     return this.learnService.learnFromFeedback(feedback, invoice);
   }
 
+  revertFeedback(feedbackId: string, actor?: string): RevertResult {
+    return this.learnService.revertFeedback(feedbackId, actor);
+  }
+
+  //memories that auto-applied a value count as used, so they do not decay while they keep working unreviewed
+  private recordUsage(appliedMemories: AppliedMemory[]): void {
+    const now = new Date();
+    for (const m of appliedMemories) {
+      if (m.memoryType !== 'resolution' && m.action === 'auto_applied' && m.extractedValue !== undefined) this.repository.updateMemory(m.memoryType, m.memoryId, { lastUsedAt: now });
+    }
+  }
+
   private extractContributingMemories(appliedMemories: AppliedMemory[]): ContributingMemory[] {
     return appliedMemories
-      .filter(m => m.memoryType === 'vendor' || m.memoryType === 'correction')
+      .filter(m => m.memoryType !== 'resolution')
       .map(m => ({ 
         memoryId: m.memoryId, 
-        memoryType: m.memoryType as 'vendor' | 'correction', 
+        memoryType: m.memoryType as ContributingMemory['memoryType'], 
         fieldName: m.fieldName,
         extractedValue: m.extractedValue 
       }));
   }
 
   private buildProposedCorrectionsStrings(
-    corrections: { fieldName: string; currentValue: unknown; suggestedValue: unknown; memoryId: string; confidence: number; reasoning: string }[],
+    suggestions: SuggestedCorrection[],
     patterns: { type: string; suggestedAction?: string; fieldName?: string }[]
   ): string[] {
     return [
-      ...corrections.map(c => `${c.fieldName}: "${c.currentValue}" → "${c.suggestedValue}" (memory: ${c.memoryId}, confidence: ${c.confidence.toFixed(2)}) - ${c.reasoning}`),
+      ...suggestions.map(c => `${c.fieldName}: "${c.currentValue}" → "${c.suggestedValue}" (memory: ${c.sourceId}, confidence: ${c.confidence.toFixed(2)}) - ${c.reasoning}`),
       ...patterns.filter(p => p.suggestedAction).map(p => `[${p.type}]${p.fieldName ? ` [${p.fieldName}]` : ''}: ${p.suggestedAction}`),
     ];
   }
@@ -125,3 +279,14 @@ export class InvoiceProcessor implements IInvoiceProcessor {
     this.repository.saveAuditEntry({ ...entry, invoiceId });
   }
 }
+
+//give each proposed correction its stable id; a repeat of the same suggestion gets a suffix
+function toSuggestions(invoiceId: string, corrections: ProposedCorrection[]): SuggestedCorrection[] {
+  const seen = new Map<string, number>();
+  return corrections.map(({ memoryId, ...c }) => {
+    const key = createHash('sha256').update(JSON.stringify([invoiceId, c.fieldName, c.source, memoryId, c.suggestedValue])).digest('hex').slice(0, 12);
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return { id: `sug-${key}${n > 1 ? `-${n}` : ''}`, ...c, sourceId: memoryId };
+  });
+}
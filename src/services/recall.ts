@@ -1,14 +1,19 @@
-//RecallService: Gathers relevant memories for an invoice (vendor, correction, resolution)
+//RecallService: Gathers relevant memories for an invoice (vendor, correction, line item, expectation, resolution)
 //it answers: what do we know about this vendor?
-import type { Invoice, VendorMemory, CorrectionMemory, ResolutionMemory, AuditEntry } from '../models/index.js';
+import type { Invoice, VendorMemory, CorrectionMemory, LineItemMemory, ExpectationMemory, ResolutionMemory, AuditEntry } from '../models/index.js';
 import { CONFIDENCE_CONFIG } from '../models/index.js';
 import type { IMemoryRepository } from '../repository/memory-repository.js';
-import { normalizeVendorName } from './confidence.js';
+import { normalizeVendorName, getEffectiveConfidence } from './confidence.js';
+
+//stored memory plus its time-decayed confidence at recall time
+export type Recalled<T> = T & { effectiveConfidence: number };
 
 //this is the memory context thaat will be passes to the Apply service
 export interface RecalledMemories {
-  vendorMemories: VendorMemory[];
-  correctionMemories: CorrectionMemory[];
+  vendorMemories: Recalled<VendorMemory>[];
+  correctionMemories: Recalled<CorrectionMemory>[];
+  lineItemMemories: Recalled<LineItemMemory>[];
+  expectationMemories: Recalled<ExpectationMemory>[];
   resolutionMemories: ResolutionMemory[];
 }
 //recall operation returns: memories and produces audit entry
@@ -31,16 +36,22 @@ export class RecallService implements IRecallService {
     const memories: RecalledMemories = {
       vendorMemories: this.filterByConfidence(this.repository.findVendorMemories(vendorId)),
       correctionMemories: this.recallCorrectionMemories(vendorId, fieldNames),
+      //line item memories only matter when the invoice has lines
+      lineItemMemories: invoice.fields['lineItems'] ? this.filterByConfidence(this.repository.findLineItemMemories(vendorId)) : [],
+      expectationMemories: this.filterByConfidence(this.repository.findExpectationMemories(vendorId)),
       resolutionMemories: this.recallResolutionMemories(invoice),
     };
 
     return {
       memories,
-      auditEntry: { step: 'recall', timestamp: new Date().toISOString(), details: this.buildAuditDetails(memories, invoice) },
+      auditEntry: {
+        step: 'recall', timestamp: new Date().toISOString(), details: this.buildAuditDetails(memories, invoice),
+        payload: { vendorId, memoryIds: [...memories.vendorMemories, ...memories.correctionMemories, ...memories.lineItemMemories, ...memories.expectationMemories, ...memories.resolutionMemories].map(m => m.id) },
+      },
     };
   }
 
-  private recallCorrectionMemories(vendorId: string, fieldNames: string[]): CorrectionMemory[] {
+  private recallCorrectionMemories(vendorId: string, fieldNames: string[]): Recalled<CorrectionMemory>[] {
     const seen = new Set<string>(), all: CorrectionMemory[] = [];
     for (const field of fieldNames) {
       for (const m of [...this.repository.findCorrectionMemories(vendorId, field), ...this.repository.findCorrectionMemories(null, field)]) {
@@ -81,18 +92,24 @@ export class RecallService implements IRecallService {
     return types;
   }
 
-  private filterByConfidence<T extends { confidence: number }>(memories: T[]): T[] {
-    return memories.filter(m => m.confidence >= CONFIDENCE_CONFIG.minimumThreshold).sort((a, b) => b.confidence - a.confidence);
+  //filter and rank by decayed confidence, so long-unused memories fade out of recall
+  private filterByConfidence<T extends { confidence: number; lastUsedAt: Date; decayedAt?: Date }>(memories: T[]): Recalled<T>[] {
+    const now = new Date();
+    return memories.map(m => ({ ...m, effectiveConfidence: getEffectiveConfidence(m, now) }))
+      .filter(m => m.effectiveConfidence >= CONFIDENCE_CONFIG.minimumThreshold)
+      .sort((a, b) => b.effectiveConfidence - a.effectiveConfidence);
   }
 
   private buildAuditDetails(memories: RecalledMemories, invoice: Invoice): string {
-    const { vendorMemories: v, correctionMemories: c, resolutionMemories: r } = memories;
-    const total = v.length + c.length + r.length;
+    const { vendorMemories: v, correctionMemories: c, lineItemMemories: l, expectationMemories: e, resolutionMemories: r } = memories;
+    const total = v.length + c.length + l.length + e.length + r.length;
     if (total === 0) return `Recalled 0 memories for invoice ${invoice.id} from vendor ${invoice.vendorName}. No relevant memories found.`;
 
     const parts = [`Recalled ${total} memories for invoice ${invoice.id} from vendor ${invoice.vendorName}:`];
-    if (v.length) parts.push(`${v.length} vendor memories (top: ${v[0]!.originalFieldName} → ${v[0]!.normalizedFieldName}, conf: ${v[0]!.confidence.toFixed(2)})`);
-    if (c.length) parts.push(`${c.length} correction memories (top: ${c[0]!.fieldName}, conf: ${c[0]!.confidence.toFixed(2)})`);
+    if (v.length) parts.push(`${v.length} vendor memories (top: ${v[0]!.originalFieldName} → ${v[0]!.normalizedFieldName}, conf: ${v[0]!.effectiveConfidence.toFixed(2)})`);
+    if (c.length) parts.push(`${c.length} correction memories (top: ${c[0]!.fieldName}, conf: ${c[0]!.effectiveConfidence.toFixed(2)})`);
+    if (l.length) parts.push(`${l.length} line item memories (top: "${l[0]!.description}", conf: ${l[0]!.effectiveConfidence.toFixed(2)})`);
+    if (e.length) parts.push(`${e.length} expectation memories (top: ${e[0]!.aspect} "${e[0]!.valueKey}", conf: ${e[0]!.effectiveConfidence.toFixed(2)})`);
     if (r.length) {
       const top = r[0]!, rate = (top.approvalCount / (top.approvalCount + top.rejectionCount) * 100).toFixed(0);
       parts.push(`${r.length} resolution memories (top: ${top.discrepancyType}, approval rate: ${rate}%)`);
@@ -0,0 +1,43 @@
+//resolution helpers: which discrepancies an invoice raised and how humans resolved them before
+//it answers: do reviewers always wave this through for this vendor, or always send it back?
+import type { ResolutionMemory, Discrepancy } from '../models/index.js';
+import { CONFIDENCE_CONFIG } from '../models/index.js';
+import type { DetectedPattern } from './apply.js';
+import type { DuplicateWarning } from './decision.js';
+
+export type { Discrepancy } from '../models/index.js';
+
+export type ResolutionVerdict = 'auto_approve' | 'escalate' | 'undecided';
+
+//discrepancies that are never waived, however often humans approved them
+const NON_WAIVABLE = new Set(['duplicate']);
+
+//collect the discrepancies raised while processing an invoice
+export function collectDiscrepancies(patterns: DetectedPattern[], duplicateWarning?: DuplicateWarning): Discrepancy[] {
+  const seen = new Set<string>(), out: Discrepancy[] = [];
+  const all: Discrepancy[] = [...patterns.map(p => ({ type: p.type, ...(p.fieldName && { fieldName: p.fieldName }) })), ...(duplicateWarning ? [{ type: 'duplicate' }] : [])];
+  for (const d of all) {
+    const key = `${d.type}|${d.fieldName ?? '*'}`;
+    if (!seen.has(key)) { seen.add(key); out.push(d); }
+  }
+  return out;
+}
+
+//stable fingerprint of the context a discrepancy occurred in
+export function buildContextFingerprint(vendorId: string, d: Discrepancy): string {
+  return `${vendorId}|${d.type}|${d.fieldName ?? '*'}`;
+}
+
+export function approvalRate(m: ResolutionMemory): number {
+  const total = m.approvalCount + m.rejectionCount;
+  return total ? m.approvalCount / total : 0;
+}
+
+//map past outcomes to a verdict once there is enough history
+export function resolveVerdict(m: ResolutionMemory | undefined): ResolutionVerdict {
+  if (!m || m.approvalCount + m.rejectionCount < CONFIDENCE_CONFIG.minResolutionSamples) return 'undecided';
+  const rate = approvalRate(m);
+  if (rate >= CONFIDENCE_CONFIG.resolutionAutoApproveRate && !NON_WAIVABLE.has(m.discrepancyType)) return 'auto_approve';
+  if (rate <= CONFIDENCE_CONFIG.resolutionEscalateRate) return 'escalate';
+  return 'undecided';
+}
@@ -0,0 +1,77 @@
+//tax treatment and VAT breakdown: which rates an invoice charges, or whether the recipient owes the VAT instead
+//  "Steuerschuldnerschaft des Leistungsempfängers", "reverse charge", "§13b UStG"              reverse_charge
+//  "steuerfreie innergemeinschaftliche Lieferung", "intra-community supply", "§4 Nr. 1b UStG"   intra_community_supply
+//  anything else                                                                                domestic, e.g. 7% + 19%
+import type { Invoice, TaxBreakdownEntry, TaxProfile, TaxTreatment } from '../models/index.js';
+import { lineItemsOf } from './line-items.js';
+import { parseAmount } from './amounts.js';
+
+export const TAX_TREATMENTS: readonly TaxTreatment[] = ['domestic', 'reverse_charge', 'intra_community_supply'];
+
+const WORDING: readonly [TaxTreatment, RegExp][] = [
+  ['reverse_charge', /steuerschuldnerschaft des leistungsempf(?:ä|ae)ngers|reverse[ -]charge|§\s*13b\s*ustg/i],
+  ['intra_community_supply', /innergemeinschaftliche\s+(?:lieferung|leistung)|intra-community\s+(?:supply|delivery)|§\s*4\s*nr\.?\s*1\s*b\s*ustg/i],
+];
+const LABELS: Record<TaxTreatment, string> = { domestic: 'domestic', reverse_charge: 'reverse charge', intra_community_supply: 'intra-community supply' };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const amount = (v: unknown): number | null => typeof v === 'number' ? (Number.isFinite(v) ? v : null) : typeof v === 'string' && v.trim() ? parseAmount(v.trim()) : null;
+
+//reverse charge wins when an invoice names both
+export function detectTaxTreatment(text: string): TaxTreatment {
+  return WORDING.find(([, re]) => re.test(text))?.[0] ?? 'domestic';
+}
+
+export const isTaxTreatment = (value: unknown): value is TaxTreatment => TAX_TREATMENTS.includes(value as TaxTreatment);
+
+//rates are decimals below 1; 0.19, 19 and "19%" are the same rate
+//a number of 1 or more, or any figure written with "%", is a percentage, so 1 is 1% and "0.5%" is 0.005
+export function toRate(value: unknown): number | null {
+  const percent = typeof value === 'string' && value.includes('%');
+  const n = amount(percent ? value.replace('%', '') : value);
+  if (n === null || n < 0 || n >= 100) return null;
+  return Math.round((percent || n >= 1 ? n / 100 : n) * 1e4) / 1e4;
+}
+
+//a printed breakdown such as [{ rate: 19, net: 800, tax: 152 }, { rate: '7%', net: 200, tax: 14 }]; null unless every entry reads
+export function parseTaxBreakdown(value: unknown): TaxBreakdownEntry[] | null {
+  if (!Array.isArray(value) || !value.length) return null;
+  const entries = value.map((e: Record<string, unknown> | null) => {
+    const rate = toRate(e?.['rate']), net = amount(e?.['net']), tax = amount(e?.['tax']);
+    return rate !== null && net !== null && tax !== null ? { rate, net, tax } : null;
+  });
+  return entries.every(e => e !== null) ? (entries as TaxBreakdownEntry[]).sort((a, b) => a.rate - b.rate) : null;
+}
+
+//the lines' net per rate, tax computed; null unless every line is priced and has a rate of its own or the invoice's
+export function lineTaxBreakdown(lineItems: unknown, invoiceRate: unknown): TaxBreakdownEntry[] | null {
+  const lines = lineItemsOf(lineItems), fallback = toRate(invoiceRate), byRate = new Map<number, number>();
+  if (!lines.length) return null;
+  for (const line of lines) {
+    const rate = line.taxRate != null ? toRate(line.taxRate) : fallback;
+    if (rate === null || typeof line.qty !== 'number' || typeof line.unitPrice !== 'number') return null;
+    byRate.set(rate, (byRate.get(rate) ?? 0) + line.qty * line.unitPrice);
+  }
+  return [...byRate].sort(([a], [b]) => a - b).map(([rate, net]) => ({ rate, net: round2(net), tax: round2(net * rate) }));
+}
+
+//a taxTreatment field a human set wins over the wording in rawText; domestic rates come from the breakdown, else taxRate
+//null for domestic invoices that name no rate
+export function taxProfileOf(invoice: Invoice, normalized: Readonly<Record<string, unknown>> = {}): TaxProfile | null {
+  const field = (name: string) => normalized[name] ?? invoice.fields[name]?.value;
+  const set = field('taxTreatment'), treatment = isTaxTreatment(set) ? set : detectTaxTreatment(invoice.rawText ?? '');
+  if (treatment !== 'domestic') return { treatment, rates: [] };
+  const breakdown = parseTaxBreakdown(field('taxBreakdown')) ?? lineTaxBreakdown(field('lineItems'), field('taxRate'));
+  const rates = breakdown ? breakdown.map(e => e.rate) : [toRate(field('taxRate'))];
+  const charged = [...new Set(rates.filter((r): r is number => r !== null && r > 0))].sort((a, b) => a - b);
+  return charged.length ? { treatment, rates: charged } : null;
+}
+
+export const describeRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+//canonical text, also the expectation memory key: e.g. "domestic 7% + 19%", "reverse charge"
+export function describeTaxProfile(profile: TaxProfile): string {
+  return profile.treatment === 'domestic' ? `${LABELS.domestic} ${profile.rates.map(describeRate).join(' + ')}` : LABELS[profile.treatment];
+}
+
+export const describeTaxTreatment = (treatment: TaxTreatment) => LABELS[treatment];
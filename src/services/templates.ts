@@ -0,0 +1,79 @@
+//extraction templates: where a vendor puts a value in rawText, learned from the value a human entered
+//learnTemplate finds the corrected value in the text; extractWithTemplate finds it again on the next invoice
+import type { ExtractionTemplate, ValueFormat } from '../models/index.js';
+import { parseAmount } from './amounts.js';
+
+const VALUE_PATTERNS: Record<Exclude<ValueFormat, 'code'>, string> = {
+  date_dmy: String.raw`\d{1,2}[./]\d{1,2}[./]\d{4}`,
+  date_iso: String.raw`\d{4}-\d{2}-\d{2}`,
+  amount: String.raw`(?:\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?!\d)`,
+  text: String.raw`[^\n]*\S`,
+};
+
+//separators between a label and its value
+const SEPARATOR = String.raw`[\s:#.=\-–]*`;
+const MAX_LABEL_LENGTH = 40;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+//PO-A-051 → [A-Z]+-[A-Z]+-\d+: the vendor's code shape, not the code itself
+const codeShape = (value: string) => value.replace(/[A-Z]+|\d+|[^A-Z\d]/gi, run => /^\d/.test(run) ? String.raw`\d+` : /^[A-Z]/i.test(run) ? '[A-Z]+' : escapeRegex(run));
+
+//the ways a corrected value can be written on the invoice, most specific first
+function renderings(value: unknown): { text: string; format: ValueFormat; pattern: string }[] {
+  const s = String(value ?? '').trim();
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const [, y, m, d] = iso;
+    return [
+      ...[`${d}.${m}.${y}`, `${+d!}.${+m!}.${y}`, `${d}/${m}/${y}`].map(text => ({ text, format: 'date_dmy' as const, pattern: VALUE_PATTERNS.date_dmy })),
+      { text: s, format: 'date_iso', pattern: VALUE_PATTERNS.date_iso },
+    ];
+  }
+  const n = typeof value === 'number' ? value : /^-?\d+(?:\.\d+)?$/.test(s) ? Number(s) : null;
+  if (n !== null && Number.isFinite(n)) {
+    const fixed = Math.abs(n).toFixed(2), [int, dec] = fixed.split('.') as [string, string];
+    const grouped = (sep: string) => int.replace(/\B(?=(\d{3})+(?!\d))/g, sep);
+    const texts = [`${grouped('.')},${dec}`, `${grouped(',')}.${dec}`, `${int},${dec}`, fixed, ...(Number.isInteger(n) ? [String(Math.abs(n))] : [])];
+    return [...new Set(texts)].map(text => ({ text, format: 'amount', pattern: VALUE_PATTERNS.amount }));
+  }
+  if (!s) return [];
+  const isCode = /\d/.test(s) && /^[A-Z\d]+(?:[-/][A-Z\d]+)+$/i.test(s);
+  return [{ text: s, format: isCode ? 'code' : 'text', pattern: isCode ? codeShape(s) : VALUE_PATTERNS.text }];
+}
+
+//locate the value in rawText and remember its label, format and line
+export function learnTemplate(rawText: string | undefined, value: unknown): ExtractionTemplate | null {
+  if (!rawText) return null;
+  const lines = rawText.split('\n');
+  for (const r of renderings(value)) {
+    const standalone = new RegExp(`(?<![\\w.,])${escapeRegex(r.text)}(?![\\w]|[.,]\\d)`, 'i');
+    for (const [i, line] of lines.entries()) {
+      const m = standalone.exec(line);
+      if (!m) continue;
+      //label on the same line before the value, or alone on the line above
+      const before = line.slice(0, m.index).replace(new RegExp(`${SEPARATOR}$`), '').trim();
+      const label = before || (lines[i - 1] ?? '').replace(new RegExp(`${SEPARATOR}$`), '').trim();
+      if (!label || label.length > MAX_LABEL_LENGTH) continue;
+      return { label, valueFormat: r.format, valuePattern: r.pattern, lineContext: before ? `${line.slice(0, m.index)}{value}${line.slice(m.index + m[0].length)}`.trim() : `${label}\n{value}` };
+    }
+  }
+  return null;
+}
+
+//pull the value the template describes, normalized like a human would have entered it
+export function extractWithTemplate(rawText: string | undefined, template: ExtractionTemplate): unknown {
+  if (!rawText) return null;
+  const m = rawText.match(new RegExp(`(?<!\\w)${escapeRegex(template.label)}${SEPARATOR}(${template.valuePattern})`, 'i'));
+  return m?.[1] ? normalizeTemplateValue(m[1].trim(), template.valueFormat) : null;
+}
+
+function normalizeTemplateValue(value: string, format: ValueFormat): unknown {
+  if (format === 'date_dmy') {
+    const [d, m, y] = value.split(/[./]/);
+    return `${y}-${m!.padStart(2, '0')}-${d!.padStart(2, '0')}`;
+  }
+  return format === 'amount' ? parseAmount(value) : value;
+}
+
+export const describeTemplate = (t: ExtractionTemplate) => `"${t.lineContext.replace('{value}', `{${t.valueFormat}}`).replace('\n', ' / ')}"`;
@@ -0,0 +1,169 @@
+//ValidationService: arithmetic consistency of extracted totals
+//it answers: do net, tax, gross and the line items actually add up, at every VAT rate?
+import type { Invoice, AuditEntry } from '../models/index.js';
+import type { DetectedPattern, ProposedCorrection } from './apply.js';
+import { normalizeVendorName } from './confidence.js';
+import { parseTaxBreakdown, lineTaxBreakdown, describeRate, toRate } from './tax.js';
+import { parseAmount } from './amounts.js';
+
+//reverse_charge_tax: VAT charged although the recipient owes it
+export type ValidationIssueType = 'totals_mismatch' | 'tax_calculation_mismatch' | 'line_sum_mismatch' | 'tax_breakdown_mismatch' | 'line_tax_mismatch' | 'reverse_charge_tax';
+
+//one failed check, expected is what the other figures imply
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  fieldName: string;
+  expected: number;
+  actual: number;
+  difference: number;
+  //the VAT rate a per-rate check was for
+  rate?: number;
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  proposedCorrections: ProposedCorrection[];
+  detectedPatterns: DetectedPattern[];
+  auditEntry: AuditEntry;
+}
+
+export interface IValidationService {
+  validateTotals(invoice: Invoice, normalized: Record<string, unknown>, detectedPatterns: DetectedPattern[]): ValidationResult;
+}
+
+//rate is the effective rate: 0 when the recipient owes the VAT, blended across the breakdown when several rates apply
+interface Figures { net: number | null; tax: number | null; gross: number | null; rate: number | null; zeroRated: boolean; lines: number | null; lineCount: number; }
+
+//cents-level rounding tolerance; line sums get an extra cent per line
+const AMOUNT_TOLERANCE = 0.02;
+const VALIDATION_SOURCE = 'totals-validation';
+const ZERO_RATED_PATTERNS = new Set(['reverse_charge', 'intra_community_supply']);
+//subtotals, net totals and tax totals ("VAT total", "MwSt-Summe") are not the gross
+const GROSS_TOTAL = /(?<!\b(?:sub|net|netto|tax|vat|mwst|ust|steuer)\.?[ -]?)\b(?:gross total|total|gesamtbetrag|gesamt|brutto|summe)\b[:\s]*(?:EUR|€)?\s*(\d[\d.,]*)/gi;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const num = (v: unknown): number | null => typeof v === 'number' && Number.isFinite(v) ? v : null;
+
+function mismatch(type: ValidationIssueType, fieldName: string, expected: number, actual: number, tol: number, rate?: number): ValidationIssue[] {
+  return Math.abs(expected - actual) > tol ? [{ type, fieldName, expected: round2(expected), actual, difference: round2(actual - expected), ...(rate !== undefined && { rate }) }] : [];
+}
+
+export class ValidationService implements IValidationService {
+  validateTotals(invoice: Invoice, normalized: Record<string, unknown>, detectedPatterns: DetectedPattern[]): ValidationResult {
+    const f = this.readFigures(normalized, detectedPatterns.some(p => ZERO_RATED_PATTERNS.has(p.type)));
+    const figureIssues = this.check(f), issues = [...figureIssues, ...this.checkBreakdown(normalized, f)];
+    const patterns = [...detectedPatterns];
+    let corrections: ProposedCorrection[] = [];
+
+    const taxPatternIdx = patterns.findIndex(p => p.type === 'tax_inclusive');
+    if (taxPatternIdx >= 0 && f.rate !== null) {
+      //tax-inclusive: the gross is authoritative, net and tax are derived from it
+      const textGross = this.extractGrossFromText(invoice.rawText);
+      const gross = textGross ?? f.gross;
+      if (gross !== null) {
+        const net = round2(gross / (1 + f.rate)), tax = round2(gross - net);
+        const source = textGross !== null ? 'total in raw text' : 'extracted gross total';
+        corrections = this.diff(f, { net, tax, gross }, 1, `Tax-inclusive: recomputed from gross ${gross.toFixed(2)} (${source}) at ${(f.rate * 100).toFixed(0)}%`);
+        const tp = patterns[taxPatternIdx]!;
+        patterns[taxPatternIdx] = {
+          ...tp, details: { ...tp.details, recomputed: { netTotal: net, taxTotal: tax, grossTotal: gross }, grossSource: source },
+          suggestedAction: `Tax inclusive: gross ${gross.toFixed(2)} = net ${net.toFixed(2)} + tax ${tax.toFixed(2)} (${(f.rate * 100).toFixed(0)}%)${corrections.length ? ` - correct ${corrections.map(c => c.fieldName).join(', ')}` : ''}`,
+        };
+      }
+    } else if (figureIssues.length) {
+      corrections = this.proposeSingleFix(f);
+    }
+
+    for (const issue of issues) {
+      patterns.push({
+        type: issue.type, fieldName: issue.fieldName, details: { ...issue },
+        suggestedAction: `${issue.fieldName}${issue.rate !== undefined ? ` (${describeRate(issue.rate)})` : ''} ${issue.actual.toFixed(2)} inconsistent, expected ${issue.expected.toFixed(2)} (diff ${issue.difference.toFixed(2)})`,
+      });
+    }
+
+    return {
+      issues, proposedCorrections: corrections, detectedPatterns: patterns,
+      auditEntry: {
+        step: 'validate', timestamp: new Date().toISOString(),
+        details: issues.length || corrections.length
+          ? `${issues.length} arithmetic issue(s)${issues.length ? `: ${issues.map(i => i.type).join(', ')}` : ''}, ${corrections.length} correction(s) proposed`
+          : 'Totals consistent',
+        payload: {
+          vendorId: normalizeVendorName(invoice.vendorId), fields: [...new Set([...issues, ...corrections].map(i => i.fieldName))],
+          changes: corrections.map(c => ({ fieldName: c.fieldName, before: c.currentValue, after: c.suggestedValue, applied: false })),
+          patterns: issues.map(i => i.type),
+        },
+      },
+    };
+  }
+
+  private readFigures(normalized: Record<string, unknown>, zeroRated: boolean): Figures {
+    const items = Array.isArray(normalized['lineItems']) ? normalized['lineItems'] as Array<{ qty?: unknown; unitPrice?: unknown }> : [];
+    const priced = items.filter(li => num(li.qty) !== null && num(li.unitPrice) !== null);
+    const breakdown = parseTaxBreakdown(normalized['taxBreakdown']) ?? lineTaxBreakdown(normalized['lineItems'], normalized['taxRate']);
+    const breakdownNet = breakdown?.reduce((s, e) => s + e.net, 0) ?? 0;
+    const rate = zeroRated ? 0
+      : breakdown && breakdown.length > 1 && breakdownNet > 0 ? breakdown.reduce((s, e) => s + e.net * e.rate, 0) / breakdownNet
+      : toRate(normalized['taxRate']);
+    return {
+      net: num(normalized['netTotal']), tax: num(normalized['taxTotal']), gross: num(normalized['grossTotal']), rate, zeroRated,
+      lines: priced.length && priced.length === items.length ? round2(priced.reduce((s, li) => s + (li.qty as number) * (li.unitPrice as number), 0)) : null,
+      lineCount: items.length,
+    };
+  }
+
+  private lineTolerance(f: Figures): number { return AMOUNT_TOLERANCE + 0.01 * f.lineCount; }
+
+  private check(f: Figures): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (f.net !== null && f.tax !== null && f.gross !== null) issues.push(...mismatch('totals_mismatch', 'grossTotal', f.net + f.tax, f.gross, AMOUNT_TOLERANCE));
+    if (f.net !== null && f.tax !== null && f.rate !== null) issues.push(...mismatch(f.zeroRated ? 'reverse_charge_tax' : 'tax_calculation_mismatch', 'taxTotal', f.net * f.rate, f.tax, AMOUNT_TOLERANCE));
+    if (f.net !== null && f.lines !== null) issues.push(...mismatch('line_sum_mismatch', 'netTotal', f.lines, f.net, this.lineTolerance(f)));
+    return issues;
+  }
+
+  //a printed breakdown must hold per rate, add up to the totals, and match the lines taxed at each rate
+  private checkBreakdown(normalized: Record<string, unknown>, f: Figures): ValidationIssue[] {
+    const printed = parseTaxBreakdown(normalized['taxBreakdown']);
+    if (!printed) return [];
+    const issues = printed.flatMap(e => mismatch('tax_breakdown_mismatch', 'taxBreakdown', e.net * e.rate, e.tax, AMOUNT_TOLERANCE, e.rate));
+    const sum = (key: 'net' | 'tax') => round2(printed.reduce((s, e) => s + e[key], 0));
+    if (f.net !== null) issues.push(...mismatch('tax_breakdown_mismatch', 'netTotal', sum('net'), f.net, AMOUNT_TOLERANCE));
+    if (f.tax !== null) issues.push(...mismatch('tax_breakdown_mismatch', 'taxTotal', sum('tax'), f.tax, AMOUNT_TOLERANCE));
+
+    const lines = lineTaxBreakdown(normalized['lineItems'], normalized['taxRate']);
+    const netAt = (entries: typeof printed, rate: number) => entries.find(e => e.rate === rate)?.net ?? 0;
+    if (lines) for (const rate of new Set([...printed, ...lines].map(e => e.rate))) {
+      issues.push(...mismatch('line_tax_mismatch', 'lineItems', netAt(printed, rate), netAt(lines, rate), this.lineTolerance(f), rate));
+    }
+    return issues;
+  }
+
+  //if replacing exactly one figure makes every check pass, propose that figure
+  private proposeSingleFix(f: Figures): ProposedCorrection[] {
+    const candidates: Array<{ key: 'net' | 'tax' | 'gross'; value: number }> = [];
+    if (f.net !== null && f.tax !== null) candidates.push({ key: 'gross', value: round2(f.net + f.tax) });
+    if (f.net !== null && f.rate !== null) candidates.push({ key: 'tax', value: round2(f.net * f.rate) });
+    if (f.lines !== null) candidates.push({ key: 'net', value: f.lines });
+    else if (f.gross !== null && f.tax !== null) candidates.push({ key: 'net', value: round2(f.gross - f.tax) });
+
+    const fixes = candidates.filter(c => f[c.key] !== c.value && !this.check({ ...f, [c.key]: c.value }).length);
+    if (fixes.length !== 1) return [];
+    const fix = fixes[0]!;
+    return this.diff(f, { [fix.key]: fix.value }, 0.9, 'Only inconsistent figure: recomputed from the other totals');
+  }
+
+  private diff(f: Figures, target: Partial<Record<'net' | 'tax' | 'gross', number>>, confidence: number, reasoning: string): ProposedCorrection[] {
+    const fields = { net: 'netTotal', tax: 'taxTotal', gross: 'grossTotal' } as const;
+    return (Object.keys(fields) as Array<keyof typeof fields>)
+      .filter(k => target[k] !== undefined && (f[k] === null || Math.abs(f[k]! - target[k]!) > AMOUNT_TOLERANCE))
+      .map(k => ({ fieldName: fields[k], currentValue: f[k], suggestedValue: target[k], source: 'validation' as const, memoryId: VALIDATION_SOURCE, confidence, reasoning }));
+  }
+
+  //gross total as printed, e.g. "Total: 2380.00 EUR" or "Gesamtbetrag: 2.380,00"; the last one wins,
+  //and "Subtotal", "Net total" or "Zwischensumme" above it are not totals
+  private extractGrossFromText(rawText: string | undefined): number | null {
+    const m = [...(rawText ?? '').matchAll(GROSS_TOTAL)].at(-1);
+    return m?.[1] ? parseAmount(m[1]) : null;
+  }
+}
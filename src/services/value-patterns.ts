@@ -0,0 +1,114 @@
+//correction memory value patterns: which current field values a learned correction applies to
+//  *                          value missing (null or empty)
+//  EUR, 2400, 2024-01-15      exact value; numbers and dates compare by value, so 2400 matches "2.400,00"
+//  /^PO-A\d+$/i               regular expression
+//  [100..250], [..500]        numeric range, either end optional
+//  [2024-01-01..2024-03-31]   date range (ISO), either end optional
+//  =[1..2]                    exact value that would otherwise read as another kind
+import { parseAmount } from './amounts.js';
+
+export type ValuePatternKind = 'missing' | 'exact' | 'regex' | 'number_range' | 'date_range';
+
+type ValuePattern =
+  | { kind: 'missing' }
+  | { kind: 'exact'; value: string }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'number_range'; min?: number; max?: number }
+  | { kind: 'date_range'; min?: string; max?: string };
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isMissing = (v: unknown) => v === null || v === undefined || String(v).trim() === '';
+
+//ISO day of a Date, "2024-01-15" or "15.01.2024"; null for anything else
+function toDay(v: unknown): string | null {
+  if (v instanceof Date) return Number.isNaN(v.getTime()) ? null : v.toISOString().slice(0, 10);
+  const s = String(v ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}(T|$)/.test(s)) return s.slice(0, 10);
+  const dmy = s.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  return dmy ? `${dmy[3]}-${dmy[2]!.padStart(2, '0')}-${dmy[1]!.padStart(2, '0')}` : null;
+}
+
+//numbers and amounts such as "2.380,00"; dates are not numbers
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  const s = String(v ?? '').trim();
+  return /^-?\d[\d.,]*$/.test(s) && toDay(s) === null ? parseAmount(s) : null;
+}
+
+function parse(pattern: string): ValuePattern {
+  if (pattern === '*') return { kind: 'missing' };
+  if (pattern.startsWith('=')) return { kind: 'exact', value: pattern.slice(1) };
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try { return { kind: 'regex', regex: new RegExp(regex[1]!, regex[2]) }; } catch { return { kind: 'exact', value: pattern }; }
+  }
+  const range = pattern.match(/^\[(.*)\.\.(.*)\]$/);
+  if (range) {
+    const [min, max] = [range[1]!.trim(), range[2]!.trim()];
+    const ends = [min, max].filter(e => e !== '');
+    if (ends.length && ends.every(e => /^\d{4}-\d{2}-\d{2}$/.test(e))) return { kind: 'date_range', ...(min && { min }), ...(max && { max }) };
+    if (ends.length && ends.every(e => Number.isFinite(Number(e)))) return { kind: 'number_range', ...(min && { min: Number(min) }), ...(max && { max: Number(max) }) };
+  }
+  return { kind: 'exact', value: pattern };
+}
+
+function matches(p: ValuePattern, value: unknown): boolean {
+  if (p.kind === 'missing') return isMissing(value);
+  if (isMissing(value)) return false;
+  if (p.kind === 'regex') return p.regex.test(String(value));
+  if (p.kind === 'number_range') {
+    const n = toNumber(value);
+    return n !== null && (p.min === undefined || n >= p.min) && (p.max === undefined || n <= p.max);
+  }
+  if (p.kind === 'date_range') {
+    const d = toDay(value);
+    return d !== null && (p.min === undefined || d >= p.min) && (p.max === undefined || d <= p.max);
+  }
+  if (String(value).trim() === p.value) return true;
+  const day = toDay(p.value);
+  if (day !== null) return toDay(value) === day;
+  const n = toNumber(p.value), v = toNumber(value);
+  return n !== null && v !== null && Math.abs(n - v) < 1e-9;
+}
+
+export const valuePatternKind = (pattern: string): ValuePatternKind => parse(pattern).kind;
+
+export const matchesValuePattern = (pattern: string, value: unknown): boolean => matches(parse(pattern), value);
+
+//false for a /regex/ that does not compile, which would otherwise silently become an exact value
+export const isValidValuePattern = (pattern: string): boolean => !/^\/.+\/[a-z]*$/.test(pattern) || parse(pattern).kind === 'regex';
+
+export const describeValuePattern = (pattern: string): string => {
+  const kind = valuePatternKind(pattern);
+  return kind === 'missing' ? 'missing value' : `${kind.replace('_', ' ')} ${pattern}`;
+};
+
+//the pattern a first correction is learned with: the value itself, or * when it was missing
+export function inferValuePattern(value: unknown): string {
+  if (isMissing(value)) return '*';
+  const day = value instanceof Date ? toDay(value) : null, s = day ?? String(value).trim();
+  return parse(s).kind === 'exact' && !s.startsWith('=') ? s : `=${s}`;
+}
+
+//the same correction seen for another value: the narrowest pattern covering both, or null when they do not generalize
+//numbers become a range, dates a date range, other text an alternation; * never merges with a value
+export function widenValuePattern(pattern: string, value: unknown): string | null {
+  const p = parse(pattern);
+  if (matches(p, value)) return pattern;
+  if (p.kind === 'missing' || isMissing(value)) return null;
+  const s = String(value).trim(), day = toDay(value), n = toNumber(value);
+
+  if (p.kind === 'exact') {
+    const pDay = toDay(p.value), pn = toNumber(p.value);
+    if (pDay !== null && day !== null) return `[${[pDay, day].sort().join('..')}]`;
+    if (pn !== null && n !== null) return `[${Math.min(pn, n)}..${Math.max(pn, n)}]`;
+    if (pDay === null && pn === null && day === null && n === null) return `/^(?:${escapeRegex(p.value)}|${escapeRegex(s)})$/`;
+    return null;
+  }
+  if (p.kind === 'number_range' && n !== null) return `[${p.min === undefined ? '' : Math.min(p.min, n)}..${p.max === undefined ? '' : Math.max(p.max, n)}]`;
+  if (p.kind === 'date_range' && day !== null) return `[${p.min === undefined ? '' : [p.min, day].sort()[0]}..${p.max === undefined ? '' : [p.max, day].sort()[1]}]`;
+  //only alternations this function wrote are extended; a hand-written regex is left alone
+  const alternation = pattern.match(/^\/\^\(\?:(.*)\)\$\/$/);
+  if (p.kind === 'regex' && alternation && day === null && n === null) return `/^(?:${alternation[1]}|${escapeRegex(s)})$/`;
+  return null;
+}
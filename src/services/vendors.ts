@@ -0,0 +1,161 @@
+//VendorRegistryService: one canonical id per vendor, however its name is spelled
+//"Supplier GmbH", "Supplier G.m.b.H." and "SUPPLIER GMBH, Berlin" share one alias key; a known VAT ID or IBAN in the text wins over an unknown name
+import type { AuditEntry, AuditPayload, StoredMemory, Vendor, VendorIdentifier } from '../models/index.js';
+import type { IMemoryRepository } from '../repository/memory-repository.js';
+import { normalizeVendorName } from './confidence.js';
+import { buildContextFingerprint } from './resolution.js';
+import { ADMIN_AUDIT_ID, combineMemories, isDuplicate } from './admin.js';
+
+export class VendorError extends Error {
+  constructor(message: string, public readonly reason: 'not_found' | 'invalid_alias' | 'invalid_merge') {
+    super(message);
+    this.name = 'VendorError';
+  }
+}
+
+export interface VendorMergeReport {
+  vendor: Vendor;
+  movedMemories: number;
+  mergedMemories: number;
+  movedPolicies: number;
+}
+
+//legal forms carry no identity; G.m.b.H. is gmbh once the dots are gone
+const LEGAL_FORMS = /\b(gmbh|ag|kg|ohg|ug|ek|se|mbh|ltd|limited|inc|llc|co|corp|plc|sa|sarl|bv|nv)\b/g;
+
+//alias key: lowercase, location after a comma dropped, punctuation and legal forms stripped
+export function vendorKey(name: string): string {
+  const base = name.toLowerCase().split(',')[0]!.replace(/\./g, '').replace(/[^\p{L}\p{N}]+/gu, ' ');
+  return base.replace(LEGAL_FORMS, ' ').replace(/\s+/g, ' ').trim() || base.replace(/\s+/g, ' ').trim();
+}
+
+//a VAT ID is a country prefix and digits (Austria adds a U), matched case-sensitively anywhere on a line after the label,
+//so "VAT registered" or "VAT identification number is DE123456789" do not turn words into identifiers
+const VAT_LABEL = /\b(?:USt-?Id(?:Nr)?|UID|VAT)\b/i;
+const VAT_ID = /\b([A-Z]{2}\s?U?\d[0-9A-Z]{7,11})\b/g;
+const IBAN = /\bIBAN[:\s]*([A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?)\b/gi;
+
+//labelled VAT IDs and IBANs in the invoice text, spaces removed
+export function extractVendorIdentifiers(rawText: string | undefined): VendorIdentifier[] {
+  if (!rawText) return [];
+  const found = new Map<string, VendorIdentifier>();
+  const add = (kind: VendorIdentifier['kind'], raw: string) => {
+    const value = raw.replace(/\s/g, '').toUpperCase();
+    found.set(`${kind}|${value}`, { kind, value });
+  };
+  for (const line of rawText.split('\n')) {
+    const label = line.match(VAT_LABEL);
+    if (label) for (const m of line.slice(label.index! + label[0].length).matchAll(VAT_ID)) add('vat_id', m[1]!);
+  }
+  for (const m of rawText.matchAll(IBAN)) add('iban', m[1]!);
+  return [...found.values()];
+}
+
+export interface IVendorRegistryService {
+  resolve(invoice: { vendorId: string; vendorName?: string; rawText?: string }): string;
+  lookup(name: string): string;
+  listVendors(): Vendor[];
+  getVendor(id: string): Vendor;
+  addAlias(vendorId: string, alias: string, actor: string): Vendor;
+  mergeVendors(targetId: string, sourceId: string, actor: string): VendorMergeReport;
+}
+
+export class VendorRegistryService implements IVendorRegistryService {
+  constructor(private repository: IMemoryRepository) {}
+
+  //canonical id for an invoice's vendor; new names, aliases and identifiers are registered on the way
+  resolve(invoice: { vendorId: string; vendorName?: string; rawText?: string }): string {
+    const name = invoice.vendorName || invoice.vendorId, key = vendorKey(invoice.vendorId);
+    const identifiers = extractVendorIdentifiers(invoice.rawText);
+    const byIdentifier = [...new Set(identifiers.map(i => this.repository.findVendorIdByIdentifier(i)).filter((id): id is string => !!id))];
+
+    //a known name wins; identifiers only decide for a name never seen, and only when they agree
+    let vendorId = this.repository.findVendorIdByAlias(key) ?? (byIdentifier.length === 1 ? byIdentifier[0] : undefined);
+    if (!vendorId) {
+      vendorId = normalizeVendorName(invoice.vendorId);
+      this.repository.saveVendor({ id: vendorId, name, createdAt: new Date() });
+    }
+    this.repository.saveVendorAlias(vendorId, invoice.vendorId, key);
+    identifiers.forEach(i => this.repository.saveVendorIdentifier(vendorId, i));
+    return vendorId;
+  }
+
+  //canonical id for a name typed by a person or found in a PO, without registering anything
+  lookup(name: string): string {
+    return this.repository.findVendorIdByAlias(vendorKey(name)) ?? normalizeVendorName(name);
+  }
+
+  listVendors(): Vendor[] {
+    return this.repository.findVendors();
+  }
+
+  getVendor(id: string): Vendor {
+    const vendor = this.repository.findVendor(id) ?? this.repository.findVendor(this.lookup(id));
+    if (!vendor) throw new VendorError(`No vendor ${id}`, 'not_found');
+    return vendor;
+  }
+
+  addAlias(vendorId: string, alias: string, actor: string): Vendor {
+    const vendor = this.getVendor(vendorId), key = vendorKey(alias);
+    if (!key) throw new VendorError('Alias must contain letters or digits', 'invalid_alias');
+    const owner = this.repository.findVendorIdByAlias(key);
+    if (owner && owner !== vendor.id) throw new VendorError(`"${alias}" already resolves to vendor ${owner}; merge the vendors instead`, 'invalid_alias');
+    this.repository.saveVendorAlias(vendor.id, alias, key);
+    this.audit(actor, `added alias "${alias}" to vendor ${vendor.id}`, { vendorId: vendor.id });
+    return this.getVendor(vendor.id);
+  }
+
+  //fold the source vendor into the target: memories, policies, aliases, identifiers and invoice history
+  //memories with the same learned key are merged like duplicates, the rest are re-keyed
+  mergeVendors(targetId: string, sourceId: string, actor: string): VendorMergeReport {
+    const target = this.getVendor(targetId), source = this.getVendor(sourceId);
+    if (target.id === source.id) throw new VendorError(`Cannot merge vendor ${source.id} into itself`, 'invalid_merge');
+
+    let movedMemories = 0, mergedMemories = 0, movedPolicies = 0;
+    const memoryIds: string[] = [];
+    this.repository.transaction(() => {
+      const targetMemories = this.repository.findMemories({ vendorId: target.id }).items;
+      for (const memory of this.repository.findMemories({ vendorId: source.id }).items) {
+        const moved = rekey(memory, target.id), duplicate = targetMemories.find(t => isDuplicate(t, moved));
+        memoryIds.push(memory.id, ...(duplicate ? [duplicate.id] : []));
+        this.repository.deleteMemory(memory.type, memory.id);
+        if (duplicate) {
+          this.repository.updateMemory(duplicate.type, duplicate.id, combineMemories(duplicate, [moved]));
+          this.repository.saveMemoryEvent({ memoryId: duplicate.id, memoryType: duplicate.type, kind: 'merged', reviewer: actor, details: `absorbed ${memory.id} from vendor ${source.id}` });
+          this.repository.saveMemoryEvent({ memoryId: memory.id, memoryType: memory.type, kind: 'merged', reviewer: actor, details: `merged into ${duplicate.id} of vendor ${target.id}` });
+          mergedMemories++;
+        } else {
+          this.repository.saveMemory(moved);
+          this.repository.saveMemoryEvent({ memoryId: memory.id, memoryType: memory.type, kind: 'edited', reviewer: actor, details: `moved from vendor ${source.id} to ${target.id}` });
+          targetMemories.push(moved);
+          movedMemories++;
+        }
+      }
+
+      //the target's own policy for a scope is kept
+      const policies = this.repository.findConfidencePolicies();
+      for (const p of policies.filter(p => p.vendorId === source.id)) {
+        if (policies.some(t => t.vendorId === target.id && t.fieldName === p.fieldName)) this.repository.deleteConfidencePolicy(p.id);
+        else { this.repository.saveConfidencePolicy({ ...p, vendorId: target.id, updatedAt: new Date() }); movedPolicies++; }
+      }
+
+      this.repository.moveVendorRecords(source.id, target.id);
+      this.repository.saveVendorAlias(target.id, source.name, vendorKey(source.name));
+      this.audit(actor, `merged vendor ${source.id} into ${target.id}: ${movedMemories} memories moved, ${mergedMemories} merged, ${movedPolicies} policies moved`, { vendorId: target.id, memoryIds, flags: { merged: true } });
+    });
+
+    return { vendor: this.getVendor(target.id), movedMemories, mergedMemories, movedPolicies };
+  }
+
+  private audit(actor: string, details: string, payload: AuditPayload): void {
+    const entry: AuditEntry = { step: 'admin', timestamp: new Date().toISOString(), details: `${actor} ${details}`, payload };
+    this.repository.saveAuditEntry({ ...entry, invoiceId: ADMIN_AUDIT_ID });
+  }
+}
+
+//the same memory under another vendor; resolution fingerprints embed the vendor
+function rekey(m: StoredMemory, vendorId: string): StoredMemory {
+  if (m.type !== 'resolution') return { ...m, vendorId };
+  const fieldName = m.context['fieldName'] as string | undefined;
+  return { ...m, context: { ...m.context, vendorId, fingerprint: buildContextFingerprint(vendorId, { type: m.discrepancyType, ...(fieldName && { fieldName }) }) } };
+}
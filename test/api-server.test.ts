@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById, loadPurchaseOrders } from './setup.js';
+import { createApiServer } from '../src/api/server.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type Database from 'better-sqlite3';
+
+//response bodies as the tests read them
+interface ApiError { error: { code: string; message: string; details?: string[] } }
+interface AuditStep { step: string; payload?: { memoryIds?: string[] } }
+interface Processed { sessionId: string; auditTrail: AuditStep[]; proposedCorrections: string[] }
+interface Learned { feedbackId: string; createdMemories: string[] }
+
+describe('HTTP API', () => {
+  let db: Database.Database, repository: MemoryRepository, server: Server, baseUrl: string;
+
+  beforeEach(async () => {
+    const s = createTestProcessor(); db = s.db; repository = s.repository;
+    server = createApiServer({ processor: s.processor, repository });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    cleanupTestDatabase(db);
+  });
+
+  //T: the body this call is expected to return
+  const call = async <T = unknown>(method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}${path}`, { method, ...(body !== undefined && { body: typeof body === 'string' ? body : JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }) });
+    return { status: res.status, json: await res.json() as T };
+  };
+
+  it('processes an invoice and learns from feedback', async () => {
+    const processed = await call<Processed>('POST', '/invoices', loadInvoiceById('INV-A-001'));
+    expect(processed.status).toBe(200);
+    expect(processed.json.sessionId).toBeTypeOf('string');
+    expect(processed.json.auditTrail.map(a => a.step)).toEqual(['recall', 'apply', 'validate', 'decide']);
+
+    const learned = await call<Learned>('POST', '/feedback', { invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }] });
+    expect(learned.status).toBe(200);
+    expect(learned.json.createdMemories.some(m => m.includes('Leistungsdatum'))).toBe(true);
+
+    const audit = await call<{ auditTrail: AuditStep[] }>('GET', '/invoices/INV-A-001/audit');
+    expect(audit.json.auditTrail.some(a => a.step === 'learn')).toBe(true);
+
+    const memoryId = audit.json.auditTrail.find(a => a.step === 'learn')!.payload!.memoryIds![0]!;
+    const touched = await call<{ entries: { invoiceId: string; step: string }[] }>('GET', `/audit?memoryId=${memoryId}&vendorId=Supplier%20G.m.b.H.`);
+    expect(touched.json.entries.map(e => `${e.invoiceId} ${e.step}`)).toEqual(['INV-A-001 learn']);
+    expect((await call<ApiError>('GET', '/audit?step=nope&from=yesterday')).json.error.details).toEqual(['from must be an ISO date', 'step must be one of recall, apply, validate, decide, learn, maintenance, admin']);
+  });
+
+  it('reverts a feedback submission once', async () => {
+    await call('POST', '/invoices', loadInvoiceById('INV-A-001'));
+    const learned = await call<Learned>('POST', '/feedback', { invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }] });
+
+    const reverted = await call('POST', `/feedback/${learned.json.feedbackId}/revert`);
+    expect(reverted.json).toMatchObject({ feedbackId: learned.json.feedbackId, deletedMemories: [expect.stringMatching(/^vendor /)] });
+    expect((await call<ApiError>('POST', `/feedback/${learned.json.feedbackId}/revert`)).json.error.code).toBe('already_reverted');
+    expect((await call('POST', '/feedback/nope/revert')).status).toBe(404);
+  });
+
+  it('lists and patches memories', async () => {
+    await call('POST', '/invoices', loadInvoiceById('INV-A-001'));
+    await call('POST', '/feedback', { invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }] });
+
+    const list = await call<{ vendorMemories: { id: string }[] }>('GET', '/memories?vendorId=Supplier%20GmbH&fieldName=serviceDate');
+    expect(list.json.vendorMemories).toHaveLength(1);
+    const id = list.json.vendorMemories[0]!.id;
+
+    const patched = await call<{ confidence: number }>('PATCH', `/memories/vendor/${id}`, { confidence: 0.9 });
+    expect(patched.json.confidence).toBe(0.9);
+    expect(repository.findVendorMemoryById(id)?.confidence).toBe(0.9);
+
+    const lineage = await call<{ events: { kind: string; reviewer: string }[] }>('GET', `/memories/${id}/lineage`);
+    expect(lineage.json.events.map(e => `${e.kind} ${e.reviewer}`)).toEqual(['created api', 'edited api']);
+    expect((await call('GET', '/memories/nope/lineage')).status).toBe(404);
+
+    const invalid = await call<ApiError>('PATCH', `/memories/vendor/${id}`, { normalizedFieldName: 'x' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.error.details).toContain('normalizedFieldName cannot be changed on a vendor memory');
+  });
+
+  it('uploads purchase orders used for PO matching', async () => {
+    const upload = await call('POST', '/purchase-orders', loadPurchaseOrders());
+    expect(upload.json).toEqual({ uploaded: 6, total: 6 });
+    const processed = await call<Processed>('POST', '/invoices', loadInvoiceById('INV-A-003'));
+    expect(processed.json.proposedCorrections.some(c => c.includes('PO-A-051'))).toBe(true);
+  });
+
+  it('returns errors in one JSON format', async () => {
+    expect(await call('POST', '/invoices', '{not json')).toEqual({ status: 400, json: { error: { code: 'invalid_json', message: 'Request body is not valid JSON' } } });
+
+    const invalid = await call<ApiError>('POST', '/invoices', { id: 'X', fields: {} });
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.error.code).toBe('validation_error');
+    expect(invalid.json.error.details).toEqual(expect.arrayContaining(['vendorId must be a non-empty string', 'invoiceDate must be an ISO date']));
+
+    const verdicts = await call<ApiError>('POST', '/feedback', { invoiceId: 'X', action: 'approve', verdicts: [{ target: 'line', id: '1', accepted: 'yes' }] });
+    expect(verdicts.json.error.details).toEqual(['verdicts[0].target must be one of suggestion, memory, field', 'verdicts[0].accepted must be true or false']);
+
+    const unknown = await call<ApiError>('POST', '/feedback', { invoiceId: 'NOPE', action: 'approve' });
+    expect(unknown.status).toBe(404);
+    expect(unknown.json.error.code).toBe('unknown_session');
+
+    expect((await call('GET', '/memories/vendor/missing')).status).toBe(404);
+    expect((await call<ApiError>('DELETE', '/memories')).json.error.code).toBe('method_not_allowed');
+  });
+
+  it('processes a batch', async () => {
+    const batch = await call<{ summary: { duplicatesInBatch: unknown[] } }>('POST', '/invoices/batch', { invoices: [loadInvoiceById('INV-A-004'), loadInvoiceById('INV-A-003')] });
+    expect(batch.status).toBe(200);
+    expect(batch.json.summary.duplicatesInBatch).toEqual([{ invoiceId: 'INV-A-004', duplicateOf: ['INV-A-003'] }]);
+
+    const invalid = await call<ApiError>('POST', '/invoices/batch', [loadInvoiceById('INV-A-001'), { id: 'X' }]);
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.error.details).toContain('invoices[1].vendorId must be a non-empty string');
+  });
+
+  it('lists and merges vendors', async () => {
+    await call('POST', '/invoices', loadInvoiceById('INV-A-001'));
+    await call('POST', '/invoices', { ...loadInvoiceById('INV-A-002'), vendorId: 'Lieferant Nord', vendorName: 'Lieferant Nord' });
+    expect((await call<{ vendors: { id: string }[] }>('GET', '/vendors')).json.vendors.map(v => v.id)).toEqual(['lieferant nord', 'supplier gmbh']);
+
+    const merged = await call<{ vendor: { aliases: string[] } }>('POST', '/vendors/supplier%20gmbh/merge', { sourceId: 'lieferant nord' });
+    expect(merged.status).toBe(200);
+    expect(merged.json.vendor.aliases).toEqual(expect.arrayContaining(['Supplier GmbH', 'Lieferant Nord']));
+    expect((await call<{ id: string }>('GET', '/vendors/Lieferant%20Nord')).json.id).toBe('supplier gmbh');
+
+    expect((await call<ApiError>('POST', '/vendors/nobody/merge', { sourceId: 'supplier gmbh' })).json.error.code).toBe('not_found');
+    expect((await call('POST', '/vendors/supplier%20gmbh/merge', {})).status).toBe(400);
+  });
+
+  it('decodes a vendor id once', async () => {
+    await call('POST', '/invoices', { ...loadInvoiceById('INV-A-001'), vendorId: '100% Bio', vendorName: '100% Bio' });
+    const vendor = await call<{ id: string }>('GET', '/vendors/100%25%20bio');
+    expect(vendor.status).toBe(200);
+    expect(vendor.json.id).toBe('100% bio');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { MemoryAdminService, ADMIN_AUDIT_ID } from '../src/services/admin.js';
+import type Database from 'better-sqlite3';
+
+describe('Structured Audit Trail', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  //a trusted Leistungsdatum memory, auto-applied to INV-A-002
+  const autoApplyServiceDate = () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+    const memory = repository.findVendorMemories('supplier gmbh').find(m => m.normalizedFieldName === 'serviceDate')!;
+    repository.updateVendorMemory(memory.id, { confidence: 0.9, lastUsedAt: new Date() });
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    return memory.id;
+  };
+
+  it('records what apply changed, with the memory and thresholds behind it', () => {
+    const memoryId = autoApplyServiceDate();
+    const apply = repository.getAuditTrail('INV-A-002').find(a => a.step === 'apply')!;
+
+    expect(apply.details).toMatch(/^Applied \d+ memories/);
+    expect(apply.payload).toMatchObject({
+      vendorId: 'supplier gmbh', memoryIds: expect.arrayContaining([memoryId]),
+      thresholds: { serviceDate: { autoApplyThreshold: 0.85, suggestionThreshold: 0.7 } },
+    });
+    expect(apply.payload!.changes).toContainEqual({ fieldName: 'serviceDate', before: null, after: expect.stringMatching(/^2024-/), memoryId, applied: true });
+    expect(repository.getAuditTrail('INV-A-002').find(a => a.step === 'decide')!.payload).toMatchObject({
+      flags: { requiresHumanReview: expect.any(Boolean), duplicate: false, escalated: false }, confidence: expect.any(Number),
+    });
+  });
+
+  it('answers which invoices a memory touched', () => {
+    const memoryId = autoApplyServiceDate();
+    new MemoryAdminService(repository).deactivateMemory(memoryId, 'alice');
+
+    const entries = repository.findAuditEntries({ memoryId });
+    expect(entries.map(e => `${e.invoiceId} ${e.step}`)).toEqual(['INV-A-001 learn', 'INV-A-002 recall', 'INV-A-002 apply', 'INV-A-002 decide', `${ADMIN_AUDIT_ID} admin`]);
+    expect(repository.findAuditEntries({ memoryId, step: 'apply' }).map(e => e.invoiceId)).toEqual(['INV-A-002']);
+    expect(entries.at(-1)!.payload).toMatchObject({ vendorId: 'supplier gmbh', memoryIds: [memoryId], flags: { isActive: false } });
+  });
+
+  it('filters by vendor and time range', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.processInvoice(loadInvoiceById('INV-C-001')!);
+
+    expect(new Set(repository.findAuditEntries({ vendorId: 'freight & co' }).map(e => e.invoiceId))).toEqual(new Set(['INV-C-001']));
+    expect(repository.findAuditEntries({ step: 'decide' })).toHaveLength(2);
+    expect(repository.findAuditEntries({ from: new Date(Date.now() + 60_000) })).toEqual([]);
+    expect(repository.findAuditEntries({ to: new Date(), limit: 3 })).toHaveLength(3);
+  });
+
+  it('reads entries written before payloads existed', () => {
+    db.prepare(`INSERT INTO audit_trail (id, invoice_id, step, timestamp, details) VALUES ('old', 'INV-OLD', 'apply', '2023-01-01T00:00:00.000Z', 'Applied 1 memories')`).run();
+    expect(repository.getAuditTrail('INV-OLD')).toEqual([{ step: 'apply', timestamp: '2023-01-01T00:00:00.000Z', details: 'Applied 1 memories' }]);
+  });
+});
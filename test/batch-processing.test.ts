@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoices, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor, BatchItemResult } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Batch Processing', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  //fails inside the pipeline, after the vendor registry has written
+  const broken = (): Invoice => ({ ...loadInvoiceById('INV-A-001')!, id: 'BROKEN', vendorId: 'Broken Vendor Ltd', fields: null as never });
+
+  it('processes oldest first and summarizes the batch', () => {
+    const invoices = loadInvoices();
+    const { results, summary } = processor.processBatch([...invoices].reverse());
+
+    const dates = results.map(r => invoices.find(i => i.id === r.invoiceId)!.invoiceDate.getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => a - b));
+    expect(results.every(r => r.status === 'processed')).toBe(true);
+    expect(summary).toMatchObject({ total: invoices.length, failed: 0, skipped: 0, failures: [] });
+    expect(summary.autoAccepted + summary.needsReview).toBe(invoices.length);
+    expect(summary.patterns).toMatchObject({ skonto: expect.any(Number), tax_inclusive: expect.any(Number) });
+  });
+
+  it('flags duplicates within the batch against the earlier copy', () => {
+    const { results, summary } = processor.processBatch([loadInvoiceById('INV-A-004')!, loadInvoiceById('INV-A-003')!]);
+    expect(results.map(r => r.invoiceId)).toEqual(['INV-A-003', 'INV-A-004']);
+    expect(results[1]).toMatchObject({ status: 'processed', duplicateOf: ['INV-A-003'], result: { requiresHumanReview: true } });
+    expect(summary.duplicatesInBatch).toEqual([{ invoiceId: 'INV-A-004', duplicateOf: ['INV-A-003'] }]);
+  });
+
+  it('rolls back a failing invoice and keeps going', () => {
+    const seen: BatchItemResult[] = [];
+    const { results, summary } = processor.processBatch([loadInvoiceById('INV-A-001')!, broken(), loadInvoiceById('INV-A-002')!], { onResult: r => seen.push(r) });
+
+    expect(results.map(r => r.status)).toEqual(['processed', 'failed', 'processed']);
+    expect(seen).toEqual(results);
+    expect(summary.failures).toEqual([{ invoiceId: 'BROKEN', error: expect.any(String) }]);
+    expect(repository.findVendor('broken vendor ltd')).toBeUndefined();
+    expect(repository.getAuditTrail('BROKEN')).toEqual([]);
+  });
+
+  it('stops on request and skips repeated invoice ids', () => {
+    const inv = loadInvoiceById('INV-A-001')!;
+    const repeated = processor.processBatch([inv, inv]);
+    expect(repeated.results[1]).toEqual({ invoiceId: 'INV-A-001', status: 'skipped', reason: 'invoice INV-A-001 appears earlier in this batch' });
+
+    const stopped = processor.processBatch([broken(), loadInvoiceById('INV-A-002')!], { stopOnError: true });
+    expect(stopped.results.map(r => r.status)).toEqual(['failed', 'skipped']);
+    expect(stopped.summary).toMatchObject({ failed: 1, skipped: 1, autoAccepted: 0, needsReview: 0 });
+  });
+});
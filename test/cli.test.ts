@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../src/cli/commands.js';
+import { loadRawInvoices, loadRawHumanCorrections } from './setup.js';
+
+describe('CLI', () => {
+  let dir: string, db: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'learned-memory-cli-')); db = join(dir, 'memory.db'); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const run = (...argv: string[]) => {
+    const out: string[] = [], err: string[] = [];
+    const code = runCli([...argv, '--db', db], { out: l => out.push(l), err: l => err.push(l) });
+    return { code, out: out.join('\n'), err: err.join('\n') };
+  };
+  const writeJson = (name: string, data: unknown) => { const p = join(dir, name); writeFileSync(p, JSON.stringify(data)); return p; };
+  //extraction output naming the label serviceDate was printed under
+  const labelled = (raw: object) => ({ ...raw, labels: { serviceDate: 'Leistungsdatum' } });
+
+  it('processes a directory, learns from feedback and lists the memory across runs', () => {
+    const inbox = join(dir, 'inbox'); mkdirSync(inbox);
+    const [first, second] = loadRawInvoices();
+    writeFileSync(join(inbox, 'a.json'), JSON.stringify(labelled(first!)));
+    writeFileSync(join(inbox, 'b.json'), JSON.stringify(labelled(second!)));
+
+    const processed = run('process', inbox, '--json');
+    expect(processed.code).toBe(0);
+    expect(JSON.parse(processed.out).results.map((r: { invoiceId: string }) => r.invoiceId)).toEqual(['INV-A-001', 'INV-A-002']);
+
+    const feedback = writeJson('feedback.json', loadRawHumanCorrections()[0]);
+    expect(run('feedback', feedback).out).toContain('INV-A-001 correct: +');
+
+    const list = run('memories', 'list', '--vendor', 'Supplier GmbH', '--field', 'serviceDate', '--json');
+    const memories = JSON.parse(list.out).items;
+    expect(memories).toHaveLength(1);
+    expect(memories[0].originalFieldName).toBe('Leistungsdatum');
+
+    expect(run('memories', 'deactivate', memories[0].id, '--actor', 'alice').out).toContain('inactive');
+    expect(JSON.parse(run('memories', 'list', '--json').out).total).toBe(0);
+    expect(JSON.parse(run('memories', 'list', '--all', '--json').out).total).toBe(1);
+    expect(JSON.parse(run('audit', 'admin', '--json').out).auditTrail[0].details).toMatch(/^alice deactivated vendor memory/);
+    expect(JSON.parse(run('memories', 'show', memories[0].id, '--json').out).isActive).toBe(false);
+    expect(run('memories', 'lineage', memories[0].id).out).toMatch(/ created 0\.\d\d \[INV-A-001\] by cli:.*\n.* deactivated by alice: /);
+
+    const audit = JSON.parse(run('audit', 'INV-A-001', '--json').out);
+    expect(audit.auditTrail.map((a: { step: string }) => a.step)).toContain('learn');
+    expect(run('audit', 'query', '--memory', memories[0].id, '--step', 'admin').out).toMatch(/^\S+  admin  admin     alice deactivated vendor memory/);
+  });
+
+  it('imports purchase orders for later runs', () => {
+    const pos = writeJson('pos.json', [{ poNumber: 'PO-1', vendor: 'Supplier GmbH', date: '2024-01-01', lineItems: [{ sku: 'A', qty: 1, unitPrice: 10 }] }]);
+    expect(run('po', 'import', pos).out).toBe('Imported 1 purchase order(s), 1 stored');
+    expect(JSON.parse(run('po', 'import', pos, '--json').out)).toEqual({ imported: 1, total: 1 });
+    expect(run('schema').out).toMatch(/^Schema version (\d+) \(this build supports \1\)/);
+  });
+
+  it('exports a memory bundle and dry-runs its import into another database', () => {
+    run('process', writeJson('inv.json', labelled(loadRawInvoices()[0]!)));
+    run('feedback', writeJson('feedback.json', loadRawHumanCorrections()[0]));
+    const bundle = join(dir, 'bundle.json');
+    expect(run('memories', 'export', '--out', bundle).out).toMatch(/^Exported 1 vendor, \d+ correction, \d+ line item, \d+ expectation, \d+ resolution memories/);
+
+    const other = join(dir, 'other.db'), out: string[] = [];
+    expect(runCli(['memories', 'import', bundle, '--dry-run', '--db', other], { out: l => out.push(l), err: () => {} })).toBe(0);
+    expect(out[0]).toMatch(/^Dry run \(skip\): \d+ create, 0 overwrite, 0 skip$/);
+    expect(out[1]).toContain('Leistungsdatum');
+  });
+
+  it('reports errors with exit codes', () => {
+    expect(run().code).toBe(2);
+    expect(run('bogus').code).toBe(2);
+    expect(run('memories', 'show').code).toBe(2);
+
+    const missing = run('memories', 'show', 'nope', '--json');
+    expect(missing.code).toBe(1);
+    expect(JSON.parse(missing.err).error.message).toBe('No memory with id nope');
+
+    const bad = writeJson('bad.json', { id: 'X', fields: {} });
+    const processed = run('process', bad);
+    expect(processed.code).toBe(1);
+    expect(processed.err).toContain('vendorId must be a non-empty string');
+
+    const unknown = run('feedback', writeJson('fb.json', { invoiceId: 'NOPE', action: 'approve' }), '--json');
+    expect(JSON.parse(unknown.err).error).toMatchObject({ code: 'unknown_session', invoiceId: 'NOPE' });
+
+    //one bad submission does not stop the others
+    run('process', writeJson('inv.json', loadRawInvoices()[0]));
+    const mixed = run('feedback', writeJson('mixed.json', [{ invoiceId: 'NOPE', action: 'approve' }, { invoiceId: 'INV-A-001', action: 'approve' }, { action: 'approve' }]));
+    expect(mixed.code).toBe(1);
+    expect(mixed.err.split('\n')).toEqual([expect.stringMatching(/mixed\.json \(NOPE\): /), expect.stringMatching(/mixed\.json: Invalid request: invoiceId must be a non-empty string/)]);
+    expect(mixed.out).toContain('INV-A-001 approve: +');
+    expect(JSON.parse(run('vendors', 'show', 'nobody', '--json').err).error.code).toBe('not_found');
+    expect(JSON.parse(run('feedback', 'revert', 'nope', '--json').err).error.code).toBe('not_found');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { MaintenanceService, MAINTENANCE_AUDIT_ID } from '../src/services/maintenance.js';
+import { applyDecay } from '../src/services/confidence.js';
+import { CONFIDENCE_CONFIG } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Confidence Decay', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 864e5);
+
+  //learn Leistungsdatum → serviceDate, then pretend it was last used `days` ago at the given confidence
+  const learnServiceDate = (confidence: number, days: number) => {
+    const inv = loadInvoiceById('INV-A-001')!;
+    processor.processInvoice(inv);
+    processor.learnFromFeedback({ invoiceId: inv.id, action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() }, inv);
+    const mem = repository.findVendorMemories('supplier gmbh')[0]!;
+    repository.updateVendorMemory(mem.id, { confidence, lastUsedAt: daysAgo(days) });
+    return mem.id;
+  };
+
+  it('recalls with decayed effective confidence', () => {
+    learnServiceDate(0.9, 5);
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.auditTrail.find(a => a.step === 'recall')?.details).toContain('conf: 0.80');
+    expect(result.normalizedInvoice['serviceDate']).toBeNull();
+  });
+
+  it('stops recalling memories that decayed below the minimum threshold', () => {
+    learnServiceDate(0.9, 60);
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.auditTrail.find(a => a.step === 'recall')?.details).not.toContain('vendor memories');
+  });
+
+  it('writes decayed confidence back and deactivates stale memories', () => {
+    const id = learnServiceDate(0.9, 60);
+    const report = new MaintenanceService(repository).decayMemories();
+
+    expect(report.decayed).toHaveLength(1);
+    expect(report.deactivatedCount).toBe(1);
+    const mem = repository.findVendorMemoryById(id)!;
+    expect(mem.isActive).toBe(false);
+    expect(mem.confidence).toBeCloseTo(0.9 * 0.25, 3);
+    expect(repository.getAuditTrail(MAINTENANCE_AUDIT_ID)[0]?.details).toContain(`vendor ${id} 0.90→0.23 (-0.68, 60d idle, deactivated)`);
+  });
+
+  it('halves confidence every half-life', () => {
+    expect(applyDecay(0.8, CONFIDENCE_CONFIG.decayHalfLifeDays)).toBeCloseTo(0.4, 10);
+    expect(applyDecay(0.8, 2 * CONFIDENCE_CONFIG.decayHalfLifeDays)).toBeCloseTo(0.2, 10);
+  });
+
+  it('records usage when a memory auto-applies a value', () => {
+    const id = learnServiceDate(0.95, 2);
+    const before = Date.now();
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.normalizedInvoice['serviceDate']).not.toBeNull();
+    expect(repository.findVendorMemoryById(id)!.lastUsedAt.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('does not record usage for a memory that only suggested', () => {
+    const id = learnServiceDate(0.9, 5);
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(repository.findVendorMemoryById(id)!.lastUsedAt.getTime()).toBeLessThan(daysAgo(4).getTime());
+  });
+
+  it('rolls back a decay run that fails part way', () => {
+    const id = learnServiceDate(0.9, 60);
+    vi.spyOn(repository, 'saveAuditEntry').mockImplementationOnce(() => { throw new Error('disk full'); });
+    expect(() => new MaintenanceService(repository).decayMemories()).toThrow('disk full');
+    const mem = repository.findVendorMemoryById(id)!;
+    expect(mem.isActive).toBe(true);
+    expect(mem.confidence).toBe(0.9);
+    expect(repository.findMemoryEvents(id).map(e => e.kind)).not.toContain('decayed');
+  });
+
+  it('does not decay twice for the same idle period', () => {
+    const id = learnServiceDate(0.9, 5), now = new Date(), maintenance = new MaintenanceService(repository);
+    maintenance.decayMemories(now);
+    const once = repository.findVendorMemoryById(id)!.confidence;
+    expect(maintenance.decayMemories(now).decayed).toHaveLength(0);
+    expect(repository.findVendorMemoryById(id)!.confidence).toBe(once);
+    expect(repository.findVendorMemoryById(id)!.isActive).toBe(true);
+  });
+});
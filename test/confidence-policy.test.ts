@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { ConfidencePolicyService, PolicyError, resolvePolicy } from '../src/services/policy.js';
+import { ApplyService } from '../src/services/apply.js';
+import { ADMIN_AUDIT_ID } from '../src/services/admin.js';
+import type { ConfidencePolicy } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Confidence Policies', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository, policies: ConfidencePolicyService;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; policies = new ConfidencePolicyService(repository); });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const getMemory = () => repository.findVendorMemories('supplier gmbh').find(m => m.normalizedFieldName === 'serviceDate')!;
+  const learnServiceDate = (confidence: number) => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+    repository.updateVendorMemory(getMemory().id, { confidence, lastUsedAt: new Date() });
+  };
+
+  it('resolves each setting from vendor+field, then field, then vendor, then the global config', () => {
+    const policy = (vendorId: string | null, fieldName: string | null, overrides: ConfidencePolicy['overrides']): ConfidencePolicy =>
+      ({ id: `${vendorId}-${fieldName}`, vendorId, fieldName, overrides, createdAt: new Date(), updatedAt: new Date() });
+    const stored = [
+      policy('acme', null, { autoApplyThreshold: 0.7, reinforcementFactor: 0.2 }),
+      policy(null, 'grossTotal', { autoApplyThreshold: 1 }),
+      policy('acme', 'grossTotal', { rejectionPenaltyFactor: 0.5 }),
+    ];
+    expect(resolvePolicy(stored, 'acme', 'grossTotal')).toEqual({ autoApplyThreshold: 1, suggestionThreshold: 0.7, reinforcementFactor: 0.2, rejectionPenaltyFactor: 0.5 });
+    expect(resolvePolicy(stored, 'acme', 'serviceDate')).toEqual({ autoApplyThreshold: 0.7, suggestionThreshold: 0.7, reinforcementFactor: 0.2, rejectionPenaltyFactor: 0.7 });
+    expect(resolvePolicy(stored, 'other', 'serviceDate')).toEqual({ autoApplyThreshold: 0.85, suggestionThreshold: 0.7, reinforcementFactor: 0.05, rejectionPenaltyFactor: 0.7 });
+  });
+
+  it('auto-applies a trusted vendor\'s date mapping sooner', () => {
+    learnServiceDate(0.75);
+    expect(processor.processInvoice(loadInvoiceById('INV-A-002')!).normalizedInvoice['serviceDate']).toBeNull();
+
+    policies.setPolicy({ vendorId: 'Supplier GmbH', fieldName: 'serviceDate' }, { autoApplyThreshold: 0.7 }, 'alice');
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.normalizedInvoice['serviceDate']).toBe('2024-01-15');
+    //the decision counts the mapping as high confidence under the same policy and records it
+    expect(result.auditTrail.find(a => a.step === 'decide')!.payload!.thresholds).toMatchObject({
+      serviceDate: { autoApplyThreshold: 0.7, suggestionThreshold: 0.7 }, currency: { autoApplyThreshold: 0.85, suggestionThreshold: 0.7 },
+    });
+  });
+
+  it('never auto-applies grossTotal corrections under a field policy', () => {
+    policies.setPolicy({ fieldName: 'grossTotal' }, { autoApplyThreshold: 1 }, 'alice');
+    const invoice = loadInvoiceById('INV-A-001')!;
+    const memory = {
+      id: 'c1', vendorId: null, fieldName: 'grossTotal', originalValuePattern: '[..5000]', correctedValue: '1000.00', confidence: 0.95, effectiveConfidence: 0.95,
+      applicationCount: 20, consecutiveRejections: 0, createdAt: new Date(), lastUsedAt: new Date(), isActive: true,
+    };
+    const result = new ApplyService().applyMemories(invoice, { vendorMemories: [], correctionMemories: [memory], lineItemMemories: [], expectationMemories: [], resolutionMemories: [] }, policies.resolver());
+    expect(result.appliedResult.appliedMemories[0]?.action).toBe('suggested');
+    expect(result.appliedResult.proposedCorrections[0]).toMatchObject({ fieldName: 'grossTotal', suggestedValue: '1000.00' });
+  });
+
+  it('learns with the policy\'s reinforcement and penalty factors', () => {
+    learnServiceDate(0.8);
+    policies.setPolicy({ vendorId: 'Supplier GmbH' }, { rejectionPenaltyFactor: 0.5 }, 'alice');
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-002', action: 'reject', timestamp: new Date() });
+    expect(getMemory().confidence).toBeCloseTo(0.4, 2);
+  });
+
+  it('validates and audits policy changes', () => {
+    expect(() => policies.setPolicy({}, { autoApplyThreshold: 0.9 }, 'alice')).toThrow(PolicyError);
+    expect(() => policies.setPolicy({ fieldName: 'grossTotal' }, { suggestionThreshold: 0.9 }, 'alice')).toThrow('suggestionThreshold 0.9 is above autoApplyThreshold 0.85');
+    expect(() => policies.setPolicy({ fieldName: 'grossTotal' }, { autoApplyThreshold: 2 }, 'alice')).toThrow('autoApplyThreshold must be between 0 and 1');
+
+    const created = policies.setPolicy({ fieldName: 'grossTotal' }, { autoApplyThreshold: 1, reinforcementFactor: 0.01 }, 'alice');
+    const updated = policies.setPolicy({ fieldName: 'grossTotal' }, { reinforcementFactor: null }, 'bob');
+    expect(updated).toMatchObject({ id: created.id, overrides: { autoApplyThreshold: 1 } });
+    policies.removePolicy(created.id, 'bob');
+    expect(policies.listPolicies()).toEqual([]);
+
+    expect(repository.getAuditTrail(ADMIN_AUDIT_ID).map(a => a.details.replace(created.id, '<id>'))).toEqual([
+      'alice created confidence policy <id> for field grossTotal: autoApplyThreshold=1, reinforcementFactor=0.01',
+      'bob updated confidence policy <id> for field grossTotal: autoApplyThreshold=1',
+      'bob removed confidence policy <id> for field grossTotal',
+    ]);
+  });
+});
@@ -106,7 +106,7 @@ describe('Learning Over Time', () => {
     
     const result2 = processor.processInvoice(inv2);
     expect(result2.auditTrail.some(a => a.step === 'apply')).toBe(true);
-    expect(result2.normalizedInvoice['serviceDate'] !== null || result2.proposedCorrections.some(c => c.includes('serviceDate'))).toBe(true);
+    expect(result2.normalizedInvoice['serviceDate'] !== null || result2.suggestions.some(s => s.fieldName === 'serviceDate')).toBe(true);
   });
 
   it('increases confidence after approval', () => {
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { DuplicateDetectionService, normalizeInvoiceNumber, vendorSimilarity } from '../src/services/duplicates.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Duplicate Detection', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const resubmit = (id: string, changes: Partial<Invoice>): Invoice => ({ ...loadInvoiceById('INV-A-001')!, id, ...changes });
+  const warningFor = (invoice: Invoice) => {
+    processor.processInvoice(invoice);
+    return repository.findLatestProcessingSession(invoice.id)!;
+  };
+  const DUPLICATE_REASON = /Potential duplicate: .*?\)\.(?= |$)/;
+  const duplicateReason = (invoice: Invoice) => processor.processInvoice(invoice).reasoning.match(DUPLICATE_REASON)?.[0];
+
+  it('normalizes numbers and vendor names', () => {
+    expect(normalizeInvoiceNumber('INV-2024-001')).toBe(normalizeInvoiceNumber('inv 2024/001'));
+    expect(vendorSimilarity('Parts AG', 'Parts A.G.')).toBe(1);
+    expect(vendorSimilarity('Supplier GmbH', 'Suppliers GmbH')).toBeGreaterThan(0.85);
+    expect(vendorSimilarity('Parts AG', 'Freight & Co')).toBeLessThan(0.3);
+  });
+
+  it('catches a reformatted invoice number', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    expect(duplicateReason(resubmit('INV-A-001-R', { invoiceNumber: 'INV2024001' })))
+      .toBe('Potential duplicate: INV-A-001 (1.00: same vendor, reformatted invoice number INV-2024-001, same gross total 2975.00 EUR, same invoice date, identical line items).');
+  });
+
+  it('catches a new number for the same amount and date', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.processInvoice(resubmit('INV-A-001-N', { invoiceNumber: 'INV-2024-777' }));
+    const session = repository.findLatestProcessingSession('INV-A-001-N')!;
+    expect(session.decision.reasoning).toContain('Potential duplicate: INV-A-001 (0.70: same vendor, same gross total 2975.00 EUR, same invoice date, identical line items)');
+    expect(session.discrepancies).toContainEqual({ type: 'duplicate' });
+  });
+
+  it('catches the same invoice under a slightly different vendor name and ranks candidates', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.processInvoice(resubmit('INV-A-001-X', { invoiceNumber: 'INV-2024-001-X' }));
+    const result = processor.processInvoice(resubmit('INV-A-001-S', { vendorId: 'Suppliers GmbH', vendorName: 'Suppliers GmbH' }));
+
+    expect(result.requiresHumanReview).toBe(true);
+    const reason = result.reasoning.match(DUPLICATE_REASON)![0];
+    expect(reason.indexOf('INV-A-001 (')).toBeLessThan(reason.indexOf('INV-A-001-X ('));
+    expect(reason).toContain('INV-A-001 (1.00: similar vendor "supplier gmbh", same invoice number');
+  });
+
+  it('reports only the signals that matched', () => {
+    const duplicates = new DuplicateDetectionService(repository);
+    processor.processInvoice(loadInvoiceById('INV-A-003')!);
+    const inv4 = loadInvoiceById('INV-A-004')!;
+    expect(duplicates.findCandidates(inv4, Object.fromEntries(Object.entries(inv4.fields).map(([k, f]) => [k, f.value])))).toEqual([{
+      invoiceId: 'INV-A-003', score: 1, matchedFields: ['vendorId', 'invoiceNumber', 'grossTotal', 'currency', 'invoiceDate', 'lineItems'],
+      reasons: ['same vendor', 'same invoice number', 'same gross total 595.00 EUR', 'invoice date 1 day(s) apart', 'identical line items'],
+    }]);
+
+    //same vendor and amount nine days apart is a recurring charge, not a duplicate
+    processor.processInvoice(loadInvoiceById('INV-C-001')!);
+    expect(warningFor(loadInvoiceById('INV-C-002')!).discrepancies).not.toContainEqual({ type: 'duplicate' });
+  });
+
+  it('does not flag identical recurring invoices a month apart', () => {
+    const first = loadInvoiceById('INV-A-001')!;
+    processor.processInvoice(first);
+    const next = resubmit('INV-A-001-M', { invoiceNumber: 'INV-2024-031', invoiceDate: new Date(first.invoiceDate.getTime() + 30 * 864e5) });
+    expect(warningFor(next).discrepancies).not.toContainEqual({ type: 'duplicate' });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { learnTemplate, extractWithTemplate } from '../src/services/templates.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Extraction Templates', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  //Freight & Co prints the delivery date under a label no built-in pattern knows
+  const freightInvoice = (id: string, date: string): Invoice => {
+    const base = loadInvoiceById('INV-C-002')!;
+    return {
+      ...base, id, invoiceNumber: id, rawText: `Invoice: ${id}\nVersanddatum ab Hafen: ${date}\n...`,
+      fields: { ...base.fields, serviceDate: { name: 'serviceDate', value: null, extractionConfidence: 0.3 } },
+    };
+  };
+  const teach = () => {
+    processor.processInvoice(freightInvoice('FC-2001', '05.03.2024'));
+    return processor.learnFromFeedback({ invoiceId: 'FC-2001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-03-05' }], timestamp: new Date() });
+  };
+  const templateMemory = () => repository.findVendorMemories('freight & co').find(m => m.normalizedFieldName === 'serviceDate')!;
+
+  it('learns label, value format and line context from the corrected value', () => {
+    expect(learnTemplate('Versanddatum ab Hafen: 05.03.2024\n', '2024-03-05')).toEqual({
+      label: 'Versanddatum ab Hafen', valueFormat: 'date_dmy', valuePattern: String.raw`\d{1,2}[./]\d{1,2}[./]\d{4}`, lineContext: 'Versanddatum ab Hafen: {value}',
+    });
+    expect(learnTemplate('Gesamtbetrag\n2.380,00 EUR', 2380)).toMatchObject({ label: 'Gesamtbetrag', valueFormat: 'amount', lineContext: 'Gesamtbetrag\n{value}' });
+
+    const po = learnTemplate('Ihre Bestellung Nr. PO-A-051 vom 02.01.2024', 'PO-A-051')!;
+    expect(po).toMatchObject({ label: 'Ihre Bestellung Nr', valueFormat: 'code', lineContext: 'Ihre Bestellung Nr. {value} vom 02.01.2024' });
+    expect(extractWithTemplate('Ihre Bestellung Nr. PO-B-7 vom 09.02.2024', po)).toBe('PO-B-7');
+    expect(learnTemplate('Total: 2380.00 EUR', '2024-03-05')).toBeNull();
+  });
+
+  it('stores a template vendor memory and extracts the value from the next invoice', () => {
+    expect(teach().createdMemories).toEqual([expect.stringContaining('"Versanddatum ab Hafen"→"serviceDate" template "Versanddatum ab Hafen: {date_dmy}"')]);
+    expect(templateMemory().template).toMatchObject({ label: 'Versanddatum ab Hafen', valueFormat: 'date_dmy' });
+
+    const result = processor.processInvoice(freightInvoice('FC-2002', '12.03.2024'));
+    expect(result.proposedCorrections).toContainEqual(expect.stringMatching(/^serviceDate: "null" → "2024-03-12" .* via template "Versanddatum ab Hafen: \{date_dmy\}"$/));
+  });
+
+  it('reinforces and penalizes the template like any vendor memory', () => {
+    teach();
+    const initial = templateMemory().confidence;
+
+    processor.processInvoice(freightInvoice('FC-2002', '12.03.2024'));
+    processor.learnFromFeedback({ invoiceId: 'FC-2002', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-03-12' }], timestamp: new Date() });
+    const reinforced = templateMemory().confidence;
+    expect(reinforced).toBeGreaterThan(initial);
+
+    processor.processInvoice(freightInvoice('FC-2003', '19.03.2024'));
+    processor.learnFromFeedback({ invoiceId: 'FC-2003', action: 'reject', timestamp: new Date() });
+    expect(templateMemory().confidence).toBeLessThan(reinforced);
+  });
+
+  it('keeps a value correction when the value is not in the text', () => {
+    processor.processInvoice(freightInvoice('FC-2001', '05.03.2024'));
+    const result = processor.learnFromFeedback({ invoiceId: 'FC-2001', action: 'correct', corrections: [{ fieldName: 'poNumber', originalValue: null, correctedValue: 'PO-C-900' }], timestamp: new Date() });
+    expect(result.createdMemories).toEqual([expect.stringMatching(/^correction /)]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { FeedbackRevertError } from '../src/services/learn.js';
+import { CONFIDENCE_CONFIG } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Feedback Revert', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const correctServiceDate = (invoiceId: string, value: string) => {
+    processor.processInvoice(loadInvoiceById(invoiceId)!);
+    return processor.learnFromFeedback({ invoiceId, action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: value }], timestamp: new Date() });
+  };
+  const serviceDateMemory = () => repository.findVendorMemories('supplier gmbh').find(m => m.normalizedFieldName === 'serviceDate');
+  const reason = (fn: () => unknown) => { try { fn(); } catch (e) { return (e as FeedbackRevertError).reason; } };
+
+  it('deletes the memories a correction created and reopens the session', () => {
+    const { feedbackId } = correctServiceDate('INV-A-001', '2024-01-01');
+    const memoryId = serviceDateMemory()!.id;
+
+    const reverted = processor.revertFeedback(feedbackId, 'alice');
+    expect(reverted).toMatchObject({ invoiceId: 'INV-A-001', restoredMemories: [], deletedMemories: [`vendor ${memoryId}`], reopenedSessionId: expect.any(String) });
+    expect(serviceDateMemory()).toBeUndefined();
+    expect(repository.findMemoryEvents(memoryId).map(e => `${e.kind} ${e.reviewer ?? ''}`)).toEqual(['created ', 'deleted alice']);
+    expect(repository.getAuditTrail('INV-A-001').at(-1)).toMatchObject({
+      step: 'learn', details: `revert of correct feedback ${feedbackId} by alice: 0 restored, 1 deleted`,
+      payload: { feedbackId, memoryIds: [memoryId], flags: { reverted: true, reopened: true } },
+    });
+
+    //the reviewer can now send the right correction for the same session
+    expect(processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-02' }], timestamp: new Date() }).createdMemories).toHaveLength(1);
+  });
+
+  it('restores confidence, counts and the active flag a rejection changed', () => {
+    correctServiceDate('INV-A-001', '2024-01-01');
+    const before = serviceDateMemory()!;
+    repository.updateVendorMemory(before.id, { confidence: 0.9, consecutiveRejections: CONFIDENCE_CONFIG.maxConsecutiveRejectionsBeforeDeactivation - 1, lastUsedAt: new Date() });
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    const trusted = repository.findVendorMemoryById(before.id)!;
+    const { feedbackId, deactivatedMemories } = processor.learnFromFeedback({ invoiceId: 'INV-A-002', action: 'reject', timestamp: new Date() });
+    expect(deactivatedMemories).toHaveLength(1);
+
+    const reverted = processor.revertFeedback(feedbackId);
+    expect(reverted.restoredMemories).toContainEqual(expect.stringMatching(new RegExp(`^vendor ${before.id} 0\\.\\d\\d→0\\.90$`)));
+    expect(repository.findVendorMemoryById(before.id)).toEqual(trusted);
+    expect(repository.findMemoryEvents(before.id).map(e => e.kind)).toEqual(['created', 'penalized', 'deactivated', 'reverted']);
+  });
+
+  it('refuses while later feedback builds on the same memories', () => {
+    const first = correctServiceDate('INV-A-001', '2024-01-01');
+    const second = correctServiceDate('INV-A-002', '2024-01-15');
+
+    expect(() => processor.revertFeedback(first.feedbackId)).toThrow(new RegExp(`later feedback built on the same memories \\(${second.feedbackId} correct on INV-A-002: vendor ${serviceDateMemory()!.id}\\)`));
+    expect(reason(() => processor.revertFeedback(first.feedbackId))).toBe('superseded');
+
+    processor.revertFeedback(second.feedbackId);
+    expect(processor.revertFeedback(first.feedbackId).deletedMemories).toHaveLength(1);
+    expect(reason(() => processor.revertFeedback(first.feedbackId))).toBe('already_reverted');
+    expect(reason(() => processor.revertFeedback('nope'))).toBe('not_found');
+  });
+
+  it('maps a label back to its original field when the correction that remapped it is reverted', () => {
+    correctServiceDate('INV-A-001', '2024-01-01');
+    const memory = serviceDateMemory()!;
+    const invoice = loadInvoiceById('INV-A-002')!;
+    processor.processInvoice({ ...invoice, fields: { ...invoice.fields, deliveryDate: { name: 'deliveryDate', value: null, extractionConfidence: 0.9, originalLabel: 'Leistungsdatum' } } });
+    const { feedbackId, updatedMemories } = processor.learnFromFeedback({
+      invoiceId: 'INV-A-002', action: 'correct', timestamp: new Date(), corrections: [{ fieldName: 'deliveryDate', originalValue: null, correctedValue: '2024-01-14' }],
+    });
+    expect(updatedMemories).toContainEqual(expect.stringMatching(new RegExp(`^vendor ${memory.id} contradicted: `)));
+    expect(repository.findVendorMemoryById(memory.id)!.normalizedFieldName).toBe('deliveryDate');
+
+    processor.revertFeedback(feedbackId);
+    expect(repository.findVendorMemoryById(memory.id)).toMatchObject({ originalFieldName: 'Leistungsdatum', normalizedFieldName: 'serviceDate', confidence: memory.confidence });
+  });
+
+  it('reactivates a switched-off mapping when a correction teaches the same label again', () => {
+    correctServiceDate('INV-A-001', '2024-01-01');
+    const memory = serviceDateMemory()!;
+    repository.updateVendorMemory(memory.id, { isActive: false });
+
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    const learned = processor.learnFromFeedback({
+      invoiceId: 'INV-A-002', action: 'correct', timestamp: new Date(),
+      corrections: [{ fieldName: 'currency', originalValue: null, correctedValue: 'EUR' }, { fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-15' }],
+    });
+    expect(learned.updatedMemories).toContainEqual(expect.stringMatching(new RegExp(`^vendor ${memory.id} reactivated: `)));
+    expect(repository.findVendorMemoryById(memory.id)).toMatchObject({ isActive: true, confidence: CONFIDENCE_CONFIG.initialHumanCorrectionConfidence });
+  });
+
+  it('leaves no memory, audit entry or submission behind when learning fails', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    const audits = repository.getAuditTrail('INV-A-001').length;
+    vi.spyOn(repository, 'saveFeedbackSubmission').mockImplementationOnce(() => { throw new Error('disk full'); });
+
+    expect(() => processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() })).toThrow('disk full');
+    expect(serviceDateMemory()).toBeUndefined();
+    expect(repository.getAuditTrail('INV-A-001')).toHaveLength(audits);
+    expect(repository.findLatestProcessingSession('INV-A-001')!.status).toBe('open');
+  });
+});
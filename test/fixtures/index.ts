@@ -4,7 +4,8 @@
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { Invoice, InvoiceField, HumanFeedback, FieldCorrection } from '../../src/models/index.js';
+import type { Invoice, InvoiceField, HumanFeedback, FieldCorrection, DeliveryNote } from '../../src/models/index.js';
+import type { PurchaseOrder } from '../../src/services/apply.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -206,6 +207,16 @@ export function convertToHumanFeedback(raw: RawHumanCorrection): HumanFeedback {
   };
 }
 
+//convert raw purchase order to PurchaseOrder model
+export function convertToPurchaseOrder(raw: RawPurchaseOrder): PurchaseOrder {
+  return { ...raw, date: parseDate(raw.date) };
+}
+
+//convert raw delivery note to DeliveryNote model
+export function convertToDeliveryNote(raw: RawDeliveryNote): DeliveryNote {
+  return { ...raw, date: parseDate(raw.date) };
+}
+
 //convenience loading functions
 
 //load all invoices
@@ -230,6 +241,16 @@ export function loadHumanFeedbackById(invoiceId: string): HumanFeedback | undefi
   return raw ? convertToHumanFeedback(raw) : undefined;
 }
 
+//load all purchase orders as models
+export function loadPurchaseOrderModels(): PurchaseOrder[] {
+  return loadPurchaseOrders().map(convertToPurchaseOrder);
+}
+
+//load all delivery notes as models
+export function loadDeliveryNoteModels(): DeliveryNote[] {
+  return loadDeliveryNotes().map(convertToDeliveryNote);
+}
+
 //load invoices for a specific vendor
 export function loadInvoicesByVendor(vendor: string): Invoice[] {
   return loadRawInvoices()
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { FeedbackSessionError } from '../src/services/learn.js';
+import type { FeedbackVerdict, ProcessingResult } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Granular Feedback', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  //INV-A-002 with a trusted serviceDate memory (auto-applied) and a currency memory that only suggests
+  let serviceDateId: string, currencyId: string, result: ProcessingResult;
+  beforeEach(() => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+    serviceDateId = repository.findVendorMemories('supplier gmbh')[0]!.id;
+    repository.updateVendorMemory(serviceDateId, { confidence: 0.9, lastUsedAt: new Date() });
+    currencyId = uuidv4();
+    repository.saveCorrectionMemory({
+      id: currencyId, vendorId: 'supplier gmbh', fieldName: 'currency', originalValuePattern: 'EUR', correctedValue: 'USD',
+      confidence: 0.75, applicationCount: 0, consecutiveRejections: 0, createdAt: new Date(), lastUsedAt: new Date(), isActive: true,
+    });
+    result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+  });
+
+  const review = (action: 'approve' | 'reject', ...verdicts: FeedbackVerdict[]) => processor.learnFromFeedback({ invoiceId: 'INV-A-002', action, verdicts, timestamp: new Date() });
+  const confidence = (id: string) => repository.findMemoryById(id) as { confidence: number };
+  const currencySuggestion = () => result.suggestions.find(s => s.fieldName === 'currency')!;
+
+  it('reinforces the accepted memory and penalizes only the rejected suggestion', () => {
+    const before = { serviceDate: confidence(serviceDateId).confidence, currency: confidence(currencyId).confidence };
+    const learned = review('reject', { target: 'memory', id: serviceDateId, accepted: true }, { target: 'suggestion', id: currencySuggestion().id, accepted: false });
+
+    expect(confidence(serviceDateId).confidence).toBeGreaterThan(before.serviceDate);
+    expect(confidence(currencyId).confidence).toBeLessThan(before.currency);
+    expect(learned.reviewed).toEqual([
+      { target: 'memory', id: serviceDateId, accepted: true, fieldName: 'serviceDate', reinforced: [serviceDateId], penalized: [] },
+      { target: 'suggestion', id: currencySuggestion().id, accepted: false, fieldName: 'currency', reinforced: [], penalized: [currencyId] },
+    ]);
+    expect(learned.auditEntries[0]!.details).toMatch(/; verdicts: 1 accepted, 1 rejected$/);
+    expect(learned.auditEntries[0]!.payload).toMatchObject({
+      accepted: [`memory:${serviceDateId}`], rejected: [`suggestion:${currencySuggestion().id}`], flags: { rejected: true, mixed: true },
+      changes: [{ fieldName: 'currency', before: 'EUR', after: 'USD', memoryId: currencyId, applied: false }],
+    });
+    expect(repository.findMemoryEvents(currencyId).at(-1)!.details).toBe(`penalized by suggestion ${currencySuggestion().id} rejected on INV-A-002`);
+  });
+
+  it('confirms fields: the memory behind the value is right, the one suggesting another value is not', () => {
+    const before = { serviceDate: confidence(serviceDateId).confidence, currency: confidence(currencyId).confidence };
+    const learned = review('approve', { target: 'field', id: 'serviceDate', accepted: true }, { target: 'field', id: 'currency', accepted: true });
+
+    expect(confidence(serviceDateId).confidence).toBeGreaterThan(before.serviceDate);
+    expect(confidence(currencyId).confidence).toBeLessThan(before.currency);
+    expect(learned.reviewed.map(v => [v.id, v.reinforced, v.penalized])).toEqual([['serviceDate', [serviceDateId], []], ['currency', [], [currencyId]]]);
+  });
+
+  it('leaves memories no verdict names alone', () => {
+    const before = confidence(currencyId).confidence;
+    review('reject', { target: 'memory', id: serviceDateId, accepted: false });
+    expect(confidence(currencyId).confidence).toBe(before);
+    expect(repository.findMemoryEvents(currencyId)).toEqual([]);
+  });
+
+  it('refuses unknown ids and contradictions before learning anything', () => {
+    const reason = (...verdicts: FeedbackVerdict[]) => { try { review('approve', ...verdicts); } catch (e) { return [(e as FeedbackSessionError).reason, (e as Error).message]; } };
+
+    expect(reason({ target: 'suggestion', id: 'sug-nope', accepted: true })).toEqual(['invalid_verdict', expect.stringMatching(/^Unknown suggestion sug-nope/)]);
+    expect(reason({ target: 'memory', id: serviceDateId, accepted: true }, { target: 'field', id: 'serviceDate', accepted: false })![1]).toMatch(/^Conflicting verdicts for memory/);
+    expect(() => processor.learnFromFeedback({
+      invoiceId: 'INV-A-002', action: 'correct', corrections: [{ fieldName: 'currency', originalValue: 'EUR', correctedValue: 'CHF' }],
+      verdicts: [{ target: 'suggestion', id: currencySuggestion().id, accepted: false }], timestamp: new Date(),
+    })).toThrow('Field currency is both corrected and reviewed');
+    expect(repository.findLatestProcessingSession('INV-A-002')!.status).toBe('open');
+  });
+});
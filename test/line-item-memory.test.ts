@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById, loadPurchaseOrderModels } from './setup.js';
+import { learnLineValues, lineItemChanges, lineItemKey } from '../src/services/line-items.js';
+import { VendorRegistryService } from '../src/services/vendors.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { FieldCorrection, Invoice, InvoiceLineItem } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Line Item Memories', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => {
+    const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository;
+    processor.setPurchaseOrders(loadPurchaseOrderModels());
+  });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const withFields = (id: string, fields: Record<string, unknown>): Invoice => {
+    const invoice = loadInvoiceById(id)!;
+    return { ...invoice, fields: { ...invoice.fields, ...Object.fromEntries(Object.entries(fields).map(([k, value]) => [k, { ...invoice.fields[k]!, value }])) } };
+  };
+  const correct = (invoice: Invoice, corrections: Omit<FieldCorrection, 'reason'>[]) => {
+    processor.processInvoice(invoice);
+    return processor.learnFromFeedback({ invoiceId: invoice.id, action: 'correct', corrections, timestamp: new Date() });
+  };
+  const boxes = (qty: number): InvoiceLineItem[] => [{ sku: null, description: 'Bolts', qty, unit: 'box', unitPrice: 1000 }];
+
+  it('learns a SKU for a line description and proposes it per line on the next invoice', () => {
+    const learned = correct(loadInvoiceById('INV-C-001')!, [{ fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: 'FREIGHT' }]);
+    expect(learned.createdMemories).toEqual([expect.stringMatching(/^line_item .*: "Transport charges" → SKU FREIGHT$/)]);
+    expect(repository.findLineItemMemory('freight & co', 'transport charges')).toMatchObject({ sku: 'FREIGHT', confidence: 0.6 });
+
+    const next = processor.processInvoice(loadInvoiceById('INV-C-003')!);
+    expect(next.suggestions.find(s => s.fieldName === 'lineItems[0].sku')).toMatchObject({
+      currentValue: null, suggestedValue: 'FREIGHT', source: 'memory', reasoning: '[LOW CONFIDENCE] Line item memory: "Transport charges" → SKU FREIGHT',
+    });
+  });
+
+  it('auto-applies a confident SKU so PO matching finds the order', () => {
+    correct(loadInvoiceById('INV-C-001')!, [{ fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: 'FREIGHT' }]);
+    const memory = repository.findLineItemMemory('freight & co', 'transport charges')!;
+    const withoutPo = withFields('INV-C-003', { poNumber: null });
+    expect(processor.processInvoice(withoutPo).suggestions.some(s => s.fieldName === 'poNumber')).toBe(false);
+
+    repository.updateLineItemMemory(memory.id, { confidence: 0.9 });
+    const result = processor.processInvoice({ ...withoutPo, id: 'INV-C-003b' });
+    expect(result.normalizedInvoice['lineItems']).toEqual([expect.objectContaining({ sku: 'FREIGHT', description: 'Transport charges' })]);
+    expect(result.suggestions.find(s => s.fieldName === 'poNumber')).toMatchObject({ suggestedValue: 'PO-C-901', source: 'po_matching' });
+    const change = result.auditTrail.find(e => e.step === 'apply')!.payload!.changes!.find(c => c.fieldName === 'lineItems[0].sku');
+    expect(change).toMatchObject({ before: null, after: 'FREIGHT', memoryId: memory.id, applied: true });
+  });
+
+  it('learns a unit conversion and converts quantity and price together', () => {
+    const learned = correct(withFields('INV-B-001', { lineItems: boxes(2) }), [
+      { fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: 'BOLT-99' },
+      { fieldName: 'lineItems[0].qty', originalValue: 2, correctedValue: 200 },
+      { fieldName: 'lineItems[0].unit', originalValue: 'box', correctedValue: 'pcs' },
+    ]);
+    expect(learned.createdMemories).toEqual([expect.stringContaining('"Bolts" → SKU BOLT-99, unit pcs, qty ×100 from box')]);
+
+    const next = processor.processInvoice(withFields('INV-B-002', { lineItems: boxes(1.5) }));
+    const proposed = Object.fromEntries(next.suggestions.filter(s => s.fieldName.startsWith('lineItems[0].')).map(s => [s.fieldName, s.suggestedValue]));
+    expect(proposed).toEqual({ 'lineItems[0].sku': 'BOLT-99', 'lineItems[0].qty': 150, 'lineItems[0].unitPrice': 10, 'lineItems[0].unit': 'pcs' });
+  });
+
+  it('replaces what a memory knew when a later correction contradicts it, and reverts to it', () => {
+    const fix = (id: string, sku: string) => correct(loadInvoiceById(id)!, [{ fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: sku }]);
+    fix('INV-C-001', 'FREIGHT');
+    const second = fix('INV-C-003', 'TRANSPORT');
+    expect(second.updatedMemories).toEqual([expect.stringMatching(/contradicted: .*→0\.60, "Transport charges" → SKU TRANSPORT$/)]);
+    expect(repository.findLineItemMemory('freight & co', 'transport charges')!.sku).toBe('TRANSPORT');
+
+    processor.revertFeedback(second.feedbackId);
+    expect(repository.findLineItemMemory('freight & co', 'transport charges')!.sku).toBe('FREIGHT');
+  });
+
+  it('folds a merged vendor\'s memory for the same description into the surviving one', () => {
+    correct(loadInvoiceById('INV-C-001')!, [{ fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: 'FREIGHT' }]);
+    correct({ ...loadInvoiceById('INV-C-003')!, vendorId: 'Spedition Sued', vendorName: 'Spedition Sued' }, [{ fieldName: 'lineItems[0].sku', originalValue: null, correctedValue: 'TRANSPORT' }]);
+
+    expect(new VendorRegistryService(repository).mergeVendors('Freight & Co', 'spedition sued', 'alice')).toMatchObject({ movedMemories: 0, mergedMemories: 1 });
+    expect(repository.findLineItemMemories('freight & co')).toEqual([expect.objectContaining({ descriptionKey: 'transport charges', sku: 'FREIGHT' })]);
+  });
+
+  it('derives values from corrections and converts only lines still in the learned unit', () => {
+    const line: InvoiceLineItem = { sku: null, description: 'Bolts', qty: 2, unit: 'box', unitPrice: 1000 };
+    const toPcs = { fieldName: 'lineItems[0].unit', originalValue: 'box', correctedValue: 'pcs' };
+    expect(learnLineValues(line, [{ fieldName: 'lineItems[0].unitPrice', originalValue: 1000, correctedValue: 10 }, toPcs])).toEqual({ unit: 'pcs', qtyConversion: { fromUnit: 'box', factor: 100 } });
+    //a quantity typo in the same unit is not a conversion
+    expect(learnLineValues({ ...line, unit: 'pcs' }, [{ fieldName: 'lineItems[0].qty', originalValue: 10, correctedValue: 12 }])).toEqual({});
+    expect(learnLineValues(line, [{ fieldName: 'lineItems[0].qty', originalValue: 2, correctedValue: 3 }, { ...toPcs, correctedValue: 'Box' }])).toEqual({ unit: 'Box' });
+    expect(lineItemChanges({ ...line, unit: 'pcs' }, { qtyConversion: { fromUnit: 'box', factor: 100 } })).toEqual([]);
+    expect(lineItemKey('SEEFRACHT - shipping ')).toBe(lineItemKey('Seefracht / Shipping'));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestRepository, cleanupTestDatabase } from './setup.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { MemoryAdminService, MemoryAdminError, ADMIN_AUDIT_ID } from '../src/services/admin.js';
+import type { VendorMemory } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Memory Administration', () => {
+  let db: Database.Database, repository: MemoryRepository, admin: MemoryAdminService;
+
+  beforeEach(() => { const s = createTestRepository(); db = s.db; repository = s.repository; admin = new MemoryAdminService(repository); });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+  const vendorMemory = (id: string, overrides: Partial<VendorMemory> = {}): VendorMemory => {
+    const m: VendorMemory = {
+      id, vendorId: 'supplier gmbh', vendorName: 'Supplier GmbH', originalFieldName: 'Leistungsdatum', normalizedFieldName: 'serviceDate',
+      confidence: 0.6, applicationCount: 2, consecutiveRejections: 1, createdAt: day(1), lastUsedAt: day(1), isActive: true, ...overrides,
+    };
+    repository.saveVendorMemory(m);
+    return m;
+  };
+
+  beforeEach(() => {
+    vendorMemory('v1', { createdAt: day(3) });
+    vendorMemory('v2', { originalFieldName: 'Lieferdatum', createdAt: day(2), isActive: false });
+    repository.saveCorrectionMemory({ id: 'c1', vendorId: 'parts ag', fieldName: 'currency', originalValuePattern: 'null', correctedValue: 'EUR', confidence: 0.7, applicationCount: 1, consecutiveRejections: 0, createdAt: day(4), lastUsedAt: day(4), isActive: true });
+    repository.saveResolutionMemory({ id: 'r1', discrepancyType: 'quantity_mismatch', context: { fingerprint: 'supplier gmbh|quantity_mismatch|lineItems', vendorId: 'supplier gmbh', fieldName: 'lineItems' }, approvalCount: 3, rejectionCount: 0, createdAt: day(5), lastUsedAt: day(5), isActive: true });
+  });
+
+  it('lists all memory kinds including inactive ones, newest first and paginated', () => {
+    const all = admin.listMemories();
+    expect(all.items.map(m => m.id)).toEqual(['r1', 'c1', 'v1', 'v2']);
+    expect(all.total).toBe(4);
+
+    const page = admin.listMemories({ limit: 2, offset: 2 });
+    expect(page).toMatchObject({ total: 4, limit: 2, offset: 2 });
+    expect(page.items.map(m => m.id)).toEqual(['v1', 'v2']);
+  });
+
+  it('filters by type, vendor, field, label and status', () => {
+    expect(admin.listMemories({ vendorId: 'Supplier GmbH' }).items.map(m => m.id)).toEqual(['r1', 'v1', 'v2']);
+    expect(admin.listMemories({ fieldName: 'lineItems' }).items.map(m => m.id)).toEqual(['r1']);
+    expect(admin.listMemories({ search: 'Liefer' }).items.map(m => m.id)).toEqual(['v2']);
+    expect(admin.listMemories({ type: 'vendor', isActive: true }).items.map(m => m.id)).toEqual(['v1']);
+  });
+
+  it('edits a mapping and audits who changed it', () => {
+    const edited = admin.editMemory('v1', { normalizedFieldName: 'deliveryDate', confidence: 0.9 }, 'alice');
+    expect(edited).toMatchObject({ normalizedFieldName: 'deliveryDate', confidence: 0.9 });
+
+    const audit = repository.getAuditTrail(ADMIN_AUDIT_ID);
+    expect(audit).toHaveLength(1);
+    expect(audit[0]).toMatchObject({ step: 'admin' });
+    expect(audit[0]!.details).toBe('alice edited vendor memory v1 (supplier gmbh "Leistungsdatum" → serviceDate): normalizedFieldName "serviceDate"→"deliveryDate", confidence 0.6→0.9');
+
+    expect(() => admin.editMemory('c1', { normalizedFieldName: 'x' }, 'alice')).toThrow(MemoryAdminError);
+    expect(() => admin.editMemory('v1', { confidence: 2 }, 'alice')).toThrow('confidence must be between 0 and 1');
+  });
+
+  it('deactivates, reactivates and deletes memories', () => {
+    expect(admin.deactivateMemory('v1', 'bob').isActive).toBe(false);
+    const reactivated = admin.reactivateMemory('v1', 'bob');
+    expect(reactivated).toMatchObject({ isActive: true, consecutiveRejections: 0 });
+
+    admin.deleteMemory('r1', 'bob');
+    expect(repository.findResolutionMemoryById('r1')).toBeUndefined();
+    expect(() => admin.getMemory('r1')).toThrow('No memory with id r1');
+
+    expect(repository.getAuditTrail(ADMIN_AUDIT_ID).map(a => a.details.split(' ').slice(0, 2).join(' '))).toEqual(['bob deactivated', 'bob reactivated', 'bob deleted']);
+  });
+
+  it('leaves a memory untouched when its change cannot be audited', () => {
+    const failAudit = () => vi.spyOn(repository, 'saveAuditEntry').mockImplementationOnce(() => { throw new Error('disk full'); });
+    failAudit();
+    expect(() => admin.editMemory('v1', { confidence: 0.9 }, 'bob')).toThrow('disk full');
+    failAudit();
+    expect(() => admin.deactivateMemory('v1', 'bob')).toThrow('disk full');
+    failAudit();
+    expect(() => admin.deleteMemory('c1', 'bob')).toThrow('disk full');
+
+    expect(repository.findVendorMemoryById('v1')).toMatchObject({ confidence: 0.6, isActive: true });
+    expect(repository.findCorrectionMemoryById('c1')).toBeDefined();
+    expect(repository.findMemoryEvents('v1')).toEqual([]);
+  });
+
+  it('merges duplicate memories into one', () => {
+    vendorMemory('v3', { originalFieldName: 'leistungsdatum:', confidence: 0.8, applicationCount: 5, consecutiveRejections: 0, lastUsedAt: day(9) });
+    const merged = admin.mergeMemories('v1', ['v3'], 'carol');
+    expect(merged).toMatchObject({ id: 'v1', confidence: 0.8, applicationCount: 7, consecutiveRejections: 0, lastUsedAt: day(9) });
+    expect(repository.findVendorMemoryById('v3')).toBeUndefined();
+    expect(repository.getAuditTrail(ADMIN_AUDIT_ID)[0]!.details).toContain('carol merged v3 into vendor memory v1');
+
+    expect(() => admin.mergeMemories('v1', ['v2'], 'carol')).toThrow('is not a duplicate');
+    expect(() => admin.mergeMemories('v1', ['c1'], 'carol')).toThrow(MemoryAdminError);
+  });
+});
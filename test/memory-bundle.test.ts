@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestRepository, cleanupTestDatabase } from './setup.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { MemoryBundleService, BundleError } from '../src/services/bundle.js';
+import { ADMIN_AUDIT_ID } from '../src/services/admin.js';
+import type { VendorMemory } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Memory Bundles', () => {
+  let prodDb: Database.Database, stagingDb: Database.Database, prod: MemoryRepository, staging: MemoryRepository;
+
+  beforeEach(() => {
+    ({ db: prodDb, repository: prod } = createTestRepository());
+    ({ db: stagingDb, repository: staging } = createTestRepository());
+  });
+  afterEach(() => { cleanupTestDatabase(prodDb); cleanupTestDatabase(stagingDb); });
+
+  const vendorMemory = (id: string, overrides: Partial<VendorMemory> = {}): VendorMemory => ({
+    id, vendorId: 'supplier gmbh', vendorName: 'Supplier GmbH', originalFieldName: 'Leistungsdatum', normalizedFieldName: 'serviceDate',
+    confidence: 0.6, applicationCount: 2, consecutiveRejections: 0, createdAt: new Date('2024-01-01'), lastUsedAt: new Date('2024-01-02'), isActive: true, ...overrides,
+  });
+
+  beforeEach(() => {
+    prod.saveVendorMemory(vendorMemory('v1', { confidence: 0.85 }));
+    prod.saveMemory({ ...vendorMemory('v2', { vendorId: 'parts ag', originalFieldName: 'Lieferdatum', isActive: false, decayedAt: new Date('2024-02-01') }), type: 'vendor' });
+    prod.saveCorrectionMemory({ id: 'c1', vendorId: 'supplier gmbh', fieldName: 'currency', originalValuePattern: 'null', correctedValue: 'EUR', confidence: 0.7, applicationCount: 1, consecutiveRejections: 0, createdAt: new Date('2024-01-03'), lastUsedAt: new Date('2024-01-03'), isActive: true });
+    prod.saveResolutionMemory({ id: 'r1', discrepancyType: 'quantity_mismatch', context: { fingerprint: 'supplier gmbh|quantity_mismatch|lineItems', vendorId: 'supplier gmbh' }, approvalCount: 4, rejectionCount: 0, createdAt: new Date('2024-01-04'), lastUsedAt: new Date('2024-01-04'), isActive: true });
+  });
+
+  //export then round-trip through JSON like a file would
+  const exportJson = (vendorId?: string) => JSON.parse(JSON.stringify(new MemoryBundleService(prod).exportBundle(vendorId)));
+
+  it('exports all memories, or one vendor, with a checksum', () => {
+    const bundle = exportJson();
+    expect(bundle).toMatchObject({ format: 'learned-memory-bundle', version: 1 });
+    expect(bundle.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect([bundle.memories.vendor.length, bundle.memories.correction.length, bundle.memories.resolution.length]).toEqual([2, 1, 1]);
+
+    const supplier = exportJson('Supplier GmbH');
+    expect(supplier.vendorId).toBe('supplier gmbh');
+    expect(supplier.memories.vendor.map((m: VendorMemory) => m.id)).toEqual(['v1']);
+    expect(supplier.memories.resolution).toHaveLength(1);
+  });
+
+  it('imports into an empty instance, keeping dates and inactive memories', () => {
+    const report = new MemoryBundleService(staging).importBundle(exportJson(), { actor: 'ops' });
+    expect(report).toMatchObject({ created: 4, overwritten: 0, skipped: 0 });
+    expect(staging.findVendorMemoryById('v2')).toMatchObject({ isActive: false, decayedAt: new Date('2024-02-01'), lastUsedAt: new Date('2024-01-02') });
+    expect(staging.getAuditTrail(ADMIN_AUDIT_ID)[0]!.details).toMatch(/^ops imported memory bundle .* \(skip\): 4 created, 0 overwritten, 0 skipped$/);
+  });
+
+  it('detects conflicts on vendor and label and applies the merge strategy', () => {
+    staging.saveVendorMemory(vendorMemory('other', { confidence: 0.7, normalizedFieldName: 'deliveryDate' }));
+    const bundle = exportJson(), service = new MemoryBundleService(staging);
+
+    const skip = service.importBundle(bundle, { dryRun: true });
+    expect(skip.changes.find(c => c.type === 'vendor' && c.action === 'skip')).toMatchObject({ id: 'other', reason: 'conflicts with other' });
+
+    const higher = service.importBundle(bundle, { strategy: 'higher_confidence' });
+    expect(higher.changes.find(c => c.id === 'other')).toMatchObject({ action: 'overwrite', reason: 'conflicts with other, confidence 0.85 vs confidence 0.70' });
+    expect(staging.findVendorMemoryById('other')).toMatchObject({ confidence: 0.85, normalizedFieldName: 'serviceDate' });
+
+    //same ids now exist everywhere; a weaker bundle loses under higher_confidence but wins under overwrite
+    staging.updateVendorMemory('other', { confidence: 0.95 });
+    expect(service.importBundle(bundle, { strategy: 'higher_confidence' })).toMatchObject({ created: 0, overwritten: 0, skipped: 4 });
+    expect(service.importBundle(bundle, { strategy: 'overwrite' })).toMatchObject({ created: 0, overwritten: 4, skipped: 0 });
+    expect(staging.findVendorMemoryById('other')?.confidence).toBe(0.85);
+  });
+
+  it('reports a dry run without writing anything', () => {
+    const report = new MemoryBundleService(staging).importBundle(exportJson(), { dryRun: true });
+    expect(report).toMatchObject({ dryRun: true, created: 4 });
+    expect(staging.findMemories({}).total).toBe(0);
+    expect(staging.getAuditTrail(ADMIN_AUDIT_ID)).toHaveLength(0);
+  });
+
+  it('rejects tampered, foreign and newer bundles', () => {
+    const service = new MemoryBundleService(staging), bundle = exportJson();
+    bundle.memories.vendor[0].confidence = 1;
+    expect(() => service.importBundle(bundle)).toThrow(expect.objectContaining({ reason: 'checksum_mismatch' }));
+    expect(() => service.importBundle({ hello: 'world' })).toThrow(BundleError);
+    expect(() => service.importBundle({ ...exportJson(), version: 2 })).toThrow('Bundle version 2 is not supported (max 1)');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { MemoryAdminService, MemoryAdminError } from '../src/services/admin.js';
+import { MaintenanceService } from '../src/services/maintenance.js';
+import { MIGRATIONS } from '../src/repository/migrations.js';
+
+describe('Memory Lineage', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository, admin: MemoryAdminService;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; admin = new MemoryAdminService(repository); });
+  afterEach(() => cleanupTestDatabase(db));
+
+  //learn Leistungsdatum → serviceDate from alice's correction and let it auto-apply to INV-A-002
+  const learnServiceDate = () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', reviewer: 'alice', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+    const memory = repository.findVendorMemories('supplier gmbh').find(m => m.normalizedFieldName === 'serviceDate')!;
+    repository.updateVendorMemory(memory.id, { confidence: 0.9, lastUsedAt: new Date() });
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    return memory.id;
+  };
+
+  it('traces a memory to the feedback that created it and the values it applied', () => {
+    const id = learnServiceDate();
+    const lineage = admin.getLineage(id);
+
+    expect(lineage.memory).toMatchObject({ id, type: 'vendor' });
+    expect(lineage.events).toEqual([expect.objectContaining({
+      kind: 'created', memoryType: 'vendor', invoiceId: 'INV-A-001', feedbackAction: 'correct', reviewer: 'alice', newConfidence: expect.any(Number),
+    })]);
+    expect(lineage.applications).toEqual([{ invoiceId: 'INV-A-002', fieldName: 'serviceDate', before: null, after: expect.stringMatching(/^2024-/), timestamp: expect.any(String) }]);
+  });
+
+  it('records every confidence change with before and after', () => {
+    const id = learnServiceDate();
+    processor.learnFromFeedback({ invoiceId: 'INV-A-002', action: 'approve', reviewer: 'bob', timestamp: new Date() });
+    processor.processInvoice(loadInvoiceById('INV-A-003')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-003', action: 'reject', timestamp: new Date() });
+    new MaintenanceService(repository).decayMemories(new Date(Date.now() + 60 * 864e5));
+
+    const events = admin.getLineage(id).events;
+    expect(events.map(e => e.kind)).toEqual(['created', 'reinforced', 'penalized', 'decayed', 'deactivated']);
+    expect(events[1]).toMatchObject({ invoiceId: 'INV-A-002', reviewer: 'bob', oldConfidence: expect.closeTo(0.9) });
+    expect(events[1]!.newConfidence).toBeGreaterThan(0.9);
+    expect(events[2]!.newConfidence).toBeLessThan(events[2]!.oldConfidence!);
+    expect(events[3]!.oldConfidence).toBe(events[2]!.newConfidence);
+    expect(events[4]).toMatchObject({ newConfidence: events[3]!.newConfidence, details: 'decayed below the minimum confidence' });
+  });
+
+  it('keeps the history of a deleted memory, with the admins who changed it', () => {
+    const id = learnServiceDate();
+    admin.deactivateMemory(id, 'carol');
+    admin.deleteMemory(id, 'alice');
+
+    const lineage = admin.getLineage(id);
+    expect(lineage.memory).toBeUndefined();
+    expect(lineage.events.map(e => `${e.kind} ${e.reviewer}`)).toEqual(['created alice', 'deactivated carol', 'deleted alice']);
+    expect(lineage.applications).toHaveLength(1);
+    expect(() => admin.getLineage('nope')).toThrow(MemoryAdminError);
+  });
+
+  it('backfills a created event for memories learned before the event log', () => {
+    const legacy = new Database(':memory:');
+    for (const m of MIGRATIONS.filter(m => m.version < 10)) m.up(legacy);
+    legacy.prepare(`INSERT INTO vendor_memories (id, vendor_id, vendor_name, original_field_name, normalized_field_name, confidence, created_at, last_used_at) VALUES ('v1', 'supplier gmbh', 'Supplier GmbH', 'Leistungsdatum', 'serviceDate', 0.6, '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')`).run();
+    MIGRATIONS.find(m => m.version === 10)!.up(legacy);
+
+    expect(legacy.prepare(`SELECT id, memory_id, memory_type, kind, new_confidence, details, timestamp FROM memory_events`).all()).toEqual([{
+      id: 'backfill-v1', memory_id: 'v1', memory_type: 'vendor', kind: 'created', new_confidence: 0.6, details: 'learned before the event log', timestamp: '2024-01-01T00:00:00.000Z',
+    }]);
+    legacy.close();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestRepository, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import { InvoiceProcessor } from '../src/services/processor.js';
+import { PatternDetectorRegistry, taxInclusiveDetector, type PatternDetector } from '../src/services/detectors.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type Database from 'better-sqlite3';
+
+//§13b UStG: the recipient owes the VAT, the invoice must not charge any
+const reverseChargeDetector: PatternDetector = {
+  type: 'reverse_charge', forcesReview: true, affectedFields: ['taxRate', 'taxTotal'],
+  detect: ({ text, normalized }) => /steuerschuldnerschaft des leistungsempfängers|reverse charge/.test(text)
+    ? {
+      details: { taxRate: normalized['taxRate'] }, suggestedAction: 'Reverse charge: VAT is owed by the recipient',
+      proposedCorrections: normalized['taxRate'] ? [{ fieldName: 'taxRate', suggestedValue: 0, confidence: 0.9, reasoning: 'Reverse charge invoices carry no VAT' }] : [],
+    }
+    : null,
+};
+
+describe('Pattern Detectors', () => {
+  let db: Database.Database, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestRepository(); db = s.db; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const reverseChargeInvoice = () => {
+    const invoice = loadInvoiceById('INV-C-002')!;
+    return { ...invoice, rawText: `${invoice.rawText}\nSteuerschuldnerschaft des Leistungsempfängers` };
+  };
+
+  it('runs the built-in detectors by default', () => {
+    const processor = new InvoiceProcessor(repository);
+    const recovered = processor.processInvoice(loadInvoiceById('INV-B-003')!);
+    expect(recovered.normalizedInvoice['currency']).toBe('EUR');
+    expect(processor.processInvoice(loadInvoiceById('INV-C-002')!).proposedCorrections).toContain('[sku_mapping] [lineItems]: SKU mapping: line 0 "Seefracht / Shipping" → FREIGHT');
+
+    processor.processInvoice(loadInvoiceById('INV-B-002')!);
+    expect(repository.findLatestProcessingSession('INV-B-002')!.decision.flaggedFields).toEqual(expect.arrayContaining(['netTotal', 'taxTotal', 'grossTotal']));
+  });
+
+  it('registers a custom detector that forces review and proposes corrections', () => {
+    const processor = new InvoiceProcessor(repository, new PatternDetectorRegistry().register(reverseChargeDetector));
+    const result = processor.processInvoice(reverseChargeInvoice());
+
+    expect(result.requiresHumanReview).toBe(true);
+    expect(result.reasoning).toContain('Reverse charge: VAT is owed by the recipient');
+    expect(result.proposedCorrections).toContain('taxRate: "0.19" → "0" (memory: pattern-detector:reverse_charge, confidence: 0.90) - Reverse charge invoices carry no VAT');
+    expect(result.suggestions).toContainEqual(expect.objectContaining({ fieldName: 'taxRate', suggestedValue: 0, source: 'detector', sourceId: 'pattern-detector:reverse_charge' }));
+
+    const session = repository.findLatestProcessingSession('INV-C-002')!;
+    expect(session.decision.flaggedFields).toEqual(expect.arrayContaining(['taxRate', 'taxTotal']));
+    expect(session.discrepancies).toContainEqual({ type: 'reverse_charge' });
+  });
+
+  it('lets a registry replace or drop built-ins', () => {
+    const registry = new PatternDetectorRegistry().register({ ...taxInclusiveDetector, forcesReview: false });
+    expect(registry.forcesReview('tax_inclusive')).toBe(false);
+    expect(registry.list().map(d => d.type)).toEqual(['currency_recovery', 'skonto', 'sku_mapping', 'tax_inclusive', 'reverse_charge', 'intra_community_supply']);
+
+    registry.unregister('sku_mapping');
+    const result = new InvoiceProcessor(repository, registry).processInvoice(loadInvoiceById('INV-C-002')!);
+    expect(result.proposedCorrections.some(c => c.startsWith('[sku_mapping]'))).toBe(false);
+
+    const none = new InvoiceProcessor(repository, new PatternDetectorRegistry([])).processInvoice(loadInvoiceById('INV-B-003')!);
+    expect(none.normalizedInvoice['currency']).toBeNull();
+  });
+});
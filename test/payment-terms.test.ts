@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import { parsePaymentTerms, paymentSchedule, describePaymentTerms } from '../src/services/payment-terms.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { HumanFeedback, Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Payment Terms', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const approve = (invoice: Invoice) => {
+    processor.processInvoice(invoice);
+    const feedback: HumanFeedback = { invoiceId: invoice.id, action: 'approve', timestamp: new Date() };
+    return processor.learnFromFeedback(feedback);
+  };
+  const withRawText = (id: string, rawText: string): Invoice => ({ ...loadInvoiceById(id)!, rawText });
+  const deviation = (invoice: Invoice) => processor.processInvoice(invoice).proposedCorrections.find(p => p.startsWith('[payment_terms_deviation]'));
+
+  it('parses Skonto tiers and the net period in German and English wording', () => {
+    expect(parsePaymentTerms('2% Skonto if paid within 10 days')).toEqual({ discounts: [{ percentage: 2, days: 10 }] });
+    expect(parsePaymentTerms('2/10 net 30')).toEqual({ discounts: [{ percentage: 2, days: 10 }], netDays: 30 });
+    const tiered = parsePaymentTerms('3% bei Zahlung innerhalb 7 Tagen, 2% innerhalb 14 Tagen, 30 Tage netto')!;
+    expect(describePaymentTerms(tiered)).toBe('3% 7 days, 2% 14 days, net 30');
+    expect(parsePaymentTerms('Zahlbar innerhalb 30 Tagen ohne Abzug')).toEqual({ discounts: [], netDays: 30 });
+    expect(parsePaymentTerms('19% MwSt inkl.\nLieferung in 5 Tagen')).toBeNull();
+    expect(parsePaymentTerms('Zahlungsziel: netto 30\nBank: Sparkasse')).toEqual({ discounts: [], netDays: 30 });
+    expect(parsePaymentTerms('Net 45 days')).toEqual({ discounts: [], netDays: 45 });
+  });
+
+  it('does not read net amounts as payment periods', () => {
+    expect(parsePaymentTerms('Summe netto 250,00 EUR')).toBeNull();
+    expect(parsePaymentTerms('Net 840.00 EUR')).toBeNull();
+    expect(parsePaymentTerms('Netto 1.000,00')).toBeNull();
+    expect(parsePaymentTerms('Net 840 EUR\n2% Skonto within 10 days')).toEqual({ discounts: [{ percentage: 2, days: 10 }] });
+  });
+
+  it('computes the discount due date and amount from the invoice date and gross total', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-C-001')!);
+    expect(result.normalizedInvoice).toMatchObject({
+      paymentTerms: { discounts: [{ percentage: 2, days: 10 }] }, discountDueDate: '2024-03-11', discountAmount: 23.8,
+    });
+    expect(result.proposedCorrections).toContain('[skonto]: Skonto terms detected: 2% 10 days');
+    expect(paymentSchedule({ discounts: [], netDays: 30 }, new Date('2024-01-31'), 100)).toEqual({ paymentTerms: { discounts: [], netDays: 30 }, netDueDate: '2024-03-01' });
+  });
+
+  it('learns the terms from approved invoices and from corrections to them', () => {
+    expect(approve(loadInvoiceById('INV-C-001')!).createdMemories).toContainEqual(expect.stringMatching(/^expectation .*: freight & co payment terms 2% 10 days$/));
+    const again = approve(withRawText('INV-C-002', 'Zahlbar mit 2% Skonto innerhalb 10 Tagen'));
+    expect(again.updatedMemories).toContainEqual(expect.stringMatching(/reinforced: 0\.60→0\.\d\d, payment terms 2% 10 days$/));
+
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({
+      invoiceId: 'INV-A-001', action: 'correct', timestamp: new Date(),
+      corrections: [{ fieldName: 'paymentTerms', originalValue: null, correctedValue: '3% 14 Tage, netto 30', reason: 'terms on page 2' }],
+    });
+    expect(repository.findExpectationMemory('supplier gmbh', 'payment_terms', '3% 14 days, net 30')).toMatchObject({ confidence: 0.6, expected: { netDays: 30 } });
+  });
+
+  it('flags an invoice whose terms differ from the vendor\'s confident usual terms', () => {
+    const first = approve(loadInvoiceById('INV-C-001')!);
+    const memory = repository.findExpectationMemory('freight & co', 'payment_terms', '2% 10 days')!;
+    expect(deviation(withRawText('INV-C-003', 'Zahlbar innerhalb 30 Tagen ohne Abzug'))).toBeUndefined();
+
+    repository.updateExpectationMemory(memory.id, { confidence: 0.8 });
+    expect(deviation(withRawText('INV-C-004', 'Zahlbar innerhalb 30 Tagen ohne Abzug'))).toBe(
+      `[payment_terms_deviation] [paymentTerms]: Payment terms "net 30" differ from the vendor's usual "2% 10 days" (memory: ${memory.id}, confidence: 0.80)`,
+    );
+    expect(repository.findLatestProcessingSession('INV-C-004')!.decision.flaggedFields).toContain('paymentTerms');
+    expect(deviation(withRawText('INV-C-002', '2% Skonto within 10 days'))).toBeUndefined();
+
+    processor.revertFeedback(first.feedbackId);
+    expect(repository.findExpectationMemoryById(memory.id)).toBeUndefined();
+  });
+});
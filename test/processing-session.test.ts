@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import { InvoiceProcessor } from '../src/services/processor.js';
+import { FeedbackSessionError } from '../src/services/learn.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type Database from 'better-sqlite3';
+import type { HumanFeedback } from '../src/models/index.js';
+
+describe('Processing Sessions', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const approve = (id: string, sessionId?: string): HumanFeedback => ({ invoiceId: id, action: 'approve', ...(sessionId && { sessionId }), timestamp: new Date() });
+  const getMemory = () => repository.findVendorMemories('supplier gmbh').find(m => m.normalizedFieldName === 'serviceDate');
+
+  const learnServiceDate = () => {
+    const inv = loadInvoiceById('INV-A-001')!;
+    processor.processInvoice(inv);
+    processor.learnFromFeedback({ invoiceId: inv.id, action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+  };
+
+  it('learns from feedback after a restart', () => {
+    learnServiceDate();
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    const session = repository.findProcessingSessionById(result.sessionId)!;
+    expect(session.contributingMemories[0]?.extractedValue).toBe('2024-01-15');
+    expect(session.invoice.invoiceDate).toBeInstanceOf(Date);
+
+    const restarted = new InvoiceProcessor(repository);
+    const learning = restarted.learnFromFeedback(approve('INV-A-002'));
+    expect(learning.updatedMemories.some(m => m.includes('reinforced'))).toBe(true);
+    expect(getMemory()?.confidence).toBeCloseTo(0.62, 2);
+    expect(repository.findProcessingSessionById(result.sessionId)?.status).toBe('learned');
+  });
+
+  it('applies feedback to the latest processing of an invoice', () => {
+    learnServiceDate();
+    const inv = loadInvoiceById('INV-A-002')!;
+    const first = processor.processInvoice(inv), second = processor.processInvoice(inv);
+
+    processor.learnFromFeedback(approve(inv.id));
+    expect(repository.findProcessingSessionById(first.sessionId)?.status).toBe('superseded');
+    expect(repository.findProcessingSessionById(second.sessionId)?.status).toBe('learned');
+  });
+
+  it('accepts feedback for an earlier processing by session id', () => {
+    learnServiceDate();
+    const inv = loadInvoiceById('INV-A-002')!;
+    const first = processor.processInvoice(inv);
+    processor.processInvoice(inv);
+
+    processor.learnFromFeedback(approve(inv.id, first.sessionId));
+    expect(repository.findProcessingSessionById(first.sessionId)?.status).toBe('learned');
+  });
+
+  it('rejects feedback for unknown sessions', () => {
+    expect(() => processor.learnFromFeedback(approve('INV-A-002'))).toThrow(FeedbackSessionError);
+    expect(() => processor.learnFromFeedback(approve('INV-A-002'))).toThrow('No processing session for invoice INV-A-002');
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(() => processor.learnFromFeedback(approve('INV-A-002', 'missing'))).toThrow('Unknown processing session missing for invoice INV-A-002');
+  });
+
+  it('rejects a second feedback on the same session', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    processor.learnFromFeedback(approve('INV-A-002'));
+    expect(() => processor.learnFromFeedback(approve('INV-A-002'))).toThrow(/already received feedback/);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type Database from 'better-sqlite3';
+import type { HumanFeedback } from '../src/models/index.js';
+
+describe('Resolution Memory', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const verdict = (id: string, action: 'approve' | 'reject'): HumanFeedback => ({ invoiceId: id, action, timestamp: new Date() });
+
+  const review = (id: string, action: 'approve' | 'reject', times: number) => {
+    const inv = loadInvoiceById(id)!;
+    for (let i = 0; i < times; i++) { processor.processInvoice(inv); processor.learnFromFeedback(verdict(id, action), inv); }
+  };
+
+  it('records approvals against each discrepancy with a context fingerprint', () => {
+    const inv = loadInvoiceById('INV-B-001')!;
+    processor.processInvoice(inv);
+    const learning = processor.learnFromFeedback(verdict('INV-B-001', 'approve'), inv);
+    expect(learning.createdMemories.some(m => m.includes('tax_inclusive'))).toBe(true);
+
+    review('INV-B-001', 'approve', 1);
+    const [mem] = repository.findResolutionMemories('tax_inclusive');
+    expect(mem?.approvalCount).toBe(2);
+    expect(mem?.context['fingerprint']).toBe('parts ag|tax_inclusive|*');
+  });
+
+  it('stops forcing review for discrepancies humans always approve', () => {
+    //nothing extracted but the tax-inclusive wording, so the discrepancy is the only reason left for review
+    const inv = loadInvoiceById('INV-B-001')!;
+    const wordingOnly = { ...inv, id: 'INV-B-009', invoiceNumber: 'PA-7900', invoiceDate: new Date(inv.invoiceDate.getTime() + 20 * 864e5), fields: {}, rawText: 'Prices incl. VAT' };
+    expect(processor.processInvoice(wordingOnly).requiresHumanReview).toBe(true);
+
+    review('INV-B-001', 'approve', 3);
+    const result = processor.processInvoice(loadInvoiceById('INV-B-001')!);
+    expect(result.reasoning).toContain('tax_inclusive previously always approved (3/3 approved, 100%)');
+    expect(processor.processInvoice(wordingOnly).requiresHumanReview).toBe(false);
+  });
+
+  it('escalates discrepancies humans always reject', () => {
+    review('INV-B-001', 'reject', 3);
+    const result = processor.processInvoice(loadInvoiceById('INV-B-001')!);
+    expect(result.requiresHumanReview).toBe(true);
+    expect(result.reasoning).toMatch(/^Escalation required: tax_inclusive/);
+  });
+
+  it('ignores corrections when counting verdicts', () => {
+    const inv = loadInvoiceById('INV-B-001')!;
+    processor.processInvoice(inv);
+    processor.learnFromFeedback({ invoiceId: inv.id, action: 'correct', corrections: [{ fieldName: 'grossTotal', originalValue: 2400, correctedValue: 2380 }], timestamp: new Date() }, inv);
+    expect(repository.findResolutionMemories('tax_inclusive')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initializeDatabase, closeDatabase } from '../src/repository/database.js';
+import { migrate, getSchemaVersion, getAppliedMigrations, MIGRATIONS, LATEST_SCHEMA_VERSION, SchemaVersionError } from '../src/repository/migrations.js';
+
+describe('Schema Migrations', () => {
+  let dir: string, path: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'learned-memory-schema-')); path = join(dir, 'memory.db'); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const columns = (db: Database.Database, table: string) => (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+
+  it('migrates a new database to the latest version once', () => {
+    const db = initializeDatabase(path);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(getAppliedMigrations(db).map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    closeDatabase(db);
+
+    const reopened = initializeDatabase(path);
+    expect(migrate(reopened)).toEqual({ from: LATEST_SCHEMA_VERSION, to: LATEST_SCHEMA_VERSION, applied: [] });
+    closeDatabase(reopened);
+  });
+
+  it('upgrades a file created before versioning without losing data', () => {
+    //the original schema: memories without decayed_at and no schema_version table
+    const legacy = new Database(path);
+    MIGRATIONS[0]!.up(legacy);
+    legacy.prepare(`INSERT INTO vendor_memories (id, vendor_id, vendor_name, original_field_name, normalized_field_name, created_at, last_used_at) VALUES ('v1', 'supplier gmbh', 'Supplier GmbH', 'Leistungsdatum', 'serviceDate', '2024-01-01', '2024-01-01')`).run();
+    legacy.close();
+
+    const db = initializeDatabase(path);
+    expect(columns(db, 'vendor_memories')).toContain('decayed_at');
+    expect(columns(db, 'processing_sessions')).toContain('decision');
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM vendor_memories`).get()).toEqual({ n: 1 });
+    closeDatabase(db);
+  });
+
+  it('refuses a database written by a newer build', () => {
+    const db = initializeDatabase(path);
+    db.prepare(`INSERT INTO schema_version (version, description, applied_at) VALUES (?, 'from the future', ?)`).run(LATEST_SCHEMA_VERSION + 1, new Date().toISOString());
+    closeDatabase(db);
+
+    expect(() => initializeDatabase(path)).toThrow(SchemaVersionError);
+    expect(() => initializeDatabase(path)).toThrow(`Database schema version ${LATEST_SCHEMA_VERSION + 1} is newer than this build supports (${LATEST_SCHEMA_VERSION})`);
+  });
+
+  it('rolls back a failing step and keeps the version before it', () => {
+    const db = new Database(':memory:');
+    const steps = [
+      ...MIGRATIONS,
+      { version: LATEST_SCHEMA_VERSION + 1, description: 'broken', up: (d: Database.Database) => { d.exec(`CREATE TABLE half_done (id TEXT)`); d.exec(`ALTER TABLE missing ADD COLUMN x TEXT`); } },
+    ];
+    expect(() => migrate(db, steps)).toThrow(/no such table: missing/);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'half_done'`).get()).toBeUndefined();
+    db.close();
+  });
+});
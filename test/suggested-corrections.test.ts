@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById, loadPurchaseOrderModels } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type Database from 'better-sqlite3';
+
+describe('Suggested Corrections', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  it('returns each suggestion with its source, and the strings as a view of them', () => {
+    processor.setPurchaseOrders(loadPurchaseOrderModels());
+    const result = processor.processInvoice(loadInvoiceById('INV-A-003')!);
+
+    const po = result.suggestions.find(s => s.fieldName === 'poNumber')!;
+    expect(po).toEqual({
+      id: expect.stringMatching(/^sug-[0-9a-f]{12}$/), fieldName: 'poNumber', currentValue: null, suggestedValue: 'PO-A-051',
+      source: 'po_matching', sourceId: 'po-matching-service', confidence: expect.any(Number), reasoning: expect.stringMatching(/^PO matching: /),
+    });
+    expect(result.proposedCorrections.slice(0, result.suggestions.length)).toEqual(result.suggestions.map(s => expect.stringMatching(new RegExp(`^${s.fieldName}: `))));
+  });
+
+  it('labels memory and validation suggestions', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+    const memoryId = repository.findVendorMemories('supplier gmbh')[0]!.id;
+    expect(processor.processInvoice(loadInvoiceById('INV-A-002')!).suggestions).toContainEqual(expect.objectContaining({ fieldName: 'serviceDate', source: 'memory', sourceId: memoryId }));
+
+    const taxInclusive = processor.processInvoice(loadInvoiceById('INV-B-001')!).suggestions;
+    expect(taxInclusive).toContainEqual(expect.objectContaining({ fieldName: 'grossTotal', suggestedValue: 2380, source: 'validation', sourceId: 'totals-validation' }));
+  });
+
+  it('keeps ids stable across runs and stores them with the session', () => {
+    const first = processor.processInvoice(loadInvoiceById('INV-B-001')!).suggestions;
+    const second = processor.processInvoice(loadInvoiceById('INV-B-001')!);
+
+    expect(second.suggestions.map(s => s.id)).toEqual(first.map(s => s.id));
+    expect(new Set(first.map(s => s.id)).size).toBe(first.length);
+    expect(repository.findLatestProcessingSession('INV-B-001')!.proposedCorrections.map(c => [c.id, c.source])).toEqual(first.map(s => [s.id, s.source]));
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import { detectTaxTreatment, toRate, lineTaxBreakdown, describeTaxProfile } from '../src/services/tax.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Tax Treatment', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const withFields = (invoice: Invoice, fields: Record<string, unknown>): Invoice => ({
+    ...invoice, fields: { ...invoice.fields, ...Object.fromEntries(Object.entries(fields).map(([k, value]) => [k, { ...invoice.fields['netTotal']!, ...invoice.fields[k], value }])) },
+  });
+  const reverseCharge = (id: string, fields: Record<string, unknown> = { taxRate: 0, taxTotal: 0, grossTotal: 1000 }) => {
+    const invoice = loadInvoiceById(id)!;
+    return withFields({ ...invoice, rawText: `${invoice.rawText}\nSteuerschuldnerschaft des Leistungsempfängers` }, fields);
+  };
+  //INV-A-002 split into 2000 at 19% and 250 at 7%
+  const mixedRates = (id: string, secondRate: number, taxBreakdown: unknown[] = [{ rate: 19, net: 2000, tax: 380 }, { rate: '7%', net: 250, tax: 17.5 }]) => withFields({ ...loadInvoiceById('INV-A-002')!, id }, {
+    lineItems: [{ sku: 'WIDGET-001', description: 'Widget', qty: 80, unitPrice: 25 }, { sku: 'BOOK-1', description: 'Handbook', qty: 10, unitPrice: 25, taxRate: secondRate }],
+    netTotal: 2250, taxTotal: 397.5, grossTotal: 2647.5, taxBreakdown,
+  });
+  const validation = (invoice: Invoice) => processor.processInvoice(invoice).auditTrail.find(a => a.step === 'validate')!.details;
+
+  it('reads the treatment wording, rates and per-rate line sums', () => {
+    expect(detectTaxTreatment('Steuerschuldnerschaft des Leistungsempfängers (§13b UStG)')).toBe('reverse_charge');
+    expect(detectTaxTreatment('Steuerfreie innergemeinschaftliche Lieferung')).toBe('intra_community_supply');
+    expect(detectTaxTreatment('zzgl. 19% MwSt')).toBe('domestic');
+    expect([toRate(0.19), toRate(19), toRate('7 %'), toRate('')]).toEqual([0.19, 0.19, 0.07, null]);
+    expect([toRate(1), toRate('0.5%'), toRate(0), toRate(100)]).toEqual([0.01, 0.005, 0, null]);
+    expect(lineTaxBreakdown([{ sku: 'A', qty: 2, unitPrice: 50 }, { sku: 'B', qty: 1, unitPrice: 100, taxRate: 0.07 }], 0.19)).toEqual([
+      { rate: 0.07, net: 100, tax: 7 }, { rate: 0.19, net: 100, tax: 19 },
+    ]);
+    expect(describeTaxProfile({ treatment: 'domestic', rates: [0.07, 0.19] })).toBe('domestic 7% + 19%');
+  });
+
+  it('checks a mixed-rate invoice per rate and against its lines', () => {
+    const result = processor.processInvoice(mixedRates('INV-A-002', 0.07));
+    expect(result.normalizedInvoice).toMatchObject({ taxTreatment: 'domestic', taxBreakdown: [{ rate: 0.07, net: 250, tax: 17.5 }, { rate: 0.19, net: 2000, tax: 380 }] });
+    expect(result.auditTrail.find(a => a.step === 'validate')!.details).toBe('Totals consistent');
+    //a rate extracted as a percentage checks the same as the decimal
+    expect(validation(withFields({ ...loadInvoiceById('INV-A-002')!, id: 'INV-A-002p' }, { taxRate: 19 }))).toBe('Totals consistent');
+
+    const mismatched = processor.processInvoice(mixedRates('INV-A-002b', 0.19));
+    expect(mismatched.proposedCorrections).toContain('[line_tax_mismatch] [lineItems]: lineItems (7%) 0.00 inconsistent, expected 250.00 (diff -250.00)');
+    expect(mismatched.requiresHumanReview).toBe(true);
+    //a misprinted 19% tax fails its rate and the sum of the breakdown
+    expect(validation(mixedRates('INV-A-002c', 0.07, [{ rate: 19, net: 2000, tax: 390 }, { rate: 7, net: 250, tax: 17.5 }])))
+      .toBe('2 arithmetic issue(s): tax_breakdown_mismatch, tax_breakdown_mismatch, 0 correction(s) proposed');
+  });
+
+  it('expects no VAT on reverse-charge invoices', () => {
+    const charged = processor.processInvoice(reverseCharge('INV-C-002', {}));
+    expect(charged.proposedCorrections).toEqual(expect.arrayContaining([
+      '[reverse_charge]: Reverse charge: VAT is owed by the recipient',
+      '[reverse_charge_tax] [taxTotal]: taxTotal 190.00 inconsistent, expected 0.00 (diff 190.00)',
+    ]));
+    expect(charged.suggestions).toContainEqual(expect.objectContaining({ fieldName: 'taxRate', suggestedValue: 0, sourceId: 'pattern-detector:reverse_charge' }));
+    expect(charged.requiresHumanReview).toBe(true);
+
+    expect(validation({ ...reverseCharge('INV-C-002'), id: 'INV-C-002b' })).toBe('Totals consistent');
+  });
+
+  it('learns the vendor\'s usual treatment and flags an invoice that departs from it', () => {
+    processor.processInvoice(reverseCharge('INV-C-002'));
+    const learned = processor.learnFromFeedback({ invoiceId: 'INV-C-002', action: 'approve', timestamp: new Date() });
+    expect(learned.createdMemories).toContainEqual(expect.stringMatching(/^expectation .*: freight & co tax treatment reverse charge$/));
+    const memory = repository.findExpectationMemory('freight & co', 'tax_treatment', 'reverse charge')!;
+    expect(processor.processInvoice(loadInvoiceById('INV-C-003')!).proposedCorrections.some(p => p.startsWith('[tax_treatment_deviation]'))).toBe(false);
+
+    repository.updateExpectationMemory(memory.id, { confidence: 0.8 });
+    const domestic = processor.processInvoice(loadInvoiceById('INV-C-004')!);
+    expect(domestic.proposedCorrections).toContain(`[tax_treatment_deviation] [taxTreatment]: Tax treatment "domestic 19%" differs from the vendor's usual "reverse charge" (memory: ${memory.id}, confidence: 0.80)`);
+    expect(repository.findLatestProcessingSession('INV-C-004')!.decision.flaggedFields).toContain('taxTreatment');
+
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    const corrected = processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', timestamp: new Date(), corrections: [{ fieldName: 'taxRate', originalValue: 0.19, correctedValue: 0.07 }] });
+    expect(corrected.createdMemories).toContainEqual(expect.stringMatching(/: supplier gmbh tax treatment domestic 7%$/));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById, loadPurchaseOrderModels, loadDeliveryNoteModels } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Three-Way Matching', () => {
+  let db: Database.Database, processor: InvoiceProcessor;
+
+  beforeEach(() => {
+    const s = createTestProcessor(); db = s.db; processor = s.processor;
+    processor.setPurchaseOrders(loadPurchaseOrderModels());
+    processor.setDeliveryNotes(loadDeliveryNoteModels());
+  });
+  afterEach(() => cleanupTestDatabase(db));
+
+  it('flags billed quantity above delivered quantity', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    expect(result.requiresHumanReview).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('[quantity_mismatch]') && c.includes('WIDGET-001 billed 100, delivered 95'))).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('[partial_delivery]'))).toBe(true);
+  });
+
+  it('accepts a partial delivery billed exactly as delivered', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.proposedCorrections.some(c => c.startsWith('[quantity_mismatch]'))).toBe(false);
+    expect(result.proposedCorrections.some(c => c.startsWith('[partial_delivery]') && c.includes('WIDGET-001 95/100'))).toBe(true);
+  });
+
+  it('matches delivery notes through the suggested PO', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-A-003')!);
+    expect(result.proposedCorrections.some(c => c.startsWith('[missing_delivery_note]'))).toBe(false);
+    expect(result.proposedCorrections.some(c => c.startsWith('[quantity_mismatch]'))).toBe(false);
+  });
+
+  it('flags invoices without a delivery note', () => {
+    processor.setDeliveryNotes(loadDeliveryNoteModels().filter(dn => dn.poNumber !== 'PO-B-111'));
+    const result = processor.processInvoice(loadInvoiceById('INV-B-003')!);
+    expect(result.requiresHumanReview).toBe(true);
+    expect(result.reasoning).toContain('No delivery note found for PO-B-111');
+  });
+
+  it('expects no delivery note for service invoices without a PO', () => {
+    const base = loadInvoiceById('INV-C-001')!;
+    const invoice: Invoice = { ...base, rawText: 'Invoice: FC-1001\nTransport charges', fields: { ...base.fields, poNumber: { ...base.fields['poNumber']!, value: null } } };
+    expect(processor.processInvoice(invoice).proposedCorrections.some(c => c.startsWith('[missing_delivery_note]'))).toBe(false);
+  });
+
+  it('matches invoices billing a PO in parts against its delivery notes', () => {
+    processor.setDeliveryNotes([...loadDeliveryNoteModels(), { dnNumber: 'DN-A-125', vendor: 'Supplier GmbH', poNumber: 'PO-A-050', date: new Date('2024-01-20'), lineItems: [{ sku: 'WIDGET-001', qtyDelivered: 5 }] }]);
+    const base = loadInvoiceById('INV-A-002')!, lines = base.fields['lineItems']!;
+    const billing = (id: string, qty: number, rawText: string): Invoice => ({
+      ...base, id, rawText, fields: { ...base.fields, lineItems: { ...lines, value: [{ sku: 'WIDGET-001', description: 'Widget', qty, unitPrice: 25 }] } },
+    });
+    const mismatch = (invoice: Invoice) => processor.processInvoice(invoice).proposedCorrections.find(c => c.startsWith('[quantity_mismatch]'));
+
+    expect(mismatch(billing('INV-A-002', 95, base.rawText ?? ''))).toBeUndefined();
+    expect(mismatch(billing('INV-A-005', 5, 'Rechnungsnr: INV-2024-005\nBestellnr: PO-A-050'))).toBeUndefined();
+    expect(mismatch(billing('INV-A-006', 10, 'Rechnungsnr: INV-2024-006\nLieferschein: DN-A-125'))).toContain('WIDGET-001 billed 10, delivered 5');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import { parseAmount } from '../src/services/amounts.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Totals Validation', () => {
+  let db: Database.Database, processor: InvoiceProcessor;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const withField = (inv: Invoice, name: string, value: unknown): Invoice => ({ ...inv, fields: { ...inv.fields, [name]: { ...inv.fields[name]!, value } } });
+
+  it('passes consistent totals', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-A-002')!);
+    expect(result.auditTrail.find(a => a.step === 'validate')?.details).toBe('Totals consistent');
+  });
+
+  it('recomputes net and tax from the printed gross for tax-inclusive invoices', () => {
+    const result = processor.processInvoice(loadInvoiceById('INV-B-001')!);
+    expect(result.proposedCorrections.some(c => c.startsWith('grossTotal: "2400" → "2380"'))).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('taxTotal: "400" → "380"'))).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('[tax_calculation_mismatch] [taxTotal]'))).toBe(true);
+    expect(result.reasoning).toContain('Tax inclusive: gross 2380.00 = net 2000.00 + tax 380.00 (19%)');
+
+    //a subtotal or net total printed above the gross is not the total
+    const itemized = processor.processInvoice({ ...loadInvoiceById('INV-B-001')!, id: 'INV-B-001b', rawText: 'Invoice No: PA-7781\nPrices incl. VAT (MwSt. inkl.)\nSubtotal: 2000.00\nNet total: 2000.00\nTotal: 2380.00 EUR' });
+    expect(itemized.reasoning).toContain('Tax inclusive: gross 2380.00 = net 2000.00 + tax 380.00 (19%)');
+
+    //nor is a tax total printed below it
+    const taxed = processor.processInvoice({ ...loadInvoiceById('INV-B-001')!, id: 'INV-B-001c', rawText: 'Invoice No: PA-7781\nPrices incl. VAT (MwSt. inkl.)\nTotal: 2380.00 EUR\nVAT total: 380.00\nMwSt-Summe: 380,00\nUSt. Summe: 380,00\nTax total: 380.00' });
+    expect(taxed.reasoning).toContain('Tax inclusive: gross 2380.00 = net 2000.00 + tax 380.00 (19%)');
+  });
+
+  it('proposes the single inconsistent figure', () => {
+    const result = processor.processInvoice(withField(loadInvoiceById('INV-A-002')!, 'grossTotal', 2862.25));
+    expect(result.requiresHumanReview).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('[totals_mismatch] [grossTotal]'))).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('grossTotal: "2862.25" → "2826.25"'))).toBe(true);
+  });
+
+  it('flags line sums that do not match the net total', () => {
+    const inv = loadInvoiceById('INV-A-002')!;
+    const result = processor.processInvoice(withField(inv, 'lineItems', [{ sku: 'WIDGET-001', description: 'Widget', qty: 90, unitPrice: 25 }]));
+    expect(result.proposedCorrections.some(c => c.startsWith('[line_sum_mismatch] [netTotal]: netTotal 2375.00 inconsistent, expected 2250.00'))).toBe(true);
+    expect(result.proposedCorrections.some(c => c.startsWith('netTotal:'))).toBe(false);
+  });
+
+  it('parses German and English amounts', () => {
+    expect(parseAmount('2.380,00')).toBe(2380);
+    expect(parseAmount('2,380.00')).toBe(2380);
+    expect(parseAmount('2380.00')).toBe(2380);
+    expect(parseAmount('1.190')).toBe(1190);
+  });
+});
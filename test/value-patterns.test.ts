@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import { matchesValuePattern, inferValuePattern, widenValuePattern, describeValuePattern } from '../src/services/value-patterns.js';
+import { MemoryAdminService, type MemoryAdminError } from '../src/services/admin.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Value Patterns', () => {
+  it('matches missing, exact, regex and range patterns', () => {
+    const cases: [string, unknown, boolean][] = [
+      ['*', null, true], ['*', '  ', true], ['*', 'EUR', false],
+      ['EUR', ' EUR ', true], ['EUR', 'USD', false], ['EUR', null, false],
+      ['2380', '2.380,00', true], ['2380', 2380, true], ['2024-01-15', '15.01.2024', true], ['2024-01-15', new Date('2024-01-15'), true],
+      ['/^PO-A-\\d+$/', 'PO-A-050', true], ['/^po-a/i', 'PO-A-050', true], ['/^PO-B/', 'PO-A-050', false],
+      ['[100..250]', 199.5, true], ['[100..250]', '251', false], ['[..500]', 0, true], ['[100..]', 'abc', false],
+      ['[2024-01-01..2024-01-31]', '18.01.2024', true], ['[2024-01-01..2024-01-31]', '2024-02-01', false],
+      ['=[1..2]', '[1..2]', true], ['=[1..2]', 1.5, false], ['/([/', '/([/', true],
+    ];
+    for (const [pattern, value, expected] of cases) expect(matchesValuePattern(pattern, value), `${pattern} ~ ${String(value)}`).toBe(expected);
+  });
+
+  it('infers a pattern from the first value and widens it with later ones', () => {
+    expect([null, 'EUR', 2975, '[1..2]', new Date('2024-01-15T00:00:00Z')].map(inferValuePattern)).toEqual(['*', 'EUR', '2975', '=[1..2]', '2024-01-15']);
+    expect(widenValuePattern('2975', 595)).toBe('[595..2975]');
+    expect(widenValuePattern('[595..2975]', '3.100,00')).toBe('[595..3100]');
+    expect(widenValuePattern('2024-01-15', '02.01.2024')).toBe('[2024-01-02..2024-01-15]');
+    expect(widenValuePattern('€', 'Euro')).toBe('/^(?:€|Euro)$/');
+    expect(widenValuePattern('/^(?:€|Euro)$/', 'E.U.R')).toBe('/^(?:€|Euro|E\\.U\\.R)$/');
+    expect(widenValuePattern('EUR', 'EUR')).toBe('EUR');
+    expect([widenValuePattern('*', 'EUR'), widenValuePattern('EUR', null), widenValuePattern('EUR', 100), widenValuePattern('/^E/', 'X')]).toEqual([null, null, null, null]);
+    expect([describeValuePattern('*'), describeValuePattern('[1..2]')]).toEqual(['missing value', 'number range [1..2]']);
+  });
+
+  describe('correction memories', () => {
+    let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository;
+
+    beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; });
+    afterEach(() => cleanupTestDatabase(db));
+
+    const withCurrency = (id: string, value: unknown): Invoice => {
+      const invoice = loadInvoiceById(id)!;
+      return { ...invoice, fields: { ...invoice.fields, currency: { ...invoice.fields['currency']!, value } } };
+    };
+    const fixCurrency = (id: string, value: unknown) => {
+      processor.processInvoice(withCurrency(id, value));
+      return processor.learnFromFeedback({ invoiceId: id, action: 'correct', corrections: [{ fieldName: 'currency', originalValue: value, correctedValue: 'EUR' }], timestamp: new Date() });
+    };
+    const currencyMemories = () => repository.findCorrectionMemories('supplier gmbh', 'currency');
+
+    it('widens one memory per fix and applies it only where the pattern matches', () => {
+      fixCurrency('INV-A-001', '€');
+      const second = fixCurrency('INV-A-002', 'Euro');
+      expect(currencyMemories()).toHaveLength(1);
+      expect(currencyMemories()[0]!.originalValuePattern).toBe('/^(?:€|Euro)$/');
+      expect(second.updatedMemories).toEqual([expect.stringContaining('pattern € → /^(?:€|Euro)$/')]);
+      repository.updateCorrectionMemory(currencyMemories()[0]!.id, { confidence: 0.75 });
+
+      const matched = processor.processInvoice(withCurrency('INV-A-003', 'Euro'));
+      expect(matched.suggestions.find(s => s.fieldName === 'currency')).toMatchObject({
+        suggestedValue: 'EUR', sourceId: currencyMemories()[0]!.id, reasoning: expect.stringContaining('regex /^(?:€|Euro)$/ matched'),
+      });
+      const change = matched.auditTrail.find(e => e.step === 'apply')!.payload!.changes!.find(c => c.fieldName === 'currency');
+      expect(change).toMatchObject({ before: 'Euro', after: 'EUR', pattern: '/^(?:€|Euro)$/' });
+
+      const unmatched = processor.processInvoice(loadInvoiceById('INV-A-004')!);
+      expect(unmatched.suggestions.some(s => s.fieldName === 'currency')).toBe(false);
+      expect(unmatched.auditTrail.find(e => e.step === 'apply')!.details).toContain('1 correction memories skipped (pattern did not match)');
+    });
+
+    it('restores the narrower pattern when the widening feedback is reverted', () => {
+      fixCurrency('INV-A-001', '€');
+      processor.revertFeedback(fixCurrency('INV-A-002', 'Euro').feedbackId);
+      expect(currencyMemories()[0]!.originalValuePattern).toBe('€');
+    });
+
+    it('keeps a fix for a missing value apart from fixes for wrong ones', () => {
+      fixCurrency('INV-A-001', null);
+      fixCurrency('INV-A-002', 'Euro');
+      expect(currencyMemories().map(m => m.originalValuePattern).sort()).toEqual(['*', 'Euro']);
+    });
+
+    it('refuses an admin edit with a regex that does not compile', () => {
+      fixCurrency('INV-A-001', '€');
+      const admin = new MemoryAdminService(repository), id = currencyMemories()[0]!.id;
+      expect(admin.editMemory(id, { originalValuePattern: '[1..100]' }, 'alice')).toMatchObject({ originalValuePattern: '[1..100]' });
+      try { admin.editMemory(id, { originalValuePattern: '/([/' }, 'alice'); expect.unreachable(); } catch (err) {
+        expect((err as MemoryAdminError).reason).toBe('invalid_edit');
+      }
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestProcessor, cleanupTestDatabase, loadInvoiceById } from './setup.js';
+import type { InvoiceProcessor } from '../src/services/processor.js';
+import type { MemoryRepository } from '../src/repository/memory-repository.js';
+import { VendorRegistryService, VendorError, vendorKey, extractVendorIdentifiers } from '../src/services/vendors.js';
+import { ConfidencePolicyService } from '../src/services/policy.js';
+import { ADMIN_AUDIT_ID } from '../src/services/admin.js';
+import type { Invoice } from '../src/models/index.js';
+import type Database from 'better-sqlite3';
+
+describe('Vendor Registry', () => {
+  let db: Database.Database, processor: InvoiceProcessor, repository: MemoryRepository, vendors: VendorRegistryService;
+
+  beforeEach(() => { const s = createTestProcessor(); db = s.db; processor = s.processor; repository = s.repository; vendors = new VendorRegistryService(repository); });
+  afterEach(() => cleanupTestDatabase(db));
+
+  const spelled = (id: string, vendor: string, rawText?: string): Invoice => {
+    const base = loadInvoiceById(id)!;
+    return { ...base, vendorId: vendor, vendorName: vendor, ...(rawText && { rawText }) };
+  };
+  const learnServiceDate = () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.learnFromFeedback({ invoiceId: 'INV-A-001', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-01' }], timestamp: new Date() });
+  };
+
+  it('gives every spelling of a name the same alias key', () => {
+    expect(new Set(['Supplier GmbH', 'Supplier G.m.b.H.', 'SUPPLIER GMBH, Berlin', ' supplier  gmbh. '].map(vendorKey))).toEqual(new Set(['supplier']));
+    expect(vendorKey('Freight & Co')).toBe('freight');
+    expect(vendorKey('GmbH')).toBe('gmbh');
+    expect(extractVendorIdentifiers('USt-IdNr.: DE 123456789\nIBAN: DE89 3704 0044 0532 0130 00')).toEqual([
+      { kind: 'vat_id', value: 'DE123456789' }, { kind: 'iban', value: 'DE89370400440532013000' },
+    ]);
+  });
+
+  it('reads VAT IDs only where a country-prefixed number follows the label', () => {
+    expect(extractVendorIdentifiers('Our VAT identification number is DE123456789')).toEqual([{ kind: 'vat_id', value: 'DE123456789' }]);
+    expect(extractVendorIdentifiers('VAT registered company\nVAT No. ATU12345678')).toEqual([{ kind: 'vat_id', value: 'ATU12345678' }]);
+    expect(extractVendorIdentifiers('VAT registered company\nvat included')).toEqual([]);
+  });
+
+  it('recalls memories learned under another spelling of the vendor', () => {
+    learnServiceDate();
+    const result = processor.processInvoice(spelled('INV-A-002', 'SUPPLIER GMBH, Berlin'));
+
+    expect(result.proposedCorrections).toContainEqual(expect.stringMatching(/^serviceDate: /));
+    expect(repository.findLatestProcessingSession('INV-A-002')!.vendorId).toBe('supplier gmbh');
+    //one alias per key: the first spelling seen stands for the others
+    expect(vendors.getVendor('SUPPLIER GMBH, Berlin').aliases).toEqual(['Supplier GmbH']);
+    expect(vendors.listVendors()).toHaveLength(1);
+  });
+
+  it('resolves an unknown name by a known VAT ID or IBAN', () => {
+    processor.processInvoice(spelled('INV-A-001', 'Supplier GmbH', 'Supplier GmbH\nUSt-IdNr.: DE123456789\nRechnungsnr: INV-2024-001'));
+    processor.processInvoice(spelled('INV-A-002', 'Lieferant Nord', 'Lieferant Nord\nVAT ID: DE123456789\nRechnungsnr: INV-2024-002'));
+
+    expect(repository.findLatestProcessingSession('INV-A-002')!.vendorId).toBe('supplier gmbh');
+    expect(vendors.lookup('Lieferant Nord')).toBe('supplier gmbh');
+    expect(vendors.getVendor('supplier gmbh').identifiers).toEqual([{ kind: 'vat_id', value: 'DE123456789' }]);
+  });
+
+  it('merges two vendors with their memories, policies and aliases', () => {
+    learnServiceDate();
+    processor.processInvoice(spelled('INV-A-002', 'Lieferant Nord'));
+    const { feedbackId } = processor.learnFromFeedback({ invoiceId: 'INV-A-002', action: 'correct', corrections: [{ fieldName: 'serviceDate', originalValue: null, correctedValue: '2024-01-15' }], timestamp: new Date() });
+    const policies = new ConfidencePolicyService(repository);
+    policies.setPolicy({ vendorId: 'Lieferant Nord' }, { autoApplyThreshold: 0.75 }, 'alice');
+    expect(repository.findAuditEntries({ vendorId: 'lieferant nord' }).length).toBeGreaterThan(0);
+
+    const report = vendors.mergeVendors('Supplier GmbH', 'lieferant nord', 'alice');
+    expect(report).toMatchObject({ movedMemories: 0, mergedMemories: 1, movedPolicies: 1 });
+    expect(report.vendor.aliases).toEqual(expect.arrayContaining(['Lieferant Nord']));
+    expect(repository.findVendor('lieferant nord')).toBeUndefined();
+    expect(repository.findMemories({ vendorId: 'lieferant nord' }).total).toBe(0);
+    expect(repository.findVendorMemories('supplier gmbh').filter(m => m.normalizedFieldName === 'serviceDate')).toHaveLength(1);
+    expect(policies.listPolicies()).toMatchObject([{ vendorId: 'supplier gmbh', overrides: { autoApplyThreshold: 0.75 } }]);
+    expect(repository.getAuditTrail(ADMIN_AUDIT_ID).map(a => a.details)).toContain('alice merged vendor lieferant nord into supplier gmbh: 0 memories moved, 1 merged, 1 policies moved');
+    //feedback and audit history follow the vendor
+    expect(repository.findFeedbackSubmission(feedbackId)!.vendorId).toBe('supplier gmbh');
+    expect(repository.findAuditEntries({ vendorId: 'lieferant nord' })).toHaveLength(0);
+    expect(repository.findAuditEntries({ vendorId: 'supplier gmbh' }).filter(a => a.invoiceId === 'INV-A-002').length).toBeGreaterThan(0);
+
+    //the old name now lands on the surviving vendor
+    processor.processInvoice(spelled('INV-A-003', 'Lieferant Nord'));
+    expect(repository.findLatestProcessingSession('INV-A-003')!.vendorId).toBe('supplier gmbh');
+  });
+
+  it('rolls back a merge whose audit entry fails', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.processInvoice(spelled('INV-A-002', 'Lieferant Nord'));
+    vi.spyOn(repository, 'saveAuditEntry').mockImplementationOnce(() => { throw new Error('disk full'); });
+
+    expect(() => vendors.mergeVendors('supplier gmbh', 'lieferant nord', 'alice')).toThrow('disk full');
+    expect(repository.findVendor('lieferant nord')).toBeDefined();
+    expect(vendors.lookup('Lieferant Nord')).toBe('lieferant nord');
+    expect(repository.findAuditEntries({ vendorId: 'lieferant nord' }).length).toBeGreaterThan(0);
+  });
+
+  it('refuses aliases owned by another vendor and self-merges', () => {
+    processor.processInvoice(loadInvoiceById('INV-A-001')!);
+    processor.processInvoice(loadInvoiceById('INV-C-001')!);
+    const fail = (fn: () => unknown) => { try { fn(); } catch (e) { return (e as VendorError).reason; } };
+
+    expect(fail(() => vendors.addAlias('supplier gmbh', 'Freight & Co.', 'alice'))).toBe('invalid_alias');
+    expect(fail(() => vendors.mergeVendors('supplier gmbh', 'Supplier G.m.b.H.', 'alice'))).toBe('invalid_merge');
+    expect(fail(() => vendors.getVendor('nobody'))).toBe('not_found');
+    expect(vendors.addAlias('supplier gmbh', 'Supplier Deutschland', 'alice').aliases).toContain('Supplier Deutschland');
+  });
+});